@@ -0,0 +1,41 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { IncomingMessage } from 'node:http';
+import { UpstreamError } from './providers';
+
+let supabase: SupabaseClient | null = null;
+
+// The URL and anon key are public, so the browser's VITE_ variables are reused
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    if (!url || !anonKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be set for the AI proxy');
+    }
+    supabase = createClient(url, anonKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+  return supabase;
+}
+
+/**
+ * Resolve the Supabase user behind the request's bearer token. Supabase
+ * checks the JWT signature and expiry, so a forged or stale token is rejected.
+ */
+export async function authenticate(req: IncomingMessage): Promise<string> {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) {
+    throw new UpstreamError('Sign in to use AI generation', 401);
+  }
+
+  const { data, error } = await getSupabase().auth.getUser(token);
+  if (error && (!error.status || error.status >= 500)) {
+    throw new UpstreamError('Could not verify the session with Supabase', 503);
+  }
+  if (error || !data.user) {
+    throw new UpstreamError('Session expired, please sign in again', 401);
+  }
+  return data.user.id;
+}
@@ -0,0 +1,6 @@
+// Imported first by index.ts so every other module sees the .env values
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file: rely on the real environment
+}
@@ -0,0 +1,162 @@
+import './env';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import { GenerateRequest, SUPPORTED_PROVIDERS, UpstreamError, generate, listModels } from './providers';
+import { QuotaTracker } from './quota';
+import { recordUsage } from './usage';
+
+const PORT = Number(process.env.AI_PROXY_PORT || 8787);
+// Prompts carry whole generated apps during edits, so allow generous bodies
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+const quotas = new QuotaTracker();
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    const onData = (chunk: Buffer) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket open so the 413 can still be sent
+        req.off('data', onData);
+        req.pause();
+        reject(new UpstreamError('Request body too large', 413));
+      }
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function parseRequest(body: string): GenerateRequest {
+  let parsed: GenerateRequest;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new UpstreamError('Request body must be JSON', 400);
+  }
+
+  if (!SUPPORTED_PROVIDERS.includes(parsed.provider)) {
+    throw new UpstreamError(`Unsupported AI provider: ${parsed.provider}`, 400);
+  }
+  if (!Array.isArray(parsed.messages) || parsed.messages.length === 0) {
+    throw new UpstreamError('messages must be a non-empty array', 400);
+  }
+  return parsed;
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+  const status = error instanceof UpstreamError ? error.status : 500;
+  const message = error instanceof Error ? error.message : 'AI proxy error';
+  if (status >= 500) {
+    console.error('AI proxy request failed:', error);
+  }
+
+  // Mid-stream failures can no longer change the status line
+  if (res.headersSent) {
+    res.end(`data: ${JSON.stringify({ error: { message, status } })}\n\n`);
+    return;
+  }
+
+  const retryAfter = error instanceof UpstreamError ? error.retryAfter : null;
+  sendJson(res, status, { error: { message } }, retryAfter ? { 'Retry-After': retryAfter } : {});
+}
+
+/**
+ * POST /api/generate. Streaming requests are answered as server-sent events
+ * ({ token } per delta, then { response }); the status line is only sent with
+ * the first token, so failures before any output keep their real status and
+ * stay retryable for the browser.
+ */
+async function handleGenerate(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const userId = await authenticate(req);
+  const request = parseRequest(await readBody(req));
+  quotas.consume(userId);
+
+  // Stop the upstream call when the browser aborts
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const remaining = quotas.getRemaining(userId);
+  const quotaHeaders: Record<string, string> = remaining.requests === null
+    ? {}
+    : { 'X-Quota-Remaining-Requests': String(remaining.requests) };
+
+  const onToken = (token: string) => {
+    if (!request.stream) return;
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        ...quotaHeaders
+      });
+    }
+    res.write(`data: ${JSON.stringify({ token })}\n\n`);
+  };
+
+  const result = await generate(request, onToken, controller.signal);
+  quotas.recordTokens(userId, result.usage.totalTokens);
+  void recordUsage(userId, request.projectId, result);
+
+  if (request.stream) {
+    if (!res.headersSent) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', ...quotaHeaders });
+    }
+    res.end(`data: ${JSON.stringify({ response: result })}\n\n`);
+  } else {
+    sendJson(res, 200, result, quotaHeaders);
+  }
+}
+
+/**
+ * GET /api/models?provider=<id>. Discovery for self-hosted and OpenAI-style
+ * providers, so the browser never needs their base URL or key.
+ */
+async function handleModels(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  await authenticate(req);
+  const provider = new URL(req.url || '', 'http://localhost').searchParams.get('provider') || '';
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  sendJson(res, 200, { models: await listModels(provider, controller.signal) });
+}
+
+const server = createServer(async (req, res) => {
+  const path = (req.url || '').split('?')[0];
+
+  try {
+    if (path === '/api/generate' && req.method === 'POST') {
+      await handleGenerate(req, res);
+    } else if (path === '/api/models' && req.method === 'GET') {
+      await handleModels(req, res);
+    } else if (path === '/api/health') {
+      sendJson(res, 200, { status: 'ok' });
+    } else {
+      sendJson(res, 404, { error: { message: 'Not found' } });
+    }
+  } catch (error) {
+    // The browser went away, nobody is left to answer
+    if (res.destroyed) return;
+    if (!req.complete) {
+      // The rest of the body was never read, so the connection cannot be reused
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+    }
+    sendError(res, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,338 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/**
+ * Body of POST /api/generate. Mirrors LLMRequest in src/services/llmProviders.ts
+ * minus the abort signal, which the proxy derives from the client connection.
+ */
+export interface GenerateRequest {
+  provider: string;
+  model?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: {
+    type: 'json';
+    name: string;
+    description: string;
+    schema: Record<string, unknown>;
+  };
+  stream?: boolean;
+  // Project the call is charged to in the usage records
+  projectId?: string;
+}
+
+export interface GenerateUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  provider: string;
+  model: string;
+  usage: GenerateUsage;
+  finishReason?: string;
+}
+
+export type TokenHandler = (token: string) => void;
+
+// One entry of GET /api/models, in the OpenAI /models shape the browser parses
+export interface ModelSummary {
+  id: string;
+  owned_by?: string;
+}
+
+/**
+ * Error carrying the status the proxy should answer with, so the browser's
+ * retry and failover logic sees the same status the provider returned.
+ */
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter?: string | null
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 4000;
+
+interface OpenAIStyleConfig {
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel?: string;
+  requiresApiKey: boolean;
+}
+
+// Providers speaking the OpenAI wire format, keyed by the ids the browser uses
+const openAIStyleProviders: Record<string, () => OpenAIStyleConfig> = {
+  openai: () => ({ apiKey: process.env.OPENAI_API_KEY, defaultModel: 'gpt-4o-mini', requiresApiKey: true }),
+  groq: () => ({
+    apiKey: process.env.GROQ_API_KEY,
+    baseURL: 'https://api.groq.com/openai/v1',
+    defaultModel: process.env.GROQ_MODEL || 'llama-3.1-70b-versatile',
+    requiresApiKey: true
+  }),
+  'openai-compatible': () => ({
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    defaultModel: process.env.OPENAI_COMPATIBLE_MODEL,
+    requiresApiKey: false
+  })
+};
+
+// Ids of every provider this proxy can serve
+export const SUPPORTED_PROVIDERS = [...Object.keys(openAIStyleProviders), 'anthropic', 'gemini'];
+
+function notConfigured(provider: string): UpstreamError {
+  // 501 rather than 5xx-retryable 503: retrying will not make a key appear
+  return new UpstreamError(`${provider} is not configured on the AI proxy`, 501);
+}
+
+async function generateOpenAIStyle(
+  request: GenerateRequest,
+  onToken: TokenHandler,
+  signal: AbortSignal
+): Promise<GenerateResult> {
+  const config = openAIStyleProviders[request.provider]();
+  if ((config.requiresApiKey && !config.apiKey) || (request.provider === 'openai-compatible' && !config.baseURL)) {
+    throw notConfigured(request.provider);
+  }
+
+  const model = request.model || config.defaultModel;
+  if (!model) {
+    throw new UpstreamError(`No model given for ${request.provider}`, 400);
+  }
+
+  const client = new OpenAI({
+    // The SDK insists on a key even for local servers that ignore it
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    maxRetries: 0
+  });
+  const stream = await client.chat.completions.create(
+    {
+      model,
+      messages: [
+        ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+        ...request.messages
+      ],
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.responseFormat ? { response_format: { type: 'json_object' as const } } : {}),
+      stream: true,
+      stream_options: { include_usage: true }
+    },
+    { signal }
+  );
+
+  let text = '';
+  let usage: GenerateUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  let finishReason: string | undefined;
+
+  for await (const chunk of stream) {
+    const token = chunk.choices[0]?.delta?.content;
+    if (token) {
+      text += token;
+      onToken(token);
+    }
+    if (chunk.choices[0]?.finish_reason) {
+      finishReason = chunk.choices[0].finish_reason;
+    }
+    if (chunk.usage) {
+      usage = {
+        inputTokens: chunk.usage.prompt_tokens,
+        outputTokens: chunk.usage.completion_tokens,
+        totalTokens: chunk.usage.total_tokens
+      };
+    }
+  }
+
+  return { text, provider: request.provider, model, usage, finishReason };
+}
+
+async function generateAnthropic(
+  request: GenerateRequest,
+  onToken: TokenHandler,
+  signal: AbortSignal
+): Promise<GenerateResult> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw notConfigured(request.provider);
+  }
+
+  const model = request.model || 'claude-3-sonnet-20240229';
+  const format = request.responseFormat;
+  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY, maxRetries: 0 });
+  const stream = client.messages.stream(
+    {
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+      // Anthropic has no JSON mode, so structured output is a forced tool call
+      ...(format
+        ? {
+            tools: [{
+              name: format.name,
+              description: format.description,
+              input_schema: format.schema as Anthropic.Tool.InputSchema
+            }],
+            tool_choice: { type: 'tool' as const, name: format.name }
+          }
+        : {}),
+      messages: request.messages
+    },
+    { signal }
+  );
+
+  let text = '';
+  for await (const event of stream) {
+    if (event.type !== 'content_block_delta') continue;
+
+    const token = event.delta.type === 'text_delta'
+      ? event.delta.text
+      : event.delta.type === 'input_json_delta' ? event.delta.partial_json : '';
+    if (token) {
+      text += token;
+      onToken(token);
+    }
+  }
+
+  const finalMessage = await stream.finalMessage();
+  return {
+    text,
+    provider: request.provider,
+    model,
+    usage: {
+      inputTokens: finalMessage.usage.input_tokens,
+      outputTokens: finalMessage.usage.output_tokens,
+      totalTokens: finalMessage.usage.input_tokens + finalMessage.usage.output_tokens
+    },
+    finishReason: finalMessage.stop_reason ?? undefined
+  };
+}
+
+async function generateGemini(
+  request: GenerateRequest,
+  onToken: TokenHandler,
+  signal: AbortSignal
+): Promise<GenerateResult> {
+  if (!process.env.GEMINI_API_KEY) {
+    throw notConfigured(request.provider);
+  }
+
+  const model = request.model || 'gemini-2.5-pro';
+  const result = await new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+    .getGenerativeModel({
+      model,
+      ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.responseFormat ? { responseMimeType: 'application/json' } : {})
+      }
+    })
+    .generateContentStream(
+      {
+        contents: request.messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        }))
+      },
+      { signal }
+    );
+
+  let text = '';
+  for await (const chunk of result.stream) {
+    const token = chunk.text();
+    if (token) {
+      text += token;
+      onToken(token);
+    }
+  }
+
+  const response = await result.response;
+  return {
+    text,
+    provider: request.provider,
+    model,
+    usage: {
+      inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      totalTokens: response.usageMetadata?.totalTokenCount ?? 0
+    },
+    finishReason: response.candidates?.[0]?.finishReason
+  };
+}
+
+/**
+ * Call the requested provider with the keys held by the proxy. Upstream is
+ * always streamed; onToken decides whether tokens reach the client live.
+ */
+export async function generate(
+  request: GenerateRequest,
+  onToken: TokenHandler,
+  signal: AbortSignal
+): Promise<GenerateResult> {
+  try {
+    if (request.provider in openAIStyleProviders) {
+      return await generateOpenAIStyle(request, onToken, signal);
+    }
+    if (request.provider === 'anthropic') {
+      return await generateAnthropic(request, onToken, signal);
+    }
+    if (request.provider === 'gemini') {
+      return await generateGemini(request, onToken, signal);
+    }
+  } catch (error) {
+    throw toUpstreamError(error);
+  }
+
+  throw new UpstreamError(`Unsupported AI provider: ${request.provider}`, 400);
+}
+
+/**
+ * Models an OpenAI-style provider reports from /models, asked with the keys
+ * and base URL held by the proxy
+ */
+export async function listModels(provider: string, signal: AbortSignal): Promise<ModelSummary[]> {
+  if (!(provider in openAIStyleProviders)) {
+    throw new UpstreamError(`Model discovery is not available for ${provider}`, 400);
+  }
+  const config = openAIStyleProviders[provider]();
+  if ((config.requiresApiKey && !config.apiKey) || (provider === 'openai-compatible' && !config.baseURL)) {
+    throw notConfigured(provider);
+  }
+
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    maxRetries: 0
+  });
+  try {
+    const page = await client.models.list({ signal });
+    return page.data.map(model => ({ id: model.id, owned_by: model.owned_by }));
+  } catch (error) {
+    throw toUpstreamError(error);
+  }
+}
+
+function toUpstreamError(error: unknown): unknown {
+  if (error instanceof UpstreamError) return error;
+
+  const candidate = error as { status?: number; headers?: unknown } | null;
+  if (typeof candidate?.status !== 'number') return error;
+
+  const headers = candidate.headers as { get?: (name: string) => string | null } & Record<string, unknown> | undefined;
+  const retryAfter = typeof headers?.get === 'function'
+    ? headers.get('retry-after')
+    : typeof headers?.['retry-after'] === 'string' ? headers['retry-after'] as string : null;
+  return new UpstreamError(error instanceof Error ? error.message : 'Provider request failed', candidate.status, retryAfter);
+}
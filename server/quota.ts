@@ -0,0 +1,75 @@
+import { UpstreamError } from './providers';
+
+export interface QuotaLimits {
+  // 0 disables a limit
+  requestsPerDay: number;
+  tokensPerDay: number;
+}
+
+interface QuotaUsage {
+  day: string;
+  requests: number;
+  tokens: number;
+}
+
+export const QUOTA_LIMITS: QuotaLimits = {
+  requestsPerDay: Number(process.env.AI_PROXY_DAILY_REQUESTS ?? 200),
+  tokensPerDay: Number(process.env.AI_PROXY_DAILY_TOKENS ?? 0)
+};
+
+/**
+ * Per-user daily quotas, reset at midnight UTC. Counters live in memory, so
+ * they reset when the proxy restarts; that is enough to stop a runaway
+ * client without needing a table of its own.
+ */
+export class QuotaTracker {
+  private usage: Map<string, QuotaUsage> = new Map();
+
+  constructor(private limits: QuotaLimits = QUOTA_LIMITS) {}
+
+  /**
+   * Count a request against the user's quota, or throw a 429 when it is used up
+   */
+  consume(userId: string): void {
+    const usage = this.getUsage(userId);
+    const exhausted = (this.limits.requestsPerDay > 0 && usage.requests >= this.limits.requestsPerDay)
+      || (this.limits.tokensPerDay > 0 && usage.tokens >= this.limits.tokensPerDay);
+
+    if (exhausted) {
+      throw new UpstreamError(
+        'Daily AI generation quota reached, try again tomorrow',
+        429,
+        String(Math.ceil(this.msUntilReset() / 1000))
+      );
+    }
+    usage.requests++;
+  }
+
+  recordTokens(userId: string, tokens: number): void {
+    this.getUsage(userId).tokens += tokens;
+  }
+
+  getRemaining(userId: string): { requests: number | null; tokens: number | null } {
+    const usage = this.getUsage(userId);
+    return {
+      requests: this.limits.requestsPerDay > 0 ? Math.max(0, this.limits.requestsPerDay - usage.requests) : null,
+      tokens: this.limits.tokensPerDay > 0 ? Math.max(0, this.limits.tokensPerDay - usage.tokens) : null
+    };
+  }
+
+  private getUsage(userId: string): QuotaUsage {
+    const day = new Date().toISOString().slice(0, 10);
+    let usage = this.usage.get(userId);
+    if (!usage || usage.day !== day) {
+      usage = { day, requests: 0, tokens: 0 };
+      this.usage.set(userId, usage);
+    }
+    return usage;
+  }
+
+  private msUntilReset(): number {
+    const tomorrow = new Date();
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    return tomorrow.getTime() - Date.now();
+  }
+}
@@ -0,0 +1,61 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_RATES, parseRateOverrides, priceTokens } from '../src/services/modelRates';
+import type { GenerateResult } from './providers';
+
+const rates = { ...DEFAULT_RATES, ...parseRateOverrides(process.env.AI_RATES, 'AI_RATES') };
+
+let admin: SupabaseClient | null | undefined;
+
+// Usage rows are written with the service role only; browsers may read their rows but not insert them
+function getAdminClient(): SupabaseClient | null {
+  if (admin === undefined) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      console.warn('SUPABASE_SERVICE_ROLE_KEY is not set, so generation usage will not be recorded');
+    }
+    admin = url && serviceRoleKey
+      ? createClient(url, serviceRoleKey, { auth: { persistSession: false, autoRefreshToken: false } })
+      : null;
+  }
+  return admin;
+}
+
+/**
+ * Store the tokens and cost the provider reported for a call. The project is
+ * only linked when it belongs to the user, so a request cannot charge its
+ * usage to someone else's project.
+ */
+export async function recordUsage(userId: string, projectId: string | undefined, result: GenerateResult): Promise<void> {
+  const client = getAdminClient();
+  if (!client) return;
+
+  try {
+    let ownedProjectId: string | null = null;
+    if (projectId) {
+      const { data, error } = await client
+        .from('projects')
+        .select('id')
+        .eq('id', projectId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      ownedProjectId = data?.id ?? null;
+    }
+
+    const { error } = await client.from('generation_usage').insert({
+      user_id: userId,
+      project_id: ownedProjectId,
+      provider: result.provider,
+      model: result.model,
+      input_tokens: result.usage.inputTokens,
+      output_tokens: result.usage.outputTokens,
+      total_tokens: result.usage.totalTokens,
+      cost_usd: priceTokens(rates, result.provider, result.model, result.usage)
+    });
+    if (error) throw error;
+  } catch (error) {
+    // Accounting must never fail a generation
+    console.error('Failed to record generation usage:', error);
+  }
+}
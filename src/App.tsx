@@ -14,6 +14,7 @@ function App() {
   // State for generated code and preview
   const [generatedCode, setGeneratedCode] = useState<any>(null);
   const [previewData, setPreviewData] = useState<any>(null);
+  const [streamingCode, setStreamingCode] = useState<string | null>(null);
 
   const handleCodeGenerated = (code: any) => {
     console.log('Code generated:', code);
@@ -35,6 +36,7 @@ function App() {
           <div className="w-1/2 border-r border-gray-200 bg-white flex flex-col">
             <EnhancedChatInterface 
               onCodeGenerated={handleCodeGenerated}
+              onCodeStreaming={setStreamingCode}
               onPreviewGenerated={handlePreviewGenerated}
             />
           </div>
@@ -43,6 +45,7 @@ function App() {
           <div className="w-1/2 bg-gray-50 flex flex-col">
             <PreviewPanel 
               code={generatedCode}
+              streamingCode={streamingCode}
               preview={previewData}
             />
           </div>
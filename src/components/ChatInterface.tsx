@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Sparkles, Code2, Eye, Download, Loader2, User, Bot, Copy, CheckCircle2 } from 'lucide-react';
 import { AIService, ParsedFeature } from '../services/ai';
+import { formatFeatureChanges, formatFeatureList } from '../services/featureEdits';
 import { PreviewService } from '../services/preview';
 import { DeploymentService } from '../services/deployment';
 
@@ -185,17 +186,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onCodeGenerated, onPrevie
       }
     });
     
-    // Simulate feature modification (in a real app, you'd use AI to parse the request)
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
+    const result = await AIService.modifyFeatures(currentIdea, request, extractedFeatures);
+    setExtractedFeatures(result.features);
+
+    const notes = result.notes.length > 0 ? `\n\n${result.notes.map(note => `• ${note}`).join('\n')}` : '';
     updateLastMessage({
-      content: "✅ **Features updated!**\n\nI've processed your request. Here are the updated features:\n\n" + 
-        extractedFeatures.filter(f => f.enabled).map(f => `• **${f.name}**: ${f.description}`).join('\n') + 
+      content: (result.changes.length > 0
+        ? `✅ **Features updated!**\n\nChanges:\n${formatFeatureChanges(result.changes)}`
+        : "🤔 **No changes made**\n\nI couldn't match your request to the feature list.") +
+        notes +
+        `\n\n**Features now:**\n${formatFeatureList(result.features)}` +
         "\n\n**Ready to proceed?**\n" +
-        "• Type 'proceed' to generate code with these features\n" +
+        "• Type 'proceed' to generate code with the features that are on\n" +
         "• Ask for more modifications if needed",
       metadata: {
-        features: extractedFeatures,
+        features: result.features,
         progress: {
           step: 'features-updated',
           status: 'completed',
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ArrowRight, SkipForward } from 'lucide-react';
+import type { ClarifyingAnswer, ClarifyingQuestion } from '../services/clarification';
+
+interface ClarifyingQuestionsProps {
+  questions: ClarifyingQuestion[];
+  disabled?: boolean;
+  onSubmit: (answers: ClarifyingAnswer[]) => void;
+  onSkip: () => void;
+}
+
+const ClarifyingQuestions: React.FC<ClarifyingQuestionsProps> = ({ questions, disabled, onSubmit, onSkip }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  const setAnswer = (id: string, answer: string) => {
+    setAnswers(prev => ({ ...prev, [id]: answer }));
+  };
+
+  const answered = questions.filter(question => answers[question.id]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(answered.map(question => ({
+      topic: question.topic,
+      question: question.question,
+      answer: answers[question.id].trim()
+    })));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3">
+      {questions.map((question, index) => (
+        <div key={question.id} className="rounded-lg border border-gray-200 bg-white p-3">
+          <label htmlFor={question.id} className="block text-sm font-medium text-gray-800 mb-2">
+            {index + 1}. {question.question}
+          </label>
+          {question.suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {question.suggestions.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => setAnswer(question.id, suggestion)}
+                  disabled={disabled}
+                  className={`px-2 py-1 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+                    answers[question.id] === suggestion
+                      ? 'bg-blue-500 border-blue-500 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+          <input
+            id={question.id}
+            value={answers[question.id] || ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            disabled={disabled}
+            placeholder="Your answer (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {answered.length} of {questions.length} answered
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={onSkip}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+          >
+            <SkipForward className="h-3 w-3" />
+            <span>Skip</span>
+          </button>
+          <button
+            type="submit"
+            disabled={disabled || answered.length === 0}
+            className="px-3 py-1.5 text-xs bg-blue-500 text-white rounded-md hover:bg-blue-600 flex items-center space-x-1 disabled:opacity-50"
+          >
+            <span>Continue</span>
+            <ArrowRight className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ClarifyingQuestions;
@@ -21,7 +21,7 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ code, language, title }) => {
   };
 
   const handleDownload = () => {
-    const extension = language === 'sql' ? 'sql' : language === 'yaml' ? 'yml' : 'tsx';
+    const extension = language === 'sql' ? 'sql' : language === 'yaml' ? 'yml' : language === 'json' ? 'json' : 'tsx';
     const filename = `${title.toLowerCase().replace(/\s+/g, '-')}.${extension}`;
     
     const blob = new Blob([code], { type: 'text/plain' });
@@ -1,8 +1,23 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, Code2, Eye, Download, Loader2, User, Bot, Copy, CheckCircle2 } from 'lucide-react';
-import { AIService, ParsedFeature } from '../services/ai';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Sparkles, Code2, Eye, Download, Loader2, User, Bot, Copy, CheckCircle2, Square, Plus, AlertTriangle } from 'lucide-react';
+import { AIService, ParsedFeature, RepairAttempt } from '../services/ai';
+import { PatchHunk, applyHunks } from '../services/codePatch';
+import { ClarifyingAnswer, ClarifyingQuestion, buildProjectContext, foldAnswersIntoIdea } from '../services/clarification';
+import { EnhancedAIService } from '../services/enhancedAI';
+import { formatFeatureChanges, formatFeatureList } from '../services/featureEdits';
+import { LLMProviderRegistry, LLMResponse } from '../services/llmProviders';
 import { PreviewService } from '../services/preview';
 import { DeploymentService } from '../services/deployment';
+import { UsageService, UsageTotals, formatCost, formatTokens } from '../services/usage';
+import { BACKEND_PROFILES, DATABASE_PROFILES, DEPLOYMENT_PROFILES, FRONTEND_PROFILES } from '../services/stackProfiles';
+import { StackAlternative, formatStackIssues, validateStack } from '../services/stackCompatibility';
+import { SpecPlan, planSpecs } from '../services/specPlanner';
+import { useAuth } from '../hooks/useAuth';
+import { useProjects } from '../hooks/useProjects';
+import PatchReview from './PatchReview';
+import ClarifyingQuestions from './ClarifyingQuestions';
+import SpecPlanner from './SpecPlanner';
+import FeatureCustomizer from './FeatureCustomizer';
 
 interface Message {
   id: string;
@@ -13,6 +28,26 @@ interface Message {
     features?: ParsedFeature[];
     code?: any;
     preview?: any;
+    streamingCode?: string;
+    providerReport?: string;
+    // Why AI output was replaced with heuristic results, if it was
+    fallbackReasons?: string[];
+    // Rounds of sending compile errors back to the model
+    repairs?: RepairAttempt[];
+    // Edits proposed for a follow-up request, awaiting review until applied or discarded
+    patch?: {
+      hunks: PatchHunk[];
+      status: 'pending' | 'applied' | 'discarded';
+    };
+    // Questions about a vague idea, open until answered or skipped
+    questions?: {
+      items: ClarifyingQuestion[];
+      status: 'pending' | 'answered' | 'skipped';
+    };
+    // Features under review; the latest such message carries the feature editor
+    featureReview?: boolean;
+    // Specs planned from the confirmed features, editable until the app is generated from them
+    planReview?: 'pending' | 'done';
     progress?: {
       step: string;
       status: 'pending' | 'in-progress' | 'completed';
@@ -23,12 +58,66 @@ interface Message {
 
 interface EnhancedChatInterfaceProps {
   onCodeGenerated?: (code: any) => void;
+  onCodeStreaming?: (partialCode: string | null) => void;
   onPreviewGenerated?: (preview: any) => void;
 }
 
-type WorkflowStep = 'chat' | 'features' | 'generating' | 'complete';
+type WorkflowStep = 'chat' | 'clarifying' | 'features' | 'planning' | 'generating' | 'complete';
+
+// Minimum delay between re-renders while tokens are streaming in
+const STREAM_FLUSH_INTERVAL_MS = 80;
+
+const OUTPUT_LANGUAGES = ['JavaScript', 'TypeScript'];
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const FOLLOW_UP_HINT = "To change the app, describe what you want, e.g. 'add a dark mode toggle'. " +
+  "You'll review each edit before it is applied. Click New app to start something different.";
+
+// Lists each fix round and, if the errors never cleared, the ones that remain
+const formatRepairHistory = (repairs: RepairAttempt[]): string => {
+  const rounds = repairs.map(repair => {
+    const outcome = repair.error
+      ? `no usable fix (${repair.error})`
+      : repair.remaining.length === 0 ? 'all fixed' : `${pluralize(repair.remaining.length, 'error')} left`;
+    return `Round ${repair.attempt} of ${repair.maxAttempts}: sent ${pluralize(repair.diagnostics.length, 'error')} back, ${outcome}`;
+  });
+
+  const remaining = repairs[repairs.length - 1].remaining;
+  if (remaining.length > 0) {
+    rounds.push(
+      'Stopped without a clean build. The preview may fail on:',
+      ...remaining.slice(0, 5).map(diagnostic => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`)
+    );
+  }
+  return rounds.join('\n');
+};
+
+const providerLabel = (providerId: string, model: string) =>
+  `${LLMProviderRegistry.has(providerId) ? LLMProviderRegistry.get(providerId).name : providerId} (${model})`;
+
+// Summarises which providers answered a generation and why any before them failed
+const formatProviderReport = (responses: LLMResponse[]): string | undefined => {
+  if (responses.length === 0) return undefined;
+
+  const answered = [...new Set(responses.map(r => providerLabel(r.provider, r.model)))];
+  const failures = [...new Set(
+    responses.flatMap(r => r.failedAttempts || []).map(attempt =>
+      `${providerLabel(attempt.provider, attempt.model)} failed${attempt.retries > 0 ? ` after ${attempt.retries} ${attempt.retries === 1 ? 'retry' : 'retries'}` : ''}: ${attempt.reason}`
+    )
+  )];
 
-const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGenerated, onPreviewGenerated }) => {
+  const usage = UsageService.summarize(responses);
+  const cost = `${formatCost(usage.costUsd)}${usage.unpricedCalls > 0 ? ' + unpriced calls' : ''}`;
+  const cachedCalls = responses.filter(r => r.cached).length;
+  const reuse = cachedCalls > 0
+    ? ` · ${cachedCalls === responses.length ? 'all' : `${cachedCalls} of ${responses.length}`} reused from cache`
+    : '';
+
+  return [`Answered by ${answered.join(', ')} · ${formatTokens(usage.totalTokens)} tokens · ${cost}${reuse}`, ...failures].join('\n');
+};
+
+const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGenerated, onCodeStreaming, onPreviewGenerated }) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -41,17 +130,38 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentStep, setCurrentStep] = useState<WorkflowStep>('chat');
   const [currentIdea, setCurrentIdea] = useState('');
+  // Ask a few questions about a new idea before extracting its features
+  const [askQuestions, setAskQuestions] = useState(true);
+  // Stop to review the features and the planned specs before generating
+  const [reviewFirst, setReviewFirst] = useState(true);
+  const [specPlan, setSpecPlan] = useState<SpecPlan | null>(null);
   const [extractedFeatures, setExtractedFeatures] = useState<ParsedFeature[]>([]);
-  const [techStack] = useState({
+  // The files of the app on screen, which follow-up requests patch
+  const [currentCode, setCurrentCode] = useState<Record<string, string> | null>(null);
+  const [techStack, setTechStack] = useState({
     frontend: 'React',
-    backend: 'Node.js',
+    backend: 'Node.js Express',
     database: 'PostgreSQL',
-    deployment: 'Vercel',
+    // Hosts the Express server as well as the frontend, so the default stack has no conflicts
+    deployment: 'Heroku',
+    language: 'JavaScript',
+    authentication: false,
+    realtime: false,
+    testing: false,
     aiProvider: import.meta.env.VITE_AI_PROVIDER || 'groq',
     aiModel: import.meta.env.VITE_GROQ_MODEL || 'llama-3.1-70b-versatile'
   });
+  const stackValidation = useMemo(() => validateStack(techStack), [techStack]);
+  const featureReviewId = useMemo(() => [...messages].reverse().find(msg => msg.metadata?.featureReview)?.id, [messages]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const projectIdRef = useRef<string | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(() => UsageService.getSessionTotals());
+  const { user } = useAuth();
+  const { createProject, updateProject } = useProjects();
+
+  useEffect(() => UsageService.subscribe(setSessionUsage), []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -84,9 +194,124 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
     ));
   };
 
+  const setPatchStatus = (messageId: string, status: 'applied' | 'discarded') => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId && msg.metadata?.patch
+        ? {
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            patch: { ...msg.metadata.patch, status },
+            progress: {
+              step: 'review',
+              status: 'completed',
+              description: status === 'applied' ? 'Changes applied' : 'Changes discarded; the app was not changed'
+            }
+          }
+        }
+        : msg
+    ));
+  };
+
+  const createRepairHandler = (repairs: RepairAttempt[]) => (repair: RepairAttempt) => {
+    repairs.push(repair);
+    updateLastMessage({
+      content: `🛠️ **Fixing errors in the generated code...**\n\n${formatRepairHistory(repairs)}`,
+      metadata: {
+        progress: {
+          step: 'repairing',
+          status: 'in-progress',
+          description: `Compile checks, fix round ${repair.attempt} of ${repair.maxAttempts}`
+        }
+      }
+    });
+  };
+
+  const createCodeStreamHandler = (content: string, description: string) => {
+    let partialCode = '';
+    let lastFlush = 0;
+
+    return (token: string) => {
+      partialCode += token;
+      const now = Date.now();
+      if (now - lastFlush < STREAM_FLUSH_INTERVAL_MS) return;
+      lastFlush = now;
+
+      updateLastMessage({
+        content,
+        metadata: {
+          streamingCode: partialCode,
+          progress: {
+            step: 'coding',
+            status: 'in-progress',
+            description
+          }
+        }
+      });
+      onCodeStreaming?.(partialCode);
+    };
+  };
+
+  const reportStopped = (resumeHint: string) => {
+    onCodeStreaming?.(null);
+    updateLastMessage({
+      content: `⏹️ **Generation stopped**\n\n${resumeHint}`,
+      metadata: {
+        progress: {
+          step: 'stopped',
+          status: 'pending',
+          description: 'Generation cancelled'
+        }
+      }
+    });
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Signed-in users get each idea saved as a project, so its AI usage is charged to it
+  const startProject = async (idea: string) => {
+    projectIdRef.current = null;
+    if (user) {
+      try {
+        const project = await createProject({ name: idea.slice(0, 80), description: idea, idea, tech_stack: techStack });
+        projectIdRef.current = project.id;
+      } catch (error) {
+        console.error('Failed to save project:', error);
+      }
+    }
+  };
+
+  const completeProject = async (features: ParsedFeature[], generatedCode: unknown) => {
+    if (!projectIdRef.current) return;
+    try {
+      await updateProject(projectIdRef.current, { features, generated_code: generatedCode, status: 'completed' });
+    } catch (error) {
+      console.error('Failed to save project:', error);
+    }
+  };
+
+  const applyStackAlternative = (alternative: StackAlternative) => {
+    setTechStack(prev => ({ ...prev, ...alternative.changes }));
+  };
+
+  // Generation waits until the stack has no conflicts; returns whether it may start
+  const checkStack = (): boolean => {
+    if (stackValidation.compatible) return true;
+    const conflicts = stackValidation.issues.filter(issue => issue.severity === 'error');
+    addMessage({
+      type: 'assistant',
+      content: `⚠️ **The selected tech stack does not work together**\n\n${formatStackIssues(conflicts)}\n\nChange the stack below, then send again.`
+    });
+    return false;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isProcessing) return;
+    // A new idea stays in the input until the stack is fixed
+    if (currentStep === 'chat' && !checkStack()) return;
 
     const userMessage = input.trim();
     setInput('');
@@ -97,30 +322,126 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
       content: userMessage
     });
 
-    setIsProcessing(true);
-
-    try {
+    await runTask(async signal => {
       if (currentStep === 'chat') {
-        await handleDirectCodeGeneration(userMessage);
+        // Saved before the questions, so every call for this idea is charged to its project
+        await startProject(userMessage);
+        if (askQuestions) {
+          await handleClarification(userMessage, signal);
+        } else {
+          await handleDirectCodeGeneration(userMessage, signal);
+        }
+      } else if (currentStep === 'clarifying') {
+        // A typed reply answers the open questions in free form
+        await handleClarificationAnswers([{ topic: 'other', question: 'Details', answer: userMessage }], signal);
       } else if (currentStep === 'features') {
-        await handleFeatureModification(userMessage);
+        await handleFeatureModification(userMessage, signal);
+      } else if (currentStep === 'planning') {
+        await handlePlanReply(userMessage, signal);
+      } else if (currentStep === 'complete' && currentCode) {
+        await handleFollowUpEdit(userMessage, signal);
       } else {
         addMessage({
           type: 'assistant',
           content: "I'm currently generating your app. Please wait for the process to complete before sending new messages."
         });
       }
+    });
+  };
+
+  // Runs one cancellable step of the conversation, reporting any error in the chat
+  const runTask = async (task: (signal: AbortSignal) => Promise<void>) => {
+    setIsProcessing(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      await task(controller.signal);
     } catch (error) {
       addMessage({
         type: 'assistant',
         content: `I encountered an error: ${error instanceof Error ? error.message : 'Something went wrong'}. Please try again or rephrase your request.`
       });
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
-  const handleDirectCodeGeneration = async (idea: string) => {
+  const handleClarification = async (idea: string, signal: AbortSignal) => {
+    const fallbackReasons: string[] = [];
+    setCurrentIdea(idea);
+    addMessage({
+      type: 'assistant',
+      content: '🤔 **Reading your idea...**',
+      metadata: {
+        progress: {
+          step: 'clarifying',
+          status: 'in-progress',
+          description: 'Finding what the idea leaves open'
+        }
+      }
+    });
+
+    try {
+      const questions = await AIService.askClarifyingQuestions(idea, techStack, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        onFallback: reason => fallbackReasons.push(reason)
+      });
+      updateLastMessage({
+        content: "Before I build it, a few questions so the app fits what you have in mind. Answer any you like, or skip them to start right away.",
+        metadata: {
+          questions: { items: questions, status: 'pending' },
+          fallbackReasons
+        }
+      });
+      setCurrentStep('clarifying');
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      reportStopped('Send your idea again to start over.');
+    }
+  };
+
+  const setQuestionsStatus = (status: 'answered' | 'skipped') => {
+    setMessages(prev => prev.map(msg =>
+      msg.metadata?.questions?.status === 'pending'
+        ? { ...msg, metadata: { ...msg.metadata, questions: { ...msg.metadata.questions, status } } }
+        : msg
+    ));
+  };
+
+  // Folds the answers into the idea and the project context, then builds the app
+  const handleClarificationAnswers = async (answers: ClarifyingAnswer[], signal: AbortSignal) => {
+    setQuestionsStatus(answers.length > 0 ? 'answered' : 'skipped');
+    EnhancedAIService.updateProjectContext(buildProjectContext(currentIdea, answers));
+    await handleDirectCodeGeneration(foldAnswersIntoIdea(currentIdea, answers), signal);
+  };
+
+  const handleQuestionsSubmitted = (answers: ClarifyingAnswer[]) => {
+    if (isProcessing) return;
+    addMessage({
+      type: 'user',
+      content: answers.map(answer => `${answer.question}\n${answer.answer}`).join('\n\n')
+    });
+    void runTask(signal => handleClarificationAnswers(answers, signal));
+  };
+
+  const handleQuestionsSkipped = () => {
+    if (isProcessing) return;
+    addMessage({
+      type: 'user',
+      content: 'Skip the questions'
+    });
+    void runTask(signal => handleClarificationAnswers([], signal));
+  };
+
+  const handleDirectCodeGeneration = async (idea: string, signal: AbortSignal) => {
+    const responses: LLMResponse[] = [];
+    const onResponse = (response: LLMResponse) => responses.push(response);
+    const fallbackReasons: string[] = [];
+    const onFallback = (reason: string) => fallbackReasons.push(reason);
+    const repairs: RepairAttempt[] = [];
     setCurrentIdea(idea);
     setCurrentStep('generating');
     
@@ -157,10 +478,37 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         }
       });
 
-      const features = await AIService.parseIdea(idea, techStack);
+      const features = await AIService.parseIdea(idea, techStack, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        onResponse,
+        onFallback
+      });
       console.log('✅ Features parsed:', features);
       setExtractedFeatures(features);
 
+      if (reviewFirst) {
+        setCurrentStep('features');
+        updateLastMessage({
+          content: `📋 **Here's what I'd build**\n\n${formatFeatureList(features)}\n\n` +
+            "**Ready to proceed?**\n" +
+            "• Type 'proceed' to plan the components, API and tables for the features that are on\n" +
+            "• Ask for changes, like 'drop auth, add CSV export, make search high priority'",
+          metadata: {
+            features,
+            featureReview: true,
+            providerReport: formatProviderReport(responses),
+            fallbackReasons,
+            progress: {
+              step: 'features',
+              status: 'completed',
+              description: 'Features ready for review'
+            }
+          }
+        });
+        return;
+      }
+
       // Step 2: Generate code
       updateLastMessage({
         content: "⚡ **Generating code...**\n\nCreating functional React components and application logic based on your requirements.",
@@ -173,7 +521,19 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         }
       });
 
-      const generatedCode = await AIService.generateCode(idea, features, techStack);
+      const generatedCode = await AIService.generateCode(idea, features, techStack, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        onResponse,
+        onFallback,
+        onRepair: createRepairHandler(repairs),
+        onToken: createCodeStreamHandler(
+          "⚡ **Generating code...**\n\nWriting your application live:",
+          'Streaming React components and application code'
+        )
+      });
+      onCodeStreaming?.(null);
+      setCurrentCode(generatedCode);
       console.log('✅ Code generated:', Object.keys(generatedCode));
 
       // Step 3: Create preview
@@ -189,10 +549,11 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
       });
 
       onCodeGenerated?.(generatedCode);
+      void completeProject(features, generatedCode);
       
       // Generate preview
       try {
-        const preview = await PreviewService.generatePreview(generatedCode);
+        const preview = await PreviewService.generatePreview(generatedCode, signal);
         console.log('✅ Preview generated:', preview.status);
         onPreviewGenerated?.(preview);
         
@@ -207,11 +568,14 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
             "• View and download the source code\n" +
             "• Request modifications or new features\n" +
             "• Deploy your app to make it live\n\n" +
-            "To create a new app, simply describe another idea!",
+            FOLLOW_UP_HINT,
           metadata: {
             features,
             code: generatedCode,
             preview,
+            providerReport: formatProviderReport(responses),
+            fallbackReasons,
+            repairs,
             progress: {
               step: 'completed',
               status: 'completed',
@@ -220,6 +584,7 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
           }
         });
       } catch (previewError) {
+        if (signal.aborted) throw previewError;
         console.error('❌ Preview generation failed:', previewError);
         const errorPreview = {
           url: '',
@@ -243,6 +608,9 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
             features,
             code: generatedCode,
             preview: errorPreview,
+            providerReport: formatProviderReport(responses),
+            fallbackReasons,
+            repairs,
             progress: {
               step: 'completed-with-issues',
               status: 'completed',
@@ -252,7 +620,13 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         });
       }
     } catch (error) {
+      if (signal.aborted) {
+        reportStopped('No further requests will be made for this idea. Send it again, or a refined version, whenever you are ready.');
+        setCurrentStep('chat');
+        return;
+      }
       console.error('❌ Code generation failed:', error);
+      onCodeStreaming?.(null);
       updateLastMessage({
         content: `❌ **Generation failed**\n\nI encountered an issue while generating your app: ${error instanceof Error ? error.message : 'Unknown error'}. Please try describing your app idea again, perhaps with more specific details.`
       });
@@ -260,12 +634,15 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
     }
   };
 
-  const handleFeatureModification = async (request: string) => {
+  const handleFeatureModification = async (request: string, signal: AbortSignal) => {
     if (request.toLowerCase().includes('proceed') || request.toLowerCase().includes('generate') || request.toLowerCase().includes('continue')) {
-      await generateApplication();
+      showPlan();
       return;
     }
     
+    const responses: LLMResponse[] = [];
+    const fallbackReasons: string[] = [];
+
     // Handle feature modification requests
     addMessage({
       type: 'assistant',
@@ -278,18 +655,37 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         }
       }
     });
-    
-    // Simulate feature modification (in a real app, you'd use AI to parse the request)
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
+
+    let result;
+    try {
+      result = await AIService.modifyFeatures(currentIdea, request, extractedFeatures, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        onResponse: response => responses.push(response),
+        onFallback: reason => fallbackReasons.push(reason)
+      });
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      reportStopped("Your feature list is unchanged. Ask again, or type 'proceed' to plan the app with it.");
+      return;
+    }
+    setExtractedFeatures(result.features);
+
+    const notes = result.notes.length > 0 ? `\n\n${result.notes.map(note => `• ${note}`).join('\n')}` : '';
     updateLastMessage({
-      content: "✅ **Features updated!**\n\nI've processed your request. Here are the updated features:\n\n" + 
-        extractedFeatures.filter(f => f.enabled).map(f => `• **${f.name}**: ${f.description}`).join('\n') + 
+      content: (result.changes.length > 0
+        ? `✅ **Features updated!**\n\nChanges:\n${formatFeatureChanges(result.changes)}`
+        : "🤔 **No changes made**\n\nI couldn't match your request to the feature list.") +
+        notes +
+        `\n\n**Features now:**\n${formatFeatureList(result.features)}` +
         "\n\n**Ready to proceed?**\n" +
-        "• Type 'proceed' to generate code with these features\n" +
-        "• Ask for more modifications if needed",
+        "• Type 'proceed' to plan the components, API and tables for the features that are on\n" +
+        "• Ask for more changes, like 'drop auth, add CSV export, make search high priority'",
       metadata: {
-        features: extractedFeatures,
+        features: result.features,
+        featureReview: true,
+        providerReport: formatProviderReport(responses),
+        fallbackReasons,
         progress: {
           step: 'features-updated',
           status: 'completed',
@@ -299,7 +695,56 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
     });
   };
   
-  const generateApplication = async () => {
+  // Plans specs from the features that are on, for review before generating
+  const showPlan = () => {
+    if (!checkStack()) return;
+    setSpecPlan(planSpecs(extractedFeatures, techStack));
+    setCurrentStep('planning');
+    addMessage({
+      type: 'assistant',
+      content: "🗺️ **Here's the plan**\n\nThe app will be built from these components, API endpoints and tables. " +
+        "Edit them below, then generate the app.",
+      metadata: { planReview: 'pending' }
+    });
+  };
+
+  const setPlanReviewStatus = (status: 'pending' | 'done') => {
+    setMessages(prev => prev.map(msg =>
+      msg.metadata?.planReview && msg.metadata.planReview !== status
+        ? { ...msg, metadata: { ...msg.metadata, planReview: status } }
+        : msg
+    ));
+  };
+
+  const handlePlanReply = async (request: string, signal: AbortSignal) => {
+    if (request.toLowerCase().includes('proceed') || request.toLowerCase().includes('generate') || request.toLowerCase().includes('continue')) {
+      await generateApplication(signal);
+      return;
+    }
+
+    addMessage({
+      type: 'assistant',
+      content: "Edit the plan above, then click Generate app or type 'proceed'. To change the features instead, click Back to features."
+    });
+  };
+
+  const handleBackToFeatures = () => {
+    if (isProcessing) return;
+    setPlanReviewStatus('done');
+    setCurrentStep('features');
+    addMessage({
+      type: 'assistant',
+      content: `**Features now:**\n${formatFeatureList(extractedFeatures)}\n\n` +
+        "Ask for changes, then type 'proceed' to plan the app again.",
+      metadata: { featureReview: true }
+    });
+  };
+
+  const generateApplication = async (signal: AbortSignal) => {
+    if (!checkStack()) return;
+    const responses: LLMResponse[] = [];
+    const fallbackReasons: string[] = [];
+    const repairs: RepairAttempt[] = [];
     setCurrentStep('generating');
     
     addMessage({
@@ -321,7 +766,20 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
 
     try {
       const enabledFeatures = extractedFeatures.filter(f => f.enabled);
-      const generatedCode = await AIService.generateCode(currentIdea, enabledFeatures, techStack);
+      const generatedCode = await AIService.generateCode(currentIdea, enabledFeatures, techStack, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        plan: specPlan ?? undefined,
+        onResponse: response => responses.push(response),
+        onFallback: reason => fallbackReasons.push(reason),
+        onRepair: createRepairHandler(repairs),
+        onToken: createCodeStreamHandler(
+          "🚀 **Generating your application...**\n\nWriting your application live:",
+          'Streaming application code'
+        )
+      });
+      onCodeStreaming?.(null);
+      setCurrentCode(generatedCode);
       
       updateLastMessage({
         content: "🎉 **Application generated successfully!**\n\n" +
@@ -338,13 +796,15 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         }
       });
 
+      setPlanReviewStatus('done');
       onCodeGenerated?.(generatedCode);
+      void completeProject(enabledFeatures, generatedCode);
       
       // Add a small delay before generating preview to ensure code is processed
       await new Promise(resolve => setTimeout(resolve, 500));
       
       try {
-        const preview = await PreviewService.generatePreview(generatedCode);
+        const preview = await PreviewService.generatePreview(generatedCode, signal);
         onPreviewGenerated?.(preview);
         setCurrentStep('complete');
 
@@ -356,11 +816,14 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
             "• View and interact with your app in the preview\n" +
             "• Request deployment to make it live\n" +
             "• Download the complete source code\n\n" +
-            "To create a new app, simply refresh the page and start over!",
+            FOLLOW_UP_HINT,
           metadata: {
             features: enabledFeatures,
             code: generatedCode,
             preview,
+            providerReport: formatProviderReport(responses),
+            fallbackReasons,
+            repairs,
             progress: {
               step: 'completed',
               status: 'completed',
@@ -369,6 +832,7 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
           }
         });
       } catch (previewError) {
+        if (signal.aborted) throw previewError;
         console.error('Preview generation failed:', previewError);
         const preview = {
           url: '',
@@ -392,6 +856,9 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
             features: enabledFeatures,
             code: generatedCode,
             preview,
+            providerReport: formatProviderReport(responses),
+            fallbackReasons,
+            repairs,
             progress: {
               step: 'completed-with-issues',
               status: 'completed',
@@ -401,18 +868,183 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
         });
       }
     } catch (error) {
+      if (signal.aborted) {
+        reportStopped("Your plan is unchanged. Type 'proceed' to start generating again.");
+        setCurrentStep('planning');
+        return;
+      }
+      onCodeStreaming?.(null);
       updateLastMessage({
         content: `❌ **Generation failed**\n\nI encountered an issue while generating your app: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`
       });
-      setCurrentStep('features');
+      setCurrentStep('planning');
     }
   };
 
-  const handleFeatureToggle = (featureId: string) => {
-    const updatedFeatures = extractedFeatures.map(f => 
-      f.id === featureId ? { ...f, enabled: !f.enabled } : f
-    );
-    setExtractedFeatures(updatedFeatures);
+  const handleFollowUpEdit = async (request: string, signal: AbortSignal) => {
+    if (!currentCode) return;
+    const responses: LLMResponse[] = [];
+    const fallbackReasons: string[] = [];
+
+    addMessage({
+      type: 'assistant',
+      content: "✏️ **Preparing changes...**\n\nWorking out which parts of your app need to change.",
+      metadata: {
+        progress: {
+          step: 'editing',
+          status: 'in-progress',
+          description: 'Proposing edits to the current code'
+        }
+      }
+    });
+
+    try {
+      const proposal = await AIService.generateEdit(currentIdea, request, currentCode, techStack, {
+        signal,
+        projectId: projectIdRef.current ?? undefined,
+        onResponse: response => responses.push(response),
+        onFallback: reason => fallbackReasons.push(reason),
+        onToken: createCodeStreamHandler(
+          "✏️ **Preparing changes...**\n\nWriting the edits live:",
+          'Streaming proposed edits'
+        )
+      });
+      onCodeStreaming?.(null);
+
+      const skipped = proposal.errors.length > 0
+        ? `\n\nSome proposed edits did not match the current code and were left out:\n${proposal.errors.slice(0, 5).map(error => `• ${error}`).join('\n')}`
+        : '';
+
+      if (proposal.hunks.length === 0) {
+        updateLastMessage({
+          content: `❌ **No changes to review**\n\nI couldn't turn that request into edits that fit your current code. Your app is unchanged; try describing the change in more detail.${skipped}`,
+          metadata: {
+            providerReport: formatProviderReport(responses),
+            fallbackReasons
+          }
+        });
+        return;
+      }
+
+      updateLastMessage({
+        content: `📝 **${pluralize(proposal.hunks.length, 'change')} proposed**\n\n` +
+          `Accept or reject each change below, then apply the accepted ones. Your app stays as it is until you do.${skipped}`,
+        metadata: {
+          patch: { hunks: proposal.hunks, status: 'pending' },
+          providerReport: formatProviderReport(responses),
+          fallbackReasons,
+          progress: {
+            step: 'review',
+            status: 'pending',
+            description: 'Waiting for your review'
+          }
+        }
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        reportStopped('Your app is unchanged. Describe the change again whenever you are ready.');
+        return;
+      }
+      onCodeStreaming?.(null);
+      updateLastMessage({
+        content: `❌ **Edit failed**\n\nI encountered an issue while preparing the changes: ${error instanceof Error ? error.message : 'Unknown error'}. Your app is unchanged; please try again.`
+      });
+    }
+  };
+
+  const handleApplyPatch = async (messageId: string, accepted: PatchHunk[]) => {
+    if (!currentCode || isProcessing) return;
+    const result = applyHunks(currentCode, accepted);
+    const failures = result.failed.length > 0
+      ? `\n\nThese changes no longer fit the code and were skipped:\n${result.failed.map(failure => `• ${failure.error}`).join('\n')}`
+      : '';
+    setPatchStatus(messageId, 'applied');
+
+    if (result.applied.length === 0) {
+      addMessage({
+        type: 'assistant',
+        content: `❌ **No changes applied**\n\nYour app is unchanged.${failures}`
+      });
+      return;
+    }
+
+    const files = [...new Set(result.applied.map(hunk => hunk.file))];
+    const summary = `✅ **Applied ${pluralize(result.applied.length, 'change')}** to ${files.join(', ')}`;
+    setCurrentCode(result.code);
+    onCodeGenerated?.(result.code);
+    void completeProject(extractedFeatures.filter(f => f.enabled), result.code);
+
+    setIsProcessing(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    addMessage({
+      type: 'assistant',
+      content: `${summary}\n\n🎨 Updating the live preview...${failures}`,
+      metadata: {
+        code: result.code,
+        progress: {
+          step: 'preview',
+          status: 'in-progress',
+          description: 'Updating live preview'
+        }
+      }
+    });
+
+    try {
+      const preview = await PreviewService.generatePreview(result.code, controller.signal);
+      onPreviewGenerated?.(preview);
+      updateLastMessage({
+        content: `${summary}\n\nThe live preview shows the updated app.${failures}`,
+        metadata: {
+          code: result.code,
+          preview,
+          progress: {
+            step: 'completed',
+            status: 'completed',
+            description: 'Changes applied'
+          }
+        }
+      });
+    } catch (previewError) {
+      const reason = controller.signal.aborted
+        ? 'The preview was not updated.'
+        : `The preview could not be updated: ${previewError instanceof Error ? previewError.message : 'Unknown error'}`;
+      updateLastMessage({
+        content: `${summary}\n\n${reason}${failures}`,
+        metadata: {
+          code: result.code,
+          progress: {
+            step: 'completed-with-issues',
+            status: 'completed',
+            description: 'Changes applied (preview issues)'
+          }
+        }
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleNewApp = () => {
+    setCurrentStep('chat');
+    setCurrentIdea('');
+    setCurrentCode(null);
+    setExtractedFeatures([]);
+    setSpecPlan(null);
+    addMessage({
+      type: 'assistant',
+      content: "Ready for a new app! Describe the idea and I'll generate it from scratch."
+    });
+    inputRef.current?.focus();
+  };
+
+  const handleFeaturesToggle = (featureIds: string[], enabled: boolean) => {
+    setExtractedFeatures(prev => prev.map(f => featureIds.includes(f.id) ? { ...f, enabled } : f));
+  };
+
+  const handleFeatureUpdate = (feature: ParsedFeature) => {
+    setExtractedFeatures(prev => prev.map(f => f.id === feature.id ? feature : f));
   };
 
   const handleExamplePrompt = (prompt: string) => {
@@ -442,6 +1074,12 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
               {isProcessing ? 'Generating your app...' : 'Ready to build your app'}
             </p>
           </div>
+          {sessionUsage.calls > 0 && (
+            <div className="ml-auto text-right text-xs text-gray-500" title="AI usage this session">
+              <div className="font-medium text-gray-700">{formatCost(sessionUsage.costUsd)}</div>
+              <div>{formatTokens(sessionUsage.totalTokens)} tokens</div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -466,7 +1104,91 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
                 <div className="whitespace-pre-wrap text-sm leading-relaxed">
                   {message.content}
                 </div>
+
+                {message.metadata?.streamingCode && (
+                  <pre className="mt-3 max-h-64 overflow-y-auto bg-gray-900 text-green-300 text-xs rounded-lg p-3 whitespace-pre-wrap font-mono">
+                    {message.metadata.streamingCode}
+                  </pre>
+                )}
                 
+                {message.metadata?.providerReport && (
+                  <div className="mt-2 text-xs text-gray-500 whitespace-pre-wrap">
+                    {message.metadata.providerReport}
+                  </div>
+                )}
+
+                {message.metadata?.fallbackReasons && message.metadata.fallbackReasons.length > 0 && (
+                  <div className="mt-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2 whitespace-pre-wrap">
+                    {`Some output was produced without the AI, or without its usual checks:\n${[...new Set(message.metadata.fallbackReasons)].join('\n')}`}
+                  </div>
+                )}
+
+                {message.metadata?.repairs && message.metadata.repairs.length > 0 && (
+                  <div className={`mt-2 text-xs rounded-md p-2 whitespace-pre-wrap border ${
+                    message.metadata.repairs[message.metadata.repairs.length - 1].remaining.length === 0
+                      ? 'text-green-800 bg-green-50 border-green-200'
+                      : 'text-red-700 bg-red-50 border-red-200'
+                  }`}>
+                    {`Compile checks found errors and sent them back to the model:\n${formatRepairHistory(message.metadata.repairs)}`}
+                  </div>
+                )}
+
+                {message.metadata?.questions?.status === 'pending' && (
+                  <ClarifyingQuestions
+                    questions={message.metadata.questions.items}
+                    disabled={isProcessing}
+                    onSubmit={handleQuestionsSubmitted}
+                    onSkip={handleQuestionsSkipped}
+                  />
+                )}
+
+                {message.id === featureReviewId && currentStep === 'features' && (
+                  <div className="mt-3 bg-white rounded-lg">
+                    <FeatureCustomizer
+                      idea={currentIdea}
+                      features={extractedFeatures}
+                      onFeaturesToggle={handleFeaturesToggle}
+                      onFeatureUpdate={handleFeatureUpdate}
+                      isLoading={false}
+                    />
+                  </div>
+                )}
+
+                {message.metadata?.planReview === 'pending' && currentStep === 'planning' && specPlan && (
+                  <div className="mt-3 space-y-3">
+                    <div className="bg-white rounded-lg p-3">
+                      <SpecPlanner plan={specPlan} onChange={setSpecPlan} />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => void runTask(signal => generateApplication(signal))}
+                        disabled={isProcessing}
+                        className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        Generate app
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleBackToFeatures}
+                        disabled={isProcessing}
+                        className="px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-white disabled:opacity-50"
+                      >
+                        Back to features
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {message.metadata?.patch?.status === 'pending' && (
+                  <PatchReview
+                    hunks={message.metadata.patch.hunks}
+                    disabled={isProcessing}
+                    onApply={accepted => handleApplyPatch(message.id, accepted)}
+                    onDiscard={() => setPatchStatus(message.id, 'discarded')}
+                  />
+                )}
+
                 {message.metadata?.progress && (
                   <div className="mt-3 pt-3 border-t border-gray-200">
                     <div className="flex items-center space-x-2">
@@ -537,6 +1259,106 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
 
       {/* Input */}
       <div className="border-t border-gray-200 p-4 bg-white">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {currentStep === 'complete' && (
+            <button
+              type="button"
+              onClick={handleNewApp}
+              disabled={isProcessing}
+              className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+              title="Start over with a new idea"
+            >
+              <Plus className="h-3 w-3" />
+              <span>New app</span>
+            </button>
+          )}
+          {currentStep === 'chat' && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600" title="Answer a few questions about your idea before features are extracted">
+              <input
+                type="checkbox"
+                checked={askQuestions}
+                onChange={(e) => setAskQuestions(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <span>Ask questions first</span>
+            </label>
+          )}
+          {currentStep === 'chat' && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600" title="Review the features and the planned components, API and tables before the app is generated">
+              <input
+                type="checkbox"
+                checked={reviewFirst}
+                onChange={(e) => setReviewFirst(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <span>Review the plan first</span>
+            </label>
+          )}
+          {([
+            ['frontend', 'Frontend', FRONTEND_PROFILES.map(profile => profile.name)],
+            ['backend', 'Backend', BACKEND_PROFILES.map(profile => profile.name)],
+            ['database', 'Database', DATABASE_PROFILES.map(profile => profile.name)],
+            ['deployment', 'Deploy to', DEPLOYMENT_PROFILES.map(profile => profile.name)],
+            ['language', 'Language', OUTPUT_LANGUAGES]
+          ] as const).map(([layer, label, choices]) => (
+            <label key={layer} className="flex items-center space-x-1 text-xs text-gray-600">
+              <span>{label}</span>
+              <select
+                value={techStack[layer]}
+                onChange={(e) => setTechStack(prev => ({ ...prev, [layer]: e.target.value }))}
+                disabled={isProcessing}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-800 disabled:opacity-50"
+              >
+                {choices.map(choice => (
+                  <option key={choice} value={choice}>{choice}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {([
+            ['authentication', 'Auth', 'Include user sign-up, sign-in and sign-out'],
+            ['realtime', 'Real-time', 'Keep data in sync across open clients over WebSockets'],
+            ['testing', 'Tests', 'Structure the code so each unit can be tested in isolation']
+          ] as const).map(([feature, label, title]) => (
+            <label key={feature} className="flex items-center space-x-1 text-xs text-gray-600" title={title}>
+              <input
+                type="checkbox"
+                checked={techStack[feature]}
+                onChange={(e) => setTechStack(prev => ({ ...prev, [feature]: e.target.checked }))}
+                disabled={isProcessing}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        {stackValidation.issues.length > 0 && (
+          <div className="space-y-1 mb-3">
+            {stackValidation.issues.map(issue => (
+              <div
+                key={issue.id}
+                className={`flex flex-wrap items-center gap-2 text-xs rounded-md px-2 py-1 border ${
+                  issue.severity === 'error'
+                    ? 'text-red-700 bg-red-50 border-red-200'
+                    : 'text-amber-800 bg-amber-50 border-amber-200'
+                }`}
+              >
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                <span className="flex-1">{issue.message}</span>
+                {issue.alternatives.map(alternative => (
+                  <button
+                    key={alternative.label}
+                    type="button"
+                    onClick={() => applyStackAlternative(alternative)}
+                    disabled={isProcessing}
+                    className="px-2 py-0.5 border border-current rounded-md hover:bg-white disabled:opacity-50"
+                  >
+                    {alternative.label}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex space-x-3">
           <div className="flex-1 relative">
             <textarea
@@ -549,24 +1371,40 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ onCodeGen
                   handleSubmit(e);
                 }
               }}
-              placeholder="Describe the app you want to build (e.g., 'expense tracker with categories', 'portfolio with project showcase')..."
+              placeholder={currentStep === 'complete'
+                ? "Describe a change to your app (e.g., 'add a dark mode toggle', 'sort tasks by due date')..."
+                : currentStep === 'clarifying'
+                ? 'Answer the questions above, or add any details in your own words...'
+                : currentStep === 'features'
+                ? "Ask for feature changes (e.g., 'drop auth, add CSV export'), or type 'proceed' to plan the app..."
+                : currentStep === 'planning'
+                ? "Edit the plan above, or type 'proceed' to generate the app..."
+                : "Describe the app you want to build (e.g., 'expense tracker with categories', 'portfolio with project showcase')..."}
               className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
               rows={1}
               style={{ minHeight: '44px', maxHeight: '120px' }}
               disabled={isProcessing}
             />
           </div>
-          <button
-            type="submit"
-            disabled={!input.trim() || isProcessing}
-            className="px-4 py-3 bg-blue-500 text-white rounded-xl hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-          >
-            {isProcessing ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isProcessing ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-4 py-3 bg-red-500 text-white rounded-xl hover:bg-red-600 transition-colors flex items-center justify-center space-x-2"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4" />
+              <span className="text-sm">Stop</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="px-4 py-3 bg-blue-500 text-white rounded-xl hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </button>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,97 @@
+import React, { useEffect, useMemo } from 'react';
+import { CalendarClock, Download } from 'lucide-react';
+import type { ParsedFeature } from '../services/ai';
+import { EnhancedAIService } from '../services/enhancedAI';
+import { estimateFeatures, estimationToCsv, estimationToMarkdown } from '../services/estimation';
+
+interface EstimatePanelProps {
+  idea: string;
+  features: ParsedFeature[];
+}
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * Effort per feature and milestones in build order, exportable for review
+ * before any code is generated
+ */
+const EstimatePanel: React.FC<EstimatePanelProps> = ({ idea, features }) => {
+  // Scale and security answers to the clarifying questions weigh on the points
+  const report = useMemo(
+    () => estimateFeatures(features, { constraints: EnhancedAIService.getProjectContext().constraints }),
+    [features]
+  );
+
+  // The timeline becomes part of the project context for later prompts
+  useEffect(() => {
+    EnhancedAIService.updateProjectContext({ timeline: report.timeline });
+  }, [report]);
+
+  if (report.features.length === 0) return null;
+
+  return (
+    <div className="mt-6 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <CalendarClock className="h-4 w-4 text-gray-600" />
+          <h4 className="font-semibold text-gray-900 text-sm">Estimate</h4>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => downloadFile('estimate.md', estimationToMarkdown(report, idea), 'text/markdown')}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 flex items-center space-x-1"
+          >
+            <Download className="h-3 w-3" />
+            <span>Markdown</span>
+          </button>
+          <button
+            onClick={() => downloadFile('estimate.csv', estimationToCsv(report), 'text/csv')}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 flex items-center space-x-1"
+          >
+            <Download className="h-3 w-3" />
+            <span>CSV</span>
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-700 mb-3">
+        {report.totalPoints} points, about {report.totalDays} working days
+        {report.timeline.deadline && `, done by ${formatDate(report.timeline.deadline)}`}.
+        Points come from each feature's complexity and category, plus the features it builds on or that build on it.
+      </p>
+      <div className="space-y-3">
+        {report.milestones.map((milestone, index) => (
+          <div key={milestone.milestone.name}>
+            <div className="flex items-center justify-between text-xs font-medium text-gray-800 mb-1">
+              <span>{index + 1}. {milestone.milestone.name}</span>
+              <span className="text-gray-500">
+                {milestone.points} pts · {milestone.days} days · due {formatDate(milestone.milestone.dueDate)}
+              </span>
+            </div>
+            <ul className="space-y-0.5">
+              {milestone.features.map(({ feature, points, days }) => (
+                <li key={feature.id} className="flex items-center justify-between text-xs text-gray-600 pl-4">
+                  <span>{feature.name}</span>
+                  <span>{points} pts · {days} d</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EstimatePanel;
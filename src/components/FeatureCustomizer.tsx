@@ -1,30 +1,164 @@
-import React, { useState } from 'react';
-import { Settings, CheckCircle2, Loader2, Sparkles } from 'lucide-react';
-
-interface ParsedFeature {
-  id: string;
-  name: string;
-  description: string;
-  category: 'ui' | 'backend' | 'database' | 'security' | 'integration';
-  complexity: 'low' | 'medium' | 'high';
-  enabled: boolean;
-  dependencies: string[];
-  implementation: string;
-}
+import React, { useMemo, useState } from 'react';
+import { Settings, CheckCircle2, Loader2, Sparkles, AlertTriangle, GitBranch, ListChecks, Plus, X } from 'lucide-react';
+import type { ParsedFeature } from '../services/ai';
+import { FeatureGraph, buildFeatureGraph, planFeatureToggle } from '../services/featureGraph';
+import EstimatePanel from './EstimatePanel';
 
 interface FeatureCustomizerProps {
   idea: string;
   features: ParsedFeature[];
-  onFeatureToggle: (featureId: string) => void;
+  // Switch several features at once, e.g. a feature and everything that depends on it
+  onFeaturesToggle: (featureIds: string[], enabled: boolean) => void;
+  // Edits to a feature's user stories and acceptance criteria
+  onFeatureUpdate: (feature: ParsedFeature) => void;
   isLoading: boolean;
 }
 
+// A toggle that would switch other features too, waiting for confirmation
+interface PendingToggle {
+  featureId: string;
+  enable: boolean;
+  cascade: string[];
+}
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 30;
+const COLUMN_GAP = 50;
+const ROW_GAP = 12;
+
+/**
+ * Features laid out in columns by dependency depth, with an arrow from each
+ * feature to the ones it depends on
+ */
+const FeatureGraphView: React.FC<{ graph: FeatureGraph; highlighted: Set<string> }> = ({ graph, highlighted }) => {
+  const columns: string[][] = [];
+  graph.order.forEach(id => {
+    const level = graph.levels.get(id) || 0;
+    (columns[level] = columns[level] || []).push(id);
+  });
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, level) => column.forEach((id, row) => {
+    positions.set(id, { x: level * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) });
+  }));
+
+  const width = columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = Math.max(...columns.map(column => column.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width + 2} height={height + 2} className="block">
+        <defs>
+          <marker id="feature-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+        {Array.from(graph.dependencies.entries()).flatMap(([id, dependencies]) => dependencies.map(dependency => {
+          const from = positions.get(id)!;
+          const to = positions.get(dependency)!;
+          const inCycle = graph.cyclic.has(id) && graph.cyclic.has(dependency);
+          return (
+            <line
+              key={`${id}->${dependency}`}
+              x1={from.x + 1}
+              y1={from.y + NODE_HEIGHT / 2 + 1}
+              x2={to.x + NODE_WIDTH + 1}
+              y2={to.y + NODE_HEIGHT / 2 + 1}
+              stroke={inCycle ? '#ef4444' : '#9ca3af'}
+              strokeDasharray={inCycle ? '4 3' : undefined}
+              markerEnd="url(#feature-arrow)"
+            />
+          );
+        }))}
+        {graph.order.map(id => {
+          const feature = graph.features.get(id)!;
+          const { x, y } = positions.get(id)!;
+          return (
+            <g key={id} transform={`translate(${x + 1}, ${y + 1})`}>
+              <title>{feature.name}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={6}
+                fill={feature.enabled ? '#f0fdf4' : '#f9fafb'}
+                stroke={highlighted.has(id) ? '#f59e0b' : graph.cyclic.has(id) ? '#ef4444' : feature.enabled ? '#86efac' : '#d1d5db'}
+                strokeWidth={highlighted.has(id) ? 2 : 1}
+              />
+              <text
+                x={NODE_WIDTH / 2}
+                y={NODE_HEIGHT / 2 + 4}
+                textAnchor="middle"
+                fontSize="11"
+                fill={feature.enabled ? '#166534' : '#9ca3af'}
+              >
+                {feature.name.length > 22 ? `${feature.name.slice(0, 21)}…` : feature.name}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+interface EditableListProps {
+  label: string;
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}
+
+// A list of one-line entries; entries left empty are dropped when they lose focus
+const EditableList: React.FC<EditableListProps> = ({ label, items, placeholder, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <span className="text-xs font-medium text-gray-700">{label}</span>
+      <button
+        onClick={() => onChange([...items, ''])}
+        className="text-xs text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+      >
+        <Plus className="h-3 w-3" />
+        <span>Add</span>
+      </button>
+    </div>
+    {items.length === 0 && <p className="text-xs text-gray-400">None yet</p>}
+    <div className="space-y-1">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-1">
+          <input
+            value={item}
+            autoFocus={item === '' && index === items.length - 1}
+            onChange={(e) => onChange(items.map((other, i) => i === index ? e.target.value : other))}
+            onBlur={() => !item.trim() && onChange(items.filter((_, i) => i !== index))}
+            placeholder={placeholder}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            // Keeps focus in the input so its blur does not remove a row first
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="p-1 text-gray-400 hover:text-red-500"
+            title="Remove"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
 const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
   idea,
   features,
-  onFeatureToggle,
+  onFeaturesToggle,
+  onFeatureUpdate,
   isLoading
 }) => {
+  const [pending, setPending] = useState<PendingToggle | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const graph = useMemo(() => buildFeatureGraph(features), [features]);
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -70,6 +204,26 @@ const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
     }
   };
 
+  const featureName = (id: string) => graph.features.get(id)?.name || id;
+
+  const handleToggle = (feature: ParsedFeature) => {
+    const enable = !feature.enabled;
+    const cascade = planFeatureToggle(graph, feature.id, enable);
+    if (cascade.length === 0) {
+      onFeaturesToggle([feature.id], enable);
+    } else {
+      setPending({ featureId: feature.id, enable, cascade });
+    }
+  };
+
+  const confirmToggle = (withCascade: boolean) => {
+    if (!pending) return;
+    onFeaturesToggle(withCascade ? [pending.featureId, ...pending.cascade] : [pending.featureId], pending.enable);
+    setPending(null);
+  };
+
+  const hasDependencies = Array.from(graph.dependencies.values()).some(dependencies => dependencies.length > 0);
+
   const getComplexityColor = (complexity: string) => {
     switch (complexity) {
       case 'low': return 'bg-green-100 text-green-800';
@@ -90,6 +244,31 @@ const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
         </p>
       </div>
 
+      {graph.issues.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <div className="flex items-center space-x-2 font-medium mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            <span>Dependency problems</span>
+          </div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {graph.issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {hasDependencies && (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-center space-x-2 mb-1">
+            <GitBranch className="h-4 w-4 text-gray-600" />
+            <h4 className="font-semibold text-gray-900 text-sm">Dependencies</h4>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            Arrows point from a feature to the ones it needs. Features are built left to right.
+          </p>
+          <FeatureGraphView graph={graph} highlighted={new Set(pending ? [pending.featureId, ...pending.cascade] : [])} />
+        </div>
+      )}
+
       <div className="space-y-4">
         {features.map((feature) => (
           <div
@@ -114,13 +293,67 @@ const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
                 <p className="text-gray-600 text-sm mb-2">{feature.description}</p>
                 {feature.dependencies.length > 0 && (
                   <div className="text-xs text-gray-500">
-                    Depends on: {feature.dependencies.join(', ')}
+                    Depends on: {feature.dependencies.map(featureName).join(', ')}
+                  </div>
+                )}
+                <button
+                  onClick={() => setExpanded(expanded === feature.id ? null : feature.id)}
+                  className="mt-2 text-xs text-gray-600 hover:text-gray-900 flex items-center space-x-1"
+                >
+                  <ListChecks className="h-3 w-3" />
+                  <span>
+                    {feature.userStories?.length || 0} stories, {feature.acceptanceCriteria?.length || 0} acceptance criteria
+                  </span>
+                </button>
+                {expanded === feature.id && (
+                  <div className="mt-2 p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+                    <EditableList
+                      label="User stories"
+                      items={feature.userStories || []}
+                      placeholder="As a …, I want …, so that …"
+                      onChange={(userStories) => onFeatureUpdate({ ...feature, userStories })}
+                    />
+                    <EditableList
+                      label="Acceptance criteria (each becomes a test)"
+                      items={feature.acceptanceCriteria || []}
+                      placeholder="Given …, when …, then …"
+                      onChange={(acceptanceCriteria) => onFeatureUpdate({ ...feature, acceptanceCriteria })}
+                    />
+                  </div>
+                )}
+                {pending?.featureId === feature.id && (
+                  <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                    <p className="mb-2">
+                      {pending.enable
+                        ? `${feature.name} needs ${pending.cascade.map(featureName).join(', ')}, which ${pending.cascade.length === 1 ? 'is' : 'are'} turned off. Turn ${pending.cascade.length === 1 ? 'it' : 'them'} on as well?`
+                        : `${pending.cascade.map(featureName).join(', ')} ${pending.cascade.length === 1 ? 'depends' : 'depend'} on ${feature.name}. Turn ${pending.cascade.length === 1 ? 'it' : 'them'} off as well?`}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => confirmToggle(true)}
+                        className="px-3 py-1 text-xs bg-amber-500 text-white rounded-md hover:bg-amber-600"
+                      >
+                        {pending.enable ? 'Turn all on' : 'Turn all off'}
+                      </button>
+                      <button
+                        onClick={() => confirmToggle(false)}
+                        className="px-3 py-1 text-xs border border-amber-300 rounded-md hover:bg-amber-100"
+                      >
+                        Only {feature.name}
+                      </button>
+                      <button
+                        onClick={() => setPending(null)}
+                        className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                   </div>
                 )}
               </div>
               <div className="flex items-center ml-4">
                 <button
-                  onClick={() => onFeatureToggle(feature.id)}
+                  onClick={() => handleToggle(feature)}
                   className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
                     feature.enabled ? 'bg-green-500' : 'bg-gray-200'
                   }`}
@@ -137,6 +370,8 @@ const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
         ))}
       </div>
 
+      <EstimatePanel idea={idea} features={features} />
+
       <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <div className="flex items-center space-x-2 mb-2">
           <CheckCircle2 className="h-5 w-5 text-blue-600" />
@@ -144,7 +379,7 @@ const FeatureCustomizer: React.FC<FeatureCustomizerProps> = ({
         </div>
         <p className="text-blue-800 text-sm">
           {features.filter(f => f.enabled).length} features selected. 
-          The AI will generate code for all enabled features.
+          The AI will generate code for all enabled features, with a test for each of their acceptance criteria.
         </p>
       </div>
     </div>
@@ -1,7 +1,9 @@
 import React from 'react';
-import { Zap, Github, User, LogOut, Sparkles, Settings } from 'lucide-react';
+import { Zap, Github, User, LogOut, Sparkles, Settings, BarChart3 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import ModelSelector from './ModelSelector';
+import UsagePanel from './UsagePanel';
+import { LLMProviderRegistry } from '../services/llmProviders';
 
 interface HeaderProps {
   onAuthClick: (type: 'signin' | 'signup') => void;
@@ -10,20 +12,21 @@ interface HeaderProps {
 const Header = ({ onAuthClick }: HeaderProps) => {
   const { user, signOut } = useAuth();
   const [currentProvider, setCurrentProvider] = React.useState(
-    import.meta.env.VITE_AI_PROVIDER || 'groq'
+    () => LLMProviderRegistry.getActiveSelection().provider
   );
   const [currentModel, setCurrentModel] = React.useState(
-    import.meta.env.VITE_GROQ_MODEL || 'llama-3.1-70b-versatile'
+    () => LLMProviderRegistry.getActiveSelection().model
   );
+  const [isUsageOpen, setIsUsageOpen] = React.useState(false);
 
   const handleProviderChange = (provider: string) => {
     setCurrentProvider(provider);
-    // In a real app, you might want to persist this to localStorage or user preferences
+    LLMProviderRegistry.setActiveSelection({ provider, model: LLMProviderRegistry.get(provider).defaultModel });
   };
 
   const handleModelChange = (model: string) => {
     setCurrentModel(model);
-    // In a real app, you might want to persist this to localStorage or user preferences
+    LLMProviderRegistry.setActiveSelection({ provider: LLMProviderRegistry.getActiveSelection().provider, model });
   };
 
   return (
@@ -55,6 +58,13 @@ const Header = ({ onAuthClick }: HeaderProps) => {
                   </div>
                   <span className="text-sm font-medium text-gray-700 hidden sm:block">{user.name}</span>
                 </div>
+                <button
+                  onClick={() => setIsUsageOpen(true)}
+                  className="p-2 text-gray-600 hover:text-blue-600 transition-colors"
+                  title="AI Usage"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                </button>
                 <button
                   onClick={signOut}
                   className="p-2 text-gray-600 hover:text-red-600 transition-colors"
@@ -85,6 +95,7 @@ const Header = ({ onAuthClick }: HeaderProps) => {
           </div>
         </div>
       </div>
+      <UsagePanel isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
     </header>
   );
 };
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
-import { Send, Lightbulb, Zap, Settings, ArrowRight } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Send, Lightbulb, Zap, Settings, ArrowRight, AlertTriangle } from 'lucide-react';
+import { BACKEND_PROFILES, DATABASE_PROFILES, DEPLOYMENT_PROFILES, FRONTEND_PROFILES } from '../services/stackProfiles';
+import { validateStack } from '../services/stackCompatibility';
 
 interface IdeaInputSectionProps {
   onSubmit: (idea: string, preferences: any) => void;
@@ -10,17 +12,20 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
   const [showPreferences, setShowPreferences] = useState(false);
   const [preferences, setPreferences] = useState({
     frontend: 'React',
-    backend: 'Node.js',
+    backend: 'Node.js Express',
     database: 'PostgreSQL',
-    deployment: 'Vercel',
+    // Hosts the Express server as well as the frontend, so the default stack has no conflicts
+    deployment: 'Heroku',
+    language: 'JavaScript',
     authentication: true,
     realtime: false,
     testing: true
   });
+  const stackValidation = useMemo(() => validateStack(preferences), [preferences]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (idea.trim()) {
+    if (idea.trim() && stackValidation.compatible) {
       onSubmit(idea, preferences);
     }
   };
@@ -91,7 +96,8 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
                 
                 <button
                   type="submit"
-                  disabled={!idea.trim()}
+                  disabled={!idea.trim() || !stackValidation.compatible}
+                  title={stackValidation.compatible ? undefined : 'Resolve the tech stack conflicts first'}
                   className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold flex items-center gap-2 hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Zap className="h-4 w-4" />
@@ -101,6 +107,34 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
             </div>
           </div>
           
+          {stackValidation.issues.length > 0 && (
+            <div className="space-y-2">
+              {stackValidation.issues.map(issue => (
+                <div
+                  key={issue.id}
+                  className={`flex flex-wrap items-center gap-2 text-sm rounded-lg px-4 py-3 border ${
+                    issue.severity === 'error'
+                      ? 'text-red-700 bg-red-50 border-red-200'
+                      : 'text-amber-800 bg-amber-50 border-amber-200'
+                  }`}
+                >
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span className="flex-1">{issue.message}</span>
+                  {issue.alternatives.map(alternative => (
+                    <button
+                      key={alternative.label}
+                      type="button"
+                      onClick={() => setPreferences(prev => ({ ...prev, ...alternative.changes }))}
+                      className="px-2 py-1 text-xs border border-current rounded-md hover:bg-white"
+                    >
+                      {alternative.label}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
           {showPreferences && (
             <div className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Technology Preferences</h3>
@@ -112,10 +146,9 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
                     onChange={(e) => setPreferences(prev => ({ ...prev, frontend: e.target.value }))}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="React">React</option>
-                    <option value="Vue">Vue.js</option>
-                    <option value="Angular">Angular</option>
-                    <option value="Svelte">Svelte</option>
+                    {FRONTEND_PROFILES.map(profile => (
+                      <option key={profile.id} value={profile.name}>{profile.name}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -126,10 +159,9 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
                     onChange={(e) => setPreferences(prev => ({ ...prev, backend: e.target.value }))}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="Node.js">Node.js</option>
-                    <option value="Python">Python (Django/Flask)</option>
-                    <option value="Ruby">Ruby on Rails</option>
-                    <option value="Go">Go</option>
+                    {BACKEND_PROFILES.map(profile => (
+                      <option key={profile.id} value={profile.name}>{profile.name}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -140,10 +172,9 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
                     onChange={(e) => setPreferences(prev => ({ ...prev, database: e.target.value }))}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="PostgreSQL">PostgreSQL</option>
-                    <option value="MongoDB">MongoDB</option>
-                    <option value="MySQL">MySQL</option>
-                    <option value="SQLite">SQLite</option>
+                    {DATABASE_PROFILES.map(profile => (
+                      <option key={profile.id} value={profile.name}>{profile.name}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -154,10 +185,21 @@ const IdeaInputSection: React.FC<IdeaInputSectionProps> = ({ onSubmit }) => {
                     onChange={(e) => setPreferences(prev => ({ ...prev, deployment: e.target.value }))}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="Vercel">Vercel</option>
-                    <option value="Netlify">Netlify</option>
-                    <option value="AWS">AWS</option>
-                    <option value="Heroku">Heroku</option>
+                    {DEPLOYMENT_PROFILES.map(profile => (
+                      <option key={profile.id} value={profile.name}>{profile.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+                  <select
+                    value={preferences.language}
+                    onChange={(e) => setPreferences(prev => ({ ...prev, language: e.target.value }))}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="JavaScript">JavaScript</option>
+                    <option value="TypeScript">TypeScript (React only)</option>
                   </select>
                 </div>
               </div>
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
-import { Settings, ChevronDown, Zap, Brain, Cpu, Sparkles } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Settings, ChevronDown, Zap, Brain, Cpu, Sparkles, Server, Loader2 } from 'lucide-react';
+import { LLMProviderRegistry } from '../services/llmProviders';
+import { ResponseCache } from '../services/responseCache';
 
 interface ModelSelectorProps {
   currentProvider: string;
@@ -8,6 +10,15 @@ interface ModelSelectorProps {
   onModelChange: (model: string) => void;
 }
 
+const providerStyles: Record<string, { icon: React.ReactNode; color: string }> = {
+  groq: { icon: <Zap className="h-4 w-4" />, color: 'bg-orange-100 text-orange-700' },
+  openai: { icon: <Brain className="h-4 w-4" />, color: 'bg-green-100 text-green-700' },
+  anthropic: { icon: <Cpu className="h-4 w-4" />, color: 'bg-purple-100 text-purple-700' },
+  gemini: { icon: <Sparkles className="h-4 w-4" />, color: 'bg-blue-100 text-blue-700' }
+};
+
+const defaultProviderStyle = { icon: <Server className="h-4 w-4" />, color: 'bg-gray-100 text-gray-700' };
+
 const ModelSelector: React.FC<ModelSelectorProps> = ({
   currentProvider,
   currentModel,
@@ -15,59 +26,33 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
   onModelChange
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  // Bumped after discovery so the provider model lists are read again
+  const [, setModelsVersion] = useState(0);
+  const [reuseResponses, setReuseResponses] = useState(() => !ResponseCache.isBypassed());
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
 
-  const providers = [
-    {
-      id: 'groq',
-      name: 'Groq',
-      icon: <Zap className="h-4 w-4" />,
-      description: 'Ultra-fast inference with Llama, Qwen, DeepSeek',
-      color: 'bg-orange-100 text-orange-700',
-      models: [
-        { id: 'llama-3.1-70b-versatile', name: 'Llama 3.1 70B', description: 'Most capable, balanced performance' },
-        { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Fast and efficient' },
-        { id: 'llama-3.2-90b-text-preview', name: 'Llama 3.2 90B', description: 'Latest model, preview' },
-        { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', description: 'Mixture of experts model' },
-        { id: 'gemma-7b-it', name: 'Gemma 7B', description: 'Google\'s instruction-tuned model' },
-        { id: 'qwen2-72b-instruct', name: 'Qwen2 72B', description: 'Alibaba\'s multilingual model' },
-        { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 70B', description: 'Reasoning-focused model' }
-      ]
-    },
-    {
-      id: 'openai',
-      name: 'OpenAI',
-      icon: <Brain className="h-4 w-4" />,
-      description: 'GPT models for reliable performance',
-      color: 'bg-green-100 text-green-700',
-      models: [
-        { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Fast and cost-effective' },
-        { id: 'gpt-4o', name: 'GPT-4o', description: 'Most capable model' },
-        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and affordable' }
-      ]
-    },
-    {
-      id: 'anthropic',
-      name: 'Anthropic',
-      icon: <Cpu className="h-4 w-4" />,
-      description: 'Claude models for thoughtful responses',
-      color: 'bg-purple-100 text-purple-700',
-      models: [
-        { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', description: 'Balanced performance' },
-        { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', description: 'Fast and efficient' }
-      ]
-    },
-    {
-      id: 'gemini',
-      name: 'Google Gemini',
-      icon: <Sparkles className="h-4 w-4" />,
-      description: 'Google\'s multimodal AI models',
-      color: 'bg-blue-100 text-blue-700',
-      models: [
-        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Latest and most capable' },
-        { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: 'Large context window' }
-      ]
-    }
-  ];
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    setIsDiscovering(true);
+    LLMProviderRegistry.discoverModels(controller.signal).finally(() => {
+      if (controller.signal.aborted) return;
+      setIsDiscovering(false);
+      setModelsVersion(version => version + 1);
+    });
+
+    return () => controller.abort();
+  }, [isOpen]);
+
+  const providers = LLMProviderRegistry.list().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    models: provider.models,
+    ...(providerStyles[provider.id] || defaultProviderStyle)
+  }));
 
   const currentProviderData = providers.find(p => p.id === currentProvider);
   const currentModelData = currentProviderData?.models.find(m => m.id === currentModel);
@@ -86,6 +71,17 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
     setIsOpen(false);
   };
 
+  const handleReuseToggle = (reuse: boolean) => {
+    setReuseResponses(reuse);
+    ResponseCache.setBypass(!reuse);
+  };
+
+  const handleClearCache = async () => {
+    const count = await ResponseCache.count();
+    await ResponseCache.clear();
+    setCacheStatus(`Cleared ${count} cached ${count === 1 ? 'response' : 'responses'}`);
+  };
+
   return (
     <div className="relative">
       <button
@@ -95,7 +91,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
         <Settings className="h-4 w-4 text-gray-500" />
         <div className="text-left">
           <div className="text-sm font-medium text-gray-900">
-            {currentProviderData?.name} - {currentModelData?.name}
+            {currentProviderData?.name} - {currentModelData?.name || currentModel}
           </div>
           <div className="text-xs text-gray-500">
             {currentModelData?.description}
@@ -107,7 +103,10 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
       {isOpen && (
         <div className="absolute top-full left-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
           <div className="p-3 border-b border-gray-200">
-            <h3 className="text-sm font-semibold text-gray-900">Select AI Provider & Model</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Select AI Provider & Model</h3>
+              {isDiscovering && <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />}
+            </div>
           </div>
           
           <div className="max-h-96 overflow-y-auto">
@@ -125,6 +124,11 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
                   </div>
                   
                   <div className="space-y-1 ml-11">
+                    {provider.models.length === 0 && (
+                      <p className="p-2 text-xs text-gray-500">
+                        {isDiscovering ? 'Discovering models...' : 'No models found at the configured endpoint.'}
+                      </p>
+                    )}
                     {provider.models.map((model) => (
                       <button
                         key={model.id}
@@ -148,7 +152,25 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
             ))}
           </div>
           
-          <div className="p-3 bg-gray-50 border-t border-gray-200">
+          <div className="p-3 bg-gray-50 border-t border-gray-200 space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={reuseResponses}
+                  onChange={(e) => handleReuseToggle(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>Reuse cached responses for identical prompts</span>
+              </label>
+              <button
+                onClick={handleClearCache}
+                className="text-xs text-indigo-600 hover:text-indigo-800"
+              >
+                Clear cache
+              </button>
+            </div>
+            {cacheStatus && <p className="text-xs text-gray-500">{cacheStatus}</p>}
             <p className="text-xs text-gray-600">
               Configure API keys in your .env file to use different providers.
             </p>
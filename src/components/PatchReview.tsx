@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Check, X, FileCode2 } from 'lucide-react';
+import { PatchHunk, diffHunk } from '../services/codePatch';
+
+interface PatchReviewProps {
+  hunks: PatchHunk[];
+  disabled?: boolean;
+  onApply: (accepted: PatchHunk[]) => void;
+  onDiscard: () => void;
+}
+
+type Decision = 'accepted' | 'rejected';
+
+const LINE_STYLES = {
+  context: 'text-gray-300',
+  removed: 'bg-red-900/40 text-red-200',
+  added: 'bg-green-900/40 text-green-200'
+};
+
+const LINE_PREFIXES = { context: ' ', removed: '-', added: '+' };
+
+const PatchReview: React.FC<PatchReviewProps> = ({ hunks, disabled, onApply, onDiscard }) => {
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+
+  const decide = (id: string, decision: Decision) => {
+    setDecisions(prev => ({ ...prev, [id]: decision }));
+  };
+
+  const accepted = hunks.filter(hunk => decisions[hunk.id] === 'accepted');
+  const undecided = hunks.filter(hunk => !decisions[hunk.id]).length;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {hunks.map((hunk, index) => {
+        const decision = decisions[hunk.id];
+        return (
+          <div
+            key={hunk.id}
+            className={`rounded-lg border bg-white overflow-hidden ${
+              decision === 'accepted' ? 'border-green-300' : decision === 'rejected' ? 'border-gray-200 opacity-60' : 'border-gray-300'
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+              <div className="flex items-center space-x-2 text-xs text-gray-700">
+                <FileCode2 className="h-3 w-3" />
+                <span className="font-mono">{hunk.file}</span>
+                <span className="text-gray-400">
+                  {hunk.search === '' ? 'new file' : `change ${index + 1} of ${hunks.length}`}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => decide(hunk.id, 'accepted')}
+                  disabled={disabled}
+                  className={`px-2 py-1 rounded text-xs flex items-center space-x-1 ${
+                    decision === 'accepted' ? 'bg-green-500 text-white' : 'text-green-700 hover:bg-green-50'
+                  } disabled:opacity-50`}
+                >
+                  <Check className="h-3 w-3" />
+                  <span>Accept</span>
+                </button>
+                <button
+                  onClick={() => decide(hunk.id, 'rejected')}
+                  disabled={disabled}
+                  className={`px-2 py-1 rounded text-xs flex items-center space-x-1 ${
+                    decision === 'rejected' ? 'bg-gray-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  } disabled:opacity-50`}
+                >
+                  <X className="h-3 w-3" />
+                  <span>Reject</span>
+                </button>
+              </div>
+            </div>
+            <pre className="max-h-64 overflow-auto bg-gray-900 text-xs font-mono p-2">
+              {diffHunk(hunk).map((line, lineIndex) => (
+                <div key={lineIndex} className={LINE_STYLES[line.type]}>
+                  {`${LINE_PREFIXES[line.type]} ${line.text}`}
+                </div>
+              ))}
+            </pre>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {undecided > 0 ? `${undecided} of ${hunks.length} not reviewed yet` : `${accepted.length} of ${hunks.length} accepted`}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setDecisions(Object.fromEntries(hunks.map(hunk => [hunk.id, 'accepted' as const])))}
+            disabled={disabled}
+            className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={onDiscard}
+            disabled={disabled}
+            className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => onApply(accepted)}
+            disabled={disabled || accepted.length === 0}
+            className="px-3 py-1 text-xs bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {accepted.length > 0 ? `Apply ${accepted.length} ${accepted.length === 1 ? 'change' : 'changes'}` : 'Apply changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatchReview;
@@ -24,13 +24,23 @@ import {
 } from 'lucide-react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
+import { FRONTEND_PROFILES } from '../services/stackProfiles';
+
+// Entry files of every frontend, TypeScript ones included; apps that cannot
+// run in the browser get PreviewService's page explaining how to run them
+const ENTRY_FILES = FRONTEND_PROFILES
+  .flatMap(profile => [profile.manifest.entryFile, ...(profile.typescript ? [profile.typescript.manifest.entryFile] : [])]);
+
+// Code tab holding the text streamed while the model writes
+const LIVE_OUTPUT_TAB = 'live-output';
 
 interface PreviewPanelProps {
   code?: any;
+  streamingCode?: string | null;
   preview?: any;
 }
 
-const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
+const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, streamingCode, preview }) => {
   const [activeTab, setActiveTab] = useState<'preview' | 'code'>('preview');
   const [viewMode, setViewMode] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -65,6 +75,19 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
     }
   }, [code]);
 
+  const isStreaming = streamingCode !== null && streamingCode !== undefined;
+
+  useEffect(() => {
+    if (isStreaming) {
+      setActiveTab('code');
+      setActiveCodeTab(LIVE_OUTPUT_TAB);
+    }
+  }, [isStreaming]);
+
+  const entryFile = code ? ENTRY_FILES.find(path => code[path]) : undefined;
+  // PreviewService bundles every module and strips TypeScript, so its preview wins over the single-file one built here
+  const frameUrl = preview?.url || previewUrl;
+
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       if (event.data.type === 'console') {
@@ -102,6 +125,11 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
       // Try different possible locations for the React code
       const appCode = code['src/App.js'] || code['App.js'] || code.frontend || '';
       
+      // Other entry files are only shown through PreviewService's preview
+      if (!appCode && entryFile) {
+        return;
+      }
+
       if (!appCode) {
         console.log('No React app code found');
         setPreviewError('No React app code found');
@@ -432,6 +460,22 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
     };
   }) : [];
 
+  // The stream is a file manifest or edit blocks rather than one file, so it
+  // is shown beside the existing files instead of replacing any of them
+  const codeTabs = isStreaming ? [{
+    id: LIVE_OUTPUT_TAB,
+    name: 'Live output',
+    path: LIVE_OUTPUT_TAB,
+    icon: <RefreshCw className="h-4 w-4 text-blue-500" />,
+    language: 'text',
+    content: streamingCode || ''
+  }, ...codeFiles] : codeFiles;
+
+  // Once the live output is gone, or when the chosen file does not exist, the app's entry file is shown
+  const selectedCodeTab = codeTabs.some(file => file.id === activeCodeTab)
+    ? activeCodeTab
+    : entryFile || codeTabs[0]?.id || activeCodeTab;
+
   const fileTree = [
     {
       name: 'src',
@@ -564,7 +608,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
           <button
             onClick={() => item.id && setActiveCodeTab(item.id)}
             className={`flex items-center space-x-2 py-1 px-2 hover:bg-gray-100 rounded text-sm w-full text-left ${
-              activeCodeTab === item.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+              selectedCodeTab === item.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
             }`}
           >
             <FileText className="h-4 w-4 text-gray-400" />
@@ -595,10 +639,13 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
               >
                 {tab.icon}
                 <span>{tab.name}</span>
-                {tab.id === 'preview' && previewUrl && (
+                {tab.id === 'preview' && frameUrl && (
                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                 )}
-                {tab.id === 'code' && code && (
+                {tab.id === 'code' && isStreaming && (
+                  <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
+                )}
+                {tab.id === 'code' && code && !isStreaming && (
                   <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                 )}
               </button>
@@ -644,7 +691,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
               </>
             )}
             
-            {activeTab === 'code' && code && (
+            {activeTab === 'code' && code && !isStreaming && (
               <>
                 <button
                   onClick={() => setIsEditing(!isEditing)}
@@ -674,7 +721,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
       {activeTab === 'preview' ? (
         <div className="flex-1 flex flex-col overflow-hidden">
           <div className="flex-1 p-4 bg-gray-50 flex items-center justify-center overflow-auto">
-            {!code || !code['src/App.js'] ? (
+            {!code || !entryFile ? (
               <div className="text-center max-w-md mx-auto p-8">
                 <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <Eye className="h-8 w-8 text-blue-500" />
@@ -721,11 +768,11 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
                 </div>
                 
                 <div className="h-full bg-white">
-                  {previewUrl ? (
+                  {frameUrl ? (
                     <iframe
                       key={previewKey}
                       ref={iframeRef}
-                      src={previewUrl}
+                      src={frameUrl}
                       className="w-full h-full border-0"
                       sandbox="allow-same-origin allow-scripts allow-popups allow-forms allow-modals"
                       title="React App Preview"
@@ -775,7 +822,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
           </div>
         </div>
       ) : (
-        code ? (
+        code || isStreaming ? (
           <div className="flex-1 flex overflow-hidden">
             <div className="w-64 border-r border-gray-200 bg-gray-50 p-4 overflow-y-auto">
               <h3 className="text-sm font-semibold text-gray-900 mb-3">Project Files</h3>
@@ -787,12 +834,12 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
             <div className="flex-1 flex flex-col overflow-hidden">
               <div className="border-b border-gray-200 bg-white overflow-x-auto">
                 <div className="flex items-center space-x-1 px-4 py-2 min-w-max">
-                  {codeFiles.filter(file => file.content).map((file) => (
+                  {codeTabs.filter(file => file.content || file.id === LIVE_OUTPUT_TAB).map((file) => (
                     <button
                       key={file.id}
                       onClick={() => setActiveCodeTab(file.id)}
                       className={`flex items-center space-x-2 px-3 py-2 rounded-t-lg text-sm transition-colors whitespace-nowrap ${
-                        activeCodeTab === file.id
+                        selectedCodeTab === file.id
                           ? 'bg-gray-100 text-gray-900 border-b-2 border-blue-500'
                           : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                       }`}
@@ -806,7 +853,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
               
               <div className="flex-1 bg-gray-900 text-gray-300 overflow-hidden">
                 {(() => {
-                  const activeFile = codeFiles.find(f => f.id === activeCodeTab);
+                  const activeFile = codeTabs.find(f => f.id === selectedCodeTab);
                   if (!activeFile || !activeFile.content) {
                     return (
                       <div className="flex items-center justify-center h-full">
@@ -821,6 +868,12 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
                   return (
                     <div className="relative h-full flex flex-col">
                       <div className="absolute top-4 right-4 z-10 flex items-center space-x-2">
+                        {activeFile.id === LIVE_OUTPUT_TAB && (
+                          <span className="flex items-center space-x-1 px-3 py-1 bg-blue-600 rounded text-sm text-white">
+                            <RefreshCw className="h-4 w-4 animate-spin" />
+                            <span>Streaming...</span>
+                          </span>
+                        )}
                         {isEditing && (
                           <button
                             onClick={saveChanges}
@@ -843,7 +896,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ code, preview }) => {
                         </button>
                       </div>
                       
-                      {isEditing ? (
+                      {isEditing && activeFile.id !== LIVE_OUTPUT_TAB ? (
                         <textarea
                           value={editableContent[activeFile.id] || activeFile.content}
                           onChange={(e) => handleCodeChange(activeFile.id, e.target.value)}
@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import { LayoutGrid, Server, Database, Plus, Trash2 } from 'lucide-react';
+import type { AuthSpec, ColumnSpec, ComponentSpec, EndpointSpec, PropSpec, TableSpec } from '../types/codeGeneration';
+import { SpecPlan, syncDatabaseSpec } from '../services/specPlanner';
+
+interface SpecPlannerProps {
+  plan: SpecPlan;
+  onChange: (plan: SpecPlan) => void;
+}
+
+type SpecTab = 'components' | 'api' | 'database';
+
+const HTTP_METHODS: EndpointSpec['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const AUTH_TYPES: AuthSpec['type'][] = ['jwt', 'session', 'oauth', 'api-key'];
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const RemoveButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button onClick={onClick} aria-label={label} title={label} className="p-1 text-gray-400 hover:text-red-600">
+    <Trash2 className="h-4 w-4" />
+  </button>
+);
+
+const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button onClick={onClick} className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800">
+    <Plus className="h-4 w-4" />
+    <span>{label}</span>
+  </button>
+);
+
+// Replace one item of a list without mutating it
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+  return items.map((existing, i) => (i === index ? item : existing));
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+  return items.filter((_, i) => i !== index);
+}
+
+const SpecPlanner: React.FC<SpecPlannerProps> = ({ plan, onChange }) => {
+  const [tab, setTab] = useState<SpecTab>('components');
+
+  const setComponents = (components: ComponentSpec[]) => onChange({ ...plan, components });
+  const setEndpoints = (endpoints: EndpointSpec[]) => onChange({ ...plan, api: { ...plan.api, endpoints } });
+  const setAuthentication = (authentication: AuthSpec) => onChange({ ...plan, api: { ...plan.api, authentication } });
+  // Relationships, indexes and migrations follow the tables
+  const setTables = (tables: TableSpec[]) => onChange({ ...plan, database: syncDatabaseSpec({ ...plan.database, tables }) });
+
+  const updateComponent = (index: number, changes: Partial<ComponentSpec>) =>
+    setComponents(replaceAt(plan.components, index, { ...plan.components[index], ...changes }));
+
+  const updateProp = (componentIndex: number, propIndex: number, changes: Partial<PropSpec>) => {
+    const component = plan.components[componentIndex];
+    updateComponent(componentIndex, { props: replaceAt(component.props, propIndex, { ...component.props[propIndex], ...changes }) });
+  };
+
+  const addComponent = () => setComponents([...plan.components, {
+    ...(plan.components[0] || {
+      type: 'functional',
+      styling: { framework: 'tailwind', responsive: true },
+      accessibility: { ariaLabels: {}, keyboardNavigation: true, screenReaderSupport: true, colorContrast: 'AA', focusManagement: false },
+      performance: { lazyLoading: false, memoization: false, bundleSplitting: false, imageOptimization: false, caching: { strategy: 'memory', ttl: 0, invalidation: [] } }
+    }),
+    name: `Component${plan.components.length + 1}`,
+    props: [],
+    state: []
+  }]);
+
+  const updateEndpoint = (index: number, changes: Partial<EndpointSpec>) =>
+    setEndpoints(replaceAt(plan.api.endpoints, index, { ...plan.api.endpoints[index], ...changes }));
+
+  const updateColumn = (tableIndex: number, columnIndex: number, changes: Partial<ColumnSpec>) => {
+    const table = plan.database.tables[tableIndex];
+    setTables(replaceAt(plan.database.tables, tableIndex, {
+      ...table,
+      columns: replaceAt(table.columns, columnIndex, { ...table.columns[columnIndex], ...changes })
+    }));
+  };
+
+  // Foreign keys follow a renamed table
+  const renameTable = (index: number, name: string) => {
+    const previous = plan.database.tables[index].name;
+    setTables(plan.database.tables.map((table, i) => ({
+      ...table,
+      name: i === index ? name : table.name,
+      columns: table.columns.map(spec => spec.foreignKey?.table === previous
+        ? { ...spec, foreignKey: { ...spec.foreignKey, table: name } }
+        : spec)
+    })));
+  };
+
+  // Dropping a table drops the columns that referenced it
+  const removeTable = (index: number) => {
+    const removed = plan.database.tables[index].name;
+    setTables(removeAt(plan.database.tables, index).map(table => ({
+      ...table,
+      columns: table.columns.filter(spec => spec.foreignKey?.table !== removed)
+    })));
+  };
+
+  const addColumn = (tableIndex: number) => {
+    const table = plan.database.tables[tableIndex];
+    const textType = table.columns.find(spec => spec.name === 'name')?.type || 'TEXT';
+    setTables(replaceAt(plan.database.tables, tableIndex, {
+      ...table,
+      columns: [...table.columns, { name: `column_${table.columns.length + 1}`, type: textType, nullable: true, unique: false, primaryKey: false }]
+    }));
+  };
+
+  const addTable = () => {
+    const idColumn = plan.database.tables[0]?.columns.find(spec => spec.primaryKey);
+    setTables([...plan.database.tables, {
+      name: `table_${plan.database.tables.length + 1}`,
+      columns: idColumn ? [{ ...idColumn }] : [{ name: 'id', type: 'TEXT', nullable: false, unique: false, primaryKey: true }],
+      constraints: [],
+      triggers: [],
+      policies: []
+    }]);
+  };
+
+  const tabs: { id: SpecTab; label: string; icon: React.ReactNode; count: number }[] = [
+    { id: 'components', label: 'Components', icon: <LayoutGrid className="h-4 w-4" />, count: plan.components.length },
+    { id: 'api', label: 'API', icon: <Server className="h-4 w-4" />, count: plan.api.endpoints.length },
+    { id: 'database', label: 'Database', icon: <Database className="h-4 w-4" />, count: plan.database.tables.length }
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Build Plan</h3>
+        <p className="text-gray-600">
+          These specs were planned from your enabled features. Adjust them before the frontend, backend and database are generated from them.
+        </p>
+      </div>
+
+      <div className="flex space-x-2 mb-4 border-b border-gray-200">
+        {tabs.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setTab(item.id)}
+            className={`flex items-center space-x-2 px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              tab === item.id ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {item.icon}
+            <span>{item.label}</span>
+            <span className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">{item.count}</span>
+          </button>
+        ))}
+      </div>
+
+      {tab === 'components' && (
+        <div className="space-y-4">
+          {plan.components.map((component, componentIndex) => (
+            <div key={componentIndex} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center space-x-2 mb-3">
+                <input
+                  value={component.name}
+                  onChange={(e) => updateComponent(componentIndex, { name: e.target.value.replace(/[^A-Za-z0-9]/g, '') })}
+                  className={`${inputClass} font-semibold flex-1`}
+                  aria-label="Component name"
+                />
+                <select
+                  value={component.type}
+                  onChange={(e) => updateComponent(componentIndex, { type: e.target.value as ComponentSpec['type'] })}
+                  className={inputClass}
+                  aria-label="Component type"
+                >
+                  <option value="functional">functional</option>
+                  <option value="class">class</option>
+                  <option value="hook">hook</option>
+                </select>
+                <RemoveButton label={`Remove ${component.name}`} onClick={() => setComponents(removeAt(plan.components, componentIndex))} />
+              </div>
+
+              <div className="space-y-2 mb-3">
+                {component.props.map((prop, propIndex) => (
+                  <div key={propIndex} className="flex items-center space-x-2">
+                    <input
+                      value={prop.name}
+                      onChange={(e) => updateProp(componentIndex, propIndex, { name: e.target.value })}
+                      className={`${inputClass} w-32`}
+                      aria-label="Prop name"
+                    />
+                    <input
+                      value={prop.type}
+                      onChange={(e) => updateProp(componentIndex, propIndex, { type: e.target.value })}
+                      className={`${inputClass} flex-1 font-mono`}
+                      aria-label="Prop type"
+                    />
+                    <label className="flex items-center space-x-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={prop.required}
+                        onChange={(e) => updateProp(componentIndex, propIndex, { required: e.target.checked })}
+                      />
+                      <span>required</span>
+                    </label>
+                    <RemoveButton
+                      label={`Remove ${prop.name}`}
+                      onClick={() => updateComponent(componentIndex, { props: removeAt(component.props, propIndex) })}
+                    />
+                  </div>
+                ))}
+                <AddButton
+                  label="Add prop"
+                  onClick={() => updateComponent(componentIndex, { props: [...component.props, { name: 'value', type: 'string', required: false }] })}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={component.performance.memoization}
+                    onChange={(e) => updateComponent(componentIndex, { performance: { ...component.performance, memoization: e.target.checked } })}
+                  />
+                  <span>Memoize</span>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={component.performance.lazyLoading}
+                    onChange={(e) => updateComponent(componentIndex, { performance: { ...component.performance, lazyLoading: e.target.checked } })}
+                  />
+                  <span>Lazy load</span>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={component.accessibility.keyboardNavigation}
+                    onChange={(e) => updateComponent(componentIndex, { accessibility: { ...component.accessibility, keyboardNavigation: e.target.checked } })}
+                  />
+                  <span>Keyboard navigation</span>
+                </label>
+              </div>
+            </div>
+          ))}
+          <AddButton label="Add component" onClick={addComponent} />
+        </div>
+      )}
+
+      {tab === 'api' && (
+        <div className="space-y-4">
+          <div className="flex items-center space-x-4 text-sm">
+            <label className="flex items-center space-x-2 text-gray-700">
+              <span>Authentication</span>
+              <select
+                value={plan.api.authentication.type}
+                onChange={(e) => setAuthentication({ ...plan.api.authentication, type: e.target.value as AuthSpec['type'] })}
+                className={inputClass}
+              >
+                {AUTH_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center space-x-1 text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!plan.api.authentication.config.required}
+                onChange={(e) => setAuthentication({
+                  ...plan.api.authentication,
+                  config: { ...plan.api.authentication.config, required: e.target.checked }
+                })}
+              />
+              <span>Require sign-in</span>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {plan.api.endpoints.map((endpoint, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={endpoint.method}
+                  onChange={(e) => updateEndpoint(index, { method: e.target.value as EndpointSpec['method'] })}
+                  className={`${inputClass} w-24 font-mono`}
+                  aria-label="HTTP method"
+                >
+                  {HTTP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                </select>
+                <input
+                  value={endpoint.path}
+                  onChange={(e) => updateEndpoint(index, { path: e.target.value })}
+                  className={`${inputClass} flex-1 font-mono`}
+                  aria-label="Path"
+                />
+                {endpoint.middleware.some(middleware => middleware.type === 'auth') && (
+                  <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs">auth</span>
+                )}
+                <RemoveButton label={`Remove ${endpoint.method} ${endpoint.path}`} onClick={() => setEndpoints(removeAt(plan.api.endpoints, index))} />
+              </div>
+            ))}
+          </div>
+          <AddButton
+            label="Add endpoint"
+            onClick={() => setEndpoints([...plan.api.endpoints, {
+              path: '/api/',
+              method: 'GET',
+              parameters: [],
+              responses: [{ statusCode: 200, description: 'OK', schema: {}, examples: [] }],
+              middleware: plan.api.authentication.config.required ? [{ name: 'auth', type: 'auth', config: {}, order: 1 }] : []
+            }])}
+          />
+        </div>
+      )}
+
+      {tab === 'database' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Database: <span className="font-medium text-gray-900">{plan.database.type}</span>
+            {plan.database.relationships.length > 0 && ` · ${plan.database.relationships.length} relationship${plan.database.relationships.length === 1 ? '' : 's'}`}
+          </p>
+          {plan.database.tables.map((table, tableIndex) => (
+            <div key={tableIndex} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center space-x-2 mb-3">
+                <input
+                  value={table.name}
+                  onChange={(e) => renameTable(tableIndex, e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'))}
+                  className={`${inputClass} font-semibold font-mono flex-1`}
+                  aria-label="Table name"
+                />
+                <RemoveButton label={`Remove ${table.name}`} onClick={() => removeTable(tableIndex)} />
+              </div>
+              <div className="space-y-2 mb-3">
+                {table.columns.map((spec, columnIndex) => (
+                  <div key={columnIndex} className="flex items-center space-x-2">
+                    <input
+                      value={spec.name}
+                      onChange={(e) => updateColumn(tableIndex, columnIndex, { name: e.target.value })}
+                      disabled={spec.primaryKey}
+                      className={`${inputClass} w-36 font-mono disabled:bg-gray-50`}
+                      aria-label="Column name"
+                    />
+                    <input
+                      value={spec.type}
+                      onChange={(e) => updateColumn(tableIndex, columnIndex, { type: e.target.value })}
+                      className={`${inputClass} w-32 font-mono`}
+                      aria-label="Column type"
+                    />
+                    {spec.primaryKey ? (
+                      <span className="text-xs text-gray-500 flex-1">primary key</span>
+                    ) : (
+                      <div className="flex items-center space-x-3 text-xs text-gray-600 flex-1">
+                        <label className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={spec.nullable}
+                            onChange={(e) => updateColumn(tableIndex, columnIndex, { nullable: e.target.checked })}
+                          />
+                          <span>nullable</span>
+                        </label>
+                        <label className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={spec.unique}
+                            onChange={(e) => updateColumn(tableIndex, columnIndex, { unique: e.target.checked })}
+                          />
+                          <span>unique</span>
+                        </label>
+                        {spec.foreignKey && <span className="text-gray-500">→ {spec.foreignKey.table}</span>}
+                      </div>
+                    )}
+                    {!spec.primaryKey && (
+                      <RemoveButton
+                        label={`Remove ${spec.name}`}
+                        onClick={() => setTables(replaceAt(plan.database.tables, tableIndex, { ...table, columns: removeAt(table.columns, columnIndex) }))}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <AddButton label="Add column" onClick={() => addColumn(tableIndex)} />
+            </div>
+          ))}
+          <AddButton label="Add table" onClick={addTable} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpecPlanner;
@@ -1,14 +1,23 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, ArrowRight, Eye, Code2, Database, Server, Rocket, CheckCircle2, Loader2, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, ArrowRight, Eye, Code2, Database, Server, Rocket, CheckCircle2, Loader2, Sparkles, Square, History, ClipboardList } from 'lucide-react';
 import { AIService, ParsedFeature } from '../services/ai';
+import { LLMResponse } from '../services/llmProviders';
 import { PreviewService } from '../services/preview';
+import { PlannedLayer, SpecPlan, generatePlannedLayer, planSpecs } from '../services/specPlanner';
+import type { ModelCallOptions } from '../services/enhancedAI';
+import { formatStackIssues, validateStack } from '../services/stackCompatibility';
 import CodeViewer from './CodeViewer';
 import LivePreview from './LivePreview';
 import FeatureCustomizer from './FeatureCustomizer';
+import SpecPlanner from './SpecPlanner';
 
 interface AppData {
   idea: string;
+  // Saved project the AI usage is charged to
+  projectId?: string;
   features: ParsedFeature[];
+  // Specs planned from the enabled features; cleared when the features change
+  specPlan?: SpecPlan;
   techStack: {
     frontend: string;
     backend: string;
@@ -37,7 +46,7 @@ interface StepByStepBuilderProps {
   onBack: () => void;
 }
 
-type BuildStep = 'features' | 'frontend' | 'backend' | 'database' | 'deployment' | 'complete';
+type BuildStep = 'features' | 'plan' | 'frontend' | 'backend' | 'database' | 'deployment' | 'complete';
 
 const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({ 
   appData, 
@@ -49,9 +58,15 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [showCode, setShowCode] = useState(false);
+  // Steps whose output was reused from the response cache rather than freshly generated
+  const [cachedSteps, setCachedSteps] = useState<Partial<Record<BuildStep, boolean>>>({});
+  // Why a step was generated from the feature list instead of its planned spec
+  const [planFallbacks, setPlanFallbacks] = useState<Partial<Record<BuildStep, string>>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const steps = [
     { id: 'features', name: 'Features', icon: <Sparkles className="h-5 w-5" />, description: 'Define app features' },
+    { id: 'plan', name: 'Plan', icon: <ClipboardList className="h-5 w-5" />, description: 'Components, API & tables' },
     { id: 'frontend', name: 'Frontend', icon: <Eye className="h-5 w-5" />, description: 'User interface' },
     { id: 'backend', name: 'Backend', icon: <Server className="h-5 w-5" />, description: 'API & logic' },
     { id: 'database', name: 'Database', icon: <Database className="h-5 w-5" />, description: 'Data storage' },
@@ -67,33 +82,130 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
     }
   }, [currentBuildStep]);
 
-  const generateFeatures = async () => {
+  // Starts a new cancellable run, aborting whatever was still in flight
+  const startRun = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const finishRun = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsGenerating(false);
+  };
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Collects responses for a step so it can be flagged when every call was a cache hit
+  const trackCacheHits = (step: BuildStep) => {
+    const responses: LLMResponse[] = [];
+    return {
+      onResponse: (response: LLMResponse) => responses.push(response),
+      settle: () => setCachedSteps(prev => ({
+        ...prev,
+        [step]: responses.length > 0 && responses.every(response => response.cached)
+      }))
+    };
+  };
+
+  const generateFeatures = async (bypassCache = false) => {
+    const signal = startRun();
+    const { onResponse, settle } = trackCacheHits('features');
     setIsGenerating(true);
     setError(null);
     
     try {
-      const features = await AIService.parseIdea(appData.idea, appData.techStack);
-      onUpdateAppData({ features });
+      const features = await AIService.parseIdea(appData.idea, appData.techStack, { signal, onResponse, bypassCache, projectId: appData.projectId });
+      settle();
+      onUpdateAppData({ features, specPlan: undefined });
     } catch (err) {
+      if (signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to generate features');
     } finally {
-      setIsGenerating(false);
+      finishRun(signal);
     }
   };
 
-  const generateStep = async (step: BuildStep) => {
+  const createPlan = () => {
+    onUpdateAppData({ specPlan: planSpecs(appData.features, appData.techStack) });
+  };
+
+  // The plan is created on entering its step, unless one is already there
+  const goToStep = (step: BuildStep) => {
+    setCurrentBuildStep(step);
+    if (step === 'plan' && !appData.specPlan && appData.features.length > 0) {
+      createPlan();
+    }
+  };
+
+  /**
+   * Generate a layer from its planned spec. Without a plan for it, or when
+   * the planned generation fails, the feature-based generation is used.
+   */
+  const generateFromPlan = async (
+    step: BuildStep,
+    layer: PlannedLayer,
+    fallback: () => Promise<string>,
+    options: ModelCallOptions
+  ): Promise<string> => {
+    const plan = appData.specPlan;
+    setPlanFallbacks(prev => ({ ...prev, [step]: undefined }));
+    const planned = plan && (
+      layer === 'components' ? plan.components.length : layer === 'api' ? plan.api.endpoints.length : plan.database.tables.length
+    ) > 0;
+    if (!plan || !planned) return fallback();
+
+    try {
+      const content = await generatePlannedLayer(plan, layer, options);
+      if (options.signal?.aborted) throw new Error('Stopped');
+      return content;
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      console.warn(`Planned ${layer} generation failed, using the feature list:`, err);
+      setPlanFallbacks(prev => ({ ...prev, [step]: err instanceof Error ? err.message : 'Unknown error' }));
+      return fallback();
+    }
+  };
+
+  const generateStep = async (step: BuildStep, bypassCache = false) => {
+    // Planned layers skip AIService, so the stack is checked here for every code step
+    if (step === 'frontend' || step === 'backend' || step === 'database') {
+      const validation = validateStack(appData.techStack);
+      if (!validation.compatible) {
+        const conflicts = validation.issues.filter(issue => issue.severity === 'error');
+        setError(`The selected tech stack does not work together:\n${formatStackIssues(conflicts)}`);
+        return;
+      }
+    }
+
+    const signal = startRun();
+    const { onResponse, settle } = trackCacheHits(step);
     setIsGenerating(true);
     setError(null);
     
     try {
       let generatedContent = '';
+      const callOptions = { signal, onResponse, bypassCache, projectId: appData.projectId };
       
       switch (step) {
         case 'frontend':
+          // Planned components are written as part of the app, in the same generation
           generatedContent = await AIService.generateFrontendCode(
             appData.idea, 
             appData.features.filter(f => f.enabled), 
-            appData.techStack
+            appData.techStack,
+            { ...callOptions, plan: appData.specPlan }
           );
           onUpdateAppData({ 
             generatedCode: { ...appData.generatedCode, frontend: generatedContent }
@@ -101,22 +213,24 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
           break;
           
         case 'backend':
-          generatedContent = await AIService.generateBackendCode(
+          generatedContent = await generateFromPlan(step, 'api', () => AIService.generateBackendCode(
             appData.idea, 
             appData.features.filter(f => f.enabled), 
-            appData.techStack
-          );
+            appData.techStack,
+            callOptions
+          ), callOptions);
           onUpdateAppData({ 
             generatedCode: { ...appData.generatedCode, backend: generatedContent }
           });
           break;
           
         case 'database':
-          generatedContent = await AIService.generateDatabaseSchema(
+          generatedContent = await generateFromPlan(step, 'database', () => AIService.generateDatabaseSchema(
             appData.idea, 
             appData.features.filter(f => f.enabled), 
-            appData.techStack
-          );
+            appData.techStack,
+            callOptions
+          ), callOptions);
           onUpdateAppData({ 
             generatedCode: { ...appData.generatedCode, database: generatedContent }
           });
@@ -133,39 +247,42 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
           });
           break;
       }
+      settle();
       
       // Generate preview if frontend is ready
       if (step === 'frontend' && generatedContent) {
-        generatePreview();
+        generatePreview(signal);
         setShowPreview(true); // Automatically show preview when frontend is generated
       }
       
     } catch (err) {
+      if (signal.aborted) return;
       setError(err instanceof Error ? err.message : `Failed to generate ${step}`);
     } finally {
-      setIsGenerating(false);
+      finishRun(signal);
     }
   };
 
-  const generatePreview = async () => {
+  const generatePreview = async (signal?: AbortSignal) => {
     if (!appData.generatedCode.frontend) return;
     
     try {
       onUpdateAppData({ preview: { url: '', status: 'generating' } });
-      const preview = await PreviewService.generatePreview(appData.generatedCode);
+      const preview = await PreviewService.generatePreview(appData.generatedCode, signal);
       onUpdateAppData({ preview });
     } catch (err) {
-      onUpdateAppData({ preview: { url: '', status: 'error' } });
+      // A stopped build leaves no half-finished preview behind
+      onUpdateAppData({ preview: signal?.aborted ? null : { url: '', status: 'error' } });
     }
   };
 
   const handleNext = () => {
     if (currentStepIndex < steps.length - 1) {
       const nextStep = steps[currentStepIndex + 1].id as BuildStep;
-      setCurrentBuildStep(nextStep);
+      goToStep(nextStep);
       
-      // Auto-generate next step if not already generated
-      if (nextStep !== 'complete' && !appData.generatedCode[nextStep as keyof typeof appData.generatedCode]) {
+      // Auto-generate next step if not already generated; the plan is created on entering its step
+      if (nextStep !== 'complete' && nextStep !== 'plan' && !appData.generatedCode[nextStep as keyof typeof appData.generatedCode]) {
         generateStep(nextStep);
       }
     }
@@ -173,27 +290,37 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
 
   const handlePrevious = () => {
     if (currentStepIndex > 0) {
-      setCurrentBuildStep(steps[currentStepIndex - 1].id as BuildStep);
+      goToStep(steps[currentStepIndex - 1].id as BuildStep);
     }
   };
 
-  const handleFeatureToggle = (featureId: string) => {
+  const handleFeaturesToggle = (featureIds: string[], enabled: boolean) => {
     const updatedFeatures = appData.features.map(f => 
-      f.id === featureId ? { ...f, enabled: !f.enabled } : f
+      featureIds.includes(f.id) ? { ...f, enabled } : f
     );
-    onUpdateAppData({ features: updatedFeatures });
+    onUpdateAppData({ features: updatedFeatures, specPlan: undefined });
   };
 
+  // Stories and criteria do not change the plan, so it is kept
+  const handleFeatureUpdate = (feature: ParsedFeature) => {
+    onUpdateAppData({ features: appData.features.map(f => f.id === feature.id ? feature : f) });
+  };
+
+  // An explicit regenerate always asks the model again
   const handleRegenerate = () => {
-    if (currentBuildStep !== 'features' && currentBuildStep !== 'complete') {
-      generateStep(currentBuildStep);
+    if (currentBuildStep === 'plan') {
+      // Plans again from the current features, discarding edits
+      createPlan();
+    } else if (currentBuildStep !== 'features' && currentBuildStep !== 'complete') {
+      generateStep(currentBuildStep, true);
     } else if (currentBuildStep === 'features') {
-      generateFeatures();
+      generateFeatures(true);
     }
   };
 
   const isStepComplete = (stepId: string) => {
     if (stepId === 'features') return appData.features.length > 0;
+    if (stepId === 'plan') return !!appData.specPlan;
     if (stepId === 'complete') return Object.keys(appData.generatedCode).length >= 4;
     return !!appData.generatedCode[stepId as keyof typeof appData.generatedCode];
   };
@@ -216,7 +343,7 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
               {steps.map((step, index) => (
                 <div key={step.id} className="flex items-center">
                   <button
-                    onClick={() => setCurrentBuildStep(step.id as BuildStep)}
+                    onClick={() => goToStep(step.id as BuildStep)}
                     className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
                       currentBuildStep === step.id
                         ? 'bg-indigo-100 text-indigo-700'
@@ -280,40 +407,65 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
                 </div>
                 
                 {currentBuildStep !== 'complete' && (
-                  <button
-                    onClick={handleRegenerate}
-                    disabled={isGenerating}
-                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
-                  >
-                    {isGenerating ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <Sparkles className="h-4 w-4" />
+                  <div className="flex items-center space-x-2">
+                    {isGenerating && (
+                      <button
+                        onClick={handleStop}
+                        className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+                      >
+                        <Square className="h-4 w-4" />
+                        <span>Stop</span>
+                      </button>
                     )}
-                    <span>{isGenerating ? 'Generating...' : 'Regenerate'}</span>
-                  </button>
+                    <button
+                      onClick={handleRegenerate}
+                      disabled={isGenerating}
+                      className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      {isGenerating ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Sparkles className="h-4 w-4" />
+                      )}
+                      <span>{isGenerating ? 'Generating...' : 'Regenerate'}</span>
+                    </button>
+                  </div>
                 )}
               </div>
 
               {error && (
                 <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
-                  <p className="text-red-700">{error}</p>
+                  <p className="text-red-700 whitespace-pre-line">{error}</p>
                 </div>
               )}
             </div>
 
             {/* Step Content */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              {currentBuildStep === 'features' && cachedSteps.features && !isGenerating && (
+                <div className="m-6 mb-0 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-2 text-sm text-amber-800">
+                  <History className="h-4 w-4" />
+                  <span>These features were reused from an earlier identical request. Regenerate to ask the AI again.</span>
+                </div>
+              )}
               {currentBuildStep === 'features' && (
                 <FeatureCustomizer
                   idea={appData.idea}
                   features={appData.features}
-                  onFeatureToggle={handleFeatureToggle}
+                  onFeaturesToggle={handleFeaturesToggle}
+                  onFeatureUpdate={handleFeatureUpdate}
                   isLoading={isGenerating}
                 />
               )}
               
-              {currentBuildStep !== 'features' && currentBuildStep !== 'complete' && (
+              {currentBuildStep === 'plan' && appData.specPlan && (
+                <SpecPlanner
+                  plan={appData.specPlan}
+                  onChange={(specPlan) => onUpdateAppData({ specPlan })}
+                />
+              )}
+              
+              {currentBuildStep !== 'features' && currentBuildStep !== 'plan' && currentBuildStep !== 'complete' && (
                 <div className="p-6">
                   {isGenerating ? (
                     <div className="flex items-center justify-center py-12">
@@ -332,6 +484,17 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
                       <h3 className="text-lg font-semibold text-gray-900 mb-4">
                         {currentBuildStep.charAt(0).toUpperCase() + currentBuildStep.slice(1)} Generated Successfully
                       </h3>
+                      {planFallbacks[currentBuildStep] && (
+                        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                          Generated from the feature list because the planned spec could not be used: {planFallbacks[currentBuildStep]}
+                        </div>
+                      )}
+                      {cachedSteps[currentBuildStep] && (
+                        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-2 text-sm text-amber-800">
+                          <History className="h-4 w-4" />
+                          <span>Reused from an earlier identical request. Regenerate to ask the AI again.</span>
+                        </div>
+                      )}
                       <div className="bg-gray-50 rounded-lg p-4">
                         <p className="text-gray-600 mb-4">
                           Your {currentBuildStep} code has been generated and is ready for review.
@@ -439,13 +602,19 @@ const StepByStepBuilder: React.FC<StepByStepBuilderProps> = ({
                 </div>
               )}
               
-              {showCode && (
+              {showCode && (currentBuildStep === 'plan' ? (
+                <CodeViewer 
+                  code={appData.specPlan ? JSON.stringify(appData.specPlan, null, 2) : ''}
+                  language="json"
+                  title="Plan Specs"
+                />
+              ) : (
                 <CodeViewer 
                   code={appData.generatedCode[currentBuildStep as keyof typeof appData.generatedCode] || ''}
                   language={currentBuildStep === 'database' ? 'sql' : currentBuildStep === 'deployment' ? 'yaml' : 'typescript'}
                   title={`${currentBuildStep.charAt(0).toUpperCase() + currentBuildStep.slice(1)} Code`}
                 />
-              )}
+              ))}
             </div>
           ) : null}
         </div>
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { X, BarChart3, Loader2, AlertCircle } from 'lucide-react';
+import { ProjectUsage, UsageService, formatCost, formatTokens } from '../services/usage';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose }) => {
+  const [projects, setProjects] = useState<ProjectUsage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedProject, setExpandedProject] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    setError(null);
+    UsageService.getProjectBreakdown()
+      .then(setProjects)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load usage'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const totalCost = projects.reduce((sum, project) => sum + project.costUsd, 0);
+  const totalTokens = projects.reduce((sum, project) => sum + project.totalTokens, 0);
+  const unpricedCalls = projects.reduce((sum, project) => sum + project.unpricedCalls, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-6 max-w-2xl w-full mx-4 relative max-h-[80vh] flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="p-2 rounded-lg bg-blue-100 text-blue-700">
+            <BarChart3 className="h-5 w-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">AI Usage</h2>
+            <p className="text-sm text-gray-600">
+              {formatCost(totalCost)} across {formatTokens(totalTokens)} tokens
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading usage...
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-500" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        ) : projects.length === 0 ? (
+          <p className="text-sm text-gray-600 py-8 text-center">No AI usage recorded yet.</p>
+        ) : (
+          <div className="overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Project</th>
+                  <th className="py-2 font-medium text-right">Calls</th>
+                  <th className="py-2 font-medium text-right">Tokens</th>
+                  <th className="py-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map(project => {
+                  const key = project.projectId || 'unsaved';
+                  const isExpanded = expandedProject === key;
+                  return (
+                    <React.Fragment key={key}>
+                      <tr
+                        onClick={() => setExpandedProject(isExpanded ? null : key)}
+                        className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="py-2 font-medium text-gray-900">{project.projectName}</td>
+                        <td className="py-2 text-right text-gray-700">{project.calls}</td>
+                        <td className="py-2 text-right text-gray-700">{formatTokens(project.totalTokens)}</td>
+                        <td className="py-2 text-right text-gray-900">{formatCost(project.costUsd)}</td>
+                      </tr>
+                      {isExpanded && project.models.map(model => (
+                        <tr key={`${key}-${model.provider}-${model.model}`} className="bg-gray-50 text-xs text-gray-600">
+                          <td className="py-1 pl-4">{model.provider} / {model.model}</td>
+                          <td className="py-1 text-right">{model.calls}</td>
+                          <td className="py-1 text-right">
+                            {formatTokens(model.inputTokens)} in / {formatTokens(model.outputTokens)} out
+                          </td>
+                          <td className="py-1 text-right">
+                            {model.unpricedCalls > 0 ? 'no rate' : formatCost(model.costUsd)}
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {unpricedCalls > 0 && (
+          <p className="mt-4 text-xs text-amber-700">
+            {unpricedCalls} {unpricedCalls === 1 ? 'call used a model' : 'calls used models'} without a configured rate and
+            {unpricedCalls === 1 ? ' is' : ' are'} not included in the cost. Add rates with VITE_AI_RATES.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
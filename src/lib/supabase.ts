@@ -58,6 +58,44 @@ export type Database = {
           updated_at?: string;
         };
       };
+      generation_usage: {
+        Row: {
+          id: string;
+          user_id: string;
+          project_id: string | null;
+          provider: string;
+          model: string;
+          input_tokens: number;
+          output_tokens: number;
+          total_tokens: number;
+          cost_usd: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          project_id?: string | null;
+          provider: string;
+          model: string;
+          input_tokens?: number;
+          output_tokens?: number;
+          total_tokens?: number;
+          cost_usd?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          project_id?: string | null;
+          provider?: string;
+          model?: string;
+          input_tokens?: number;
+          output_tokens?: number;
+          total_tokens?: number;
+          cost_usd?: number | null;
+          created_at?: string;
+        };
+      };
       users: {
         Row: {
           id: string;
@@ -0,0 +1,72 @@
+import type { ParsedFeature } from './ai';
+import type { ResolvedStack } from './stackProfiles';
+
+export type AcceptanceTestsResult =
+  | { success: true; code: string }
+  | { success: false; errors: string[] };
+
+/**
+ * Enabled features with at least one acceptance criterion, the ones the
+ * generated tests are written for
+ */
+export function featuresWithCriteria(features: ParsedFeature[]): ParsedFeature[] {
+  return features.filter(feature => feature.enabled && (feature.acceptanceCriteria?.length ?? 0) > 0);
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, ' ')}'`;
+}
+
+function runnerImport(stack: ResolvedStack): string {
+  return stack.frontend.tests.runner === 'Vitest' ? "import { describe, it } from 'vitest';\n\n" : '';
+}
+
+function todoBlock(name: string, criteria: string[]): string {
+  return `describe(${quote(name)}, () => {
+${criteria.map(criterion => `  it.todo(${quote(criterion)});`).join('\n')}
+});`;
+}
+
+/**
+ * One to-do test per criterion, grouped by feature. Used when no tests could
+ * be written, so every criterion still shows up as unfinished in the test run.
+ */
+export function acceptanceTestSkeleton(features: ParsedFeature[], stack: ResolvedStack): string {
+  const blocks = featuresWithCriteria(features).map(feature => todoBlock(feature.name, feature.acceptanceCriteria!));
+  return `${runnerImport(stack)}// Acceptance criteria from the feature plan; replace each to-do with a test
+${blocks.join('\n\n')}
+`;
+}
+
+// A criterion counts as covered when its text is a test name, quoted either way
+function isCovered(code: string, criterion: string): boolean {
+  return code.includes(criterion) || code.includes(quote(criterion).slice(1, -1));
+}
+
+/**
+ * Check generated tests and add a to-do for every criterion they leave out,
+ * so the file accounts for all of them
+ */
+export function parseAcceptanceTests(text: string, features: ParsedFeature[]): AcceptanceTestsResult {
+  const fenced = text.match(/```(?:[a-z]+)?\s*([\s\S]*?)```/);
+  const code = (fenced ? fenced[1] : text).trim();
+  if (!/\b(describe|it|test)(\.todo)?\s*\(/.test(code)) {
+    return { success: false, errors: ['The response contains no tests'] };
+  }
+
+  const missing = featuresWithCriteria(features)
+    .map(feature => ({ name: feature.name, criteria: feature.acceptanceCriteria!.filter(criterion => !isCovered(code, criterion)) }))
+    .filter(group => group.criteria.length > 0);
+  if (missing.length === 0) {
+    return { success: true, code: `${code}\n` };
+  }
+
+  return {
+    success: true,
+    code: `${code}
+
+// Acceptance criteria the tests above do not cover yet
+${missing.map(group => todoBlock(group.name, group.criteria)).join('\n\n')}
+`
+  };
+}
@@ -1,7 +1,19 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import Anthropic from '@anthropic-ai/sdk';
-import axios from 'axios';
+import { LLMMessage, LLMProviderRegistry, LLMRequest, LLMResponse, LLMResponseFormat, LLMTokenHandler } from './llmProviders';
+import { FEATURE_RESPONSE_FORMAT, parseFeatureResponse } from './featureSchema';
+import { CLARIFYING_RESPONSE_FORMAT, ClarifyingQuestion, fallbackQuestions, parseClarifyingQuestions } from './clarification';
+import { FileManifestParseResult, GeneratedFile, createGeneratedFileSchema, parseFileManifest } from './fileManifest';
+import { PatchHunk, applyHunk, parsePatch } from './codePatch';
+import { FeatureChange, applyFeatureCommands, diffFeatures } from './featureEdits';
+import { orderFeatures } from './featureGraph';
+import { extractFeaturesFromRules } from './featureRules';
+import { acceptanceTestSkeleton, featuresWithCriteria, parseAcceptanceTests } from './acceptanceTests';
+import { ResolvedStack, resolveStack } from './stackProfiles';
+import { PlannedLayer, SpecPlan, generatePlannedLayer, plannedApiTarget } from './specPlanner';
+import { formatStackIssues, validateStack } from './stackCompatibility';
+import { PromptId, PromptRegistry, PromptVariables, RenderedPrompt } from './promptRegistry';
+import { TypeCheckService } from './typeCheck';
+import { PreviewService } from './preview';
+import type { FileDiagnostic, PromptProvenance } from '../types/codeGeneration';
 
 export interface ParsedFeature {
   id: string;
@@ -12,8 +24,16 @@ export interface ParsedFeature {
   enabled: boolean;
   dependencies: string[];
   implementation: string;
+  // Set when the user re-prioritises a feature; unset counts as medium
+  priority?: FeaturePriority;
+  // "As a …, I want …, so that …"
+  userStories?: string[];
+  // Testable Given/When/Then statements; each one becomes a generated test
+  acceptanceCriteria?: string[];
 }
 
+export type FeaturePriority = 'high' | 'medium' | 'low';
+
 export interface TechStack {
   frontend: string;
   backend: string;
@@ -21,271 +41,653 @@ export interface TechStack {
   deployment: string;
   aiProvider: string;
   aiModel: string;
+  // 'JavaScript' (default) or 'TypeScript' output
+  language?: string;
+  // Optional capabilities chosen alongside the stack
+  authentication?: boolean;
+  realtime?: boolean;
+  testing?: boolean;
+}
+
+export interface GenerationOptions {
+  // Receives generated code token by token while the model is still writing
+  onToken?: LLMTokenHandler;
+  // Cancels the in-flight provider request and every later step of the pipeline
+  signal?: AbortSignal;
+  // Called after every successful AI call, including which provider answered
+  onResponse?: (response: LLMResponse) => void;
+  // Called with the reason whenever AI output was unusable and heuristics were used instead
+  onFallback?: (reason: string) => void;
+  // Called with the prompt template version behind each artifact the AI produced
+  onPrompt?: (artifact: string, provenance: PromptProvenance) => void;
+  // Ask the providers again instead of reusing cached responses, e.g. for an explicit regenerate
+  bypassCache?: boolean;
+  // Saved project the calls are charged to; unsaved work is recorded without one
+  projectId?: string;
+  // Called after each round of fixing errors found in the generated app
+  onRepair?: (attempt: RepairAttempt) => void;
+  // How many fix rounds to try before presenting the app with its errors
+  maxRepairAttempts?: number;
+  // Specs the user planned: the app is built from their components, and the API and database from theirs
+  plan?: SpecPlan;
+}
+
+// One round of sending check and compile errors back to the model
+export interface RepairAttempt {
+  attempt: number;
+  maxAttempts: number;
+  // Errors the model was asked to fix
+  diagnostics: FileDiagnostic[];
+  // Errors left afterwards; empty once the app compiles
+  remaining: FileDiagnostic[];
+  // Why the model's answer could not be used, if it could not
+  error?: string;
+}
+
+// Targeted changes proposed for a follow-up request, for the user to review
+export interface EditProposal {
+  // Hunks that apply, in order, to the current code
+  hunks: PatchHunk[];
+  // Why any other proposed edits were dropped
+  errors: string[];
+}
+
+// A feature list after a change request, with what changed
+export interface FeatureModification {
+  features: ParsedFeature[];
+  changes: FeatureChange[];
+  // Parts of the request that could not be applied
+  notes: string[];
 }
 
+const MAX_REPAIR_ATTEMPTS = 2;
+
 export class AIService {
-  private static getAIClient() {
-    const provider = import.meta.env.VITE_AI_PROVIDER || 'groq';
-    
-    switch (provider) {
-      case 'openai':
-        if (!import.meta.env.VITE_OPENAI_API_KEY) {
-          throw new Error('OpenAI API key not configured');
-        }
-        return new OpenAI({
-          apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-          dangerouslyAllowBrowser: true
-        });
-      
-      case 'anthropic':
-        if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
-          throw new Error('Anthropic API key not configured');
-        }
-        return new Anthropic({
-          apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
-          dangerouslyAllowBrowser: true
-        });
-      
-      case 'gemini':
-        if (!import.meta.env.VITE_GEMINI_API_KEY) {
-          throw new Error('Gemini API key not configured');
-        }
-        return new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-      
-      case 'groq':
-      default:
-        if (!import.meta.env.VITE_GROQ_API_KEY) {
-          throw new Error('Groq API key not configured');
-        }
-        return {
-          apiKey: import.meta.env.VITE_GROQ_API_KEY,
-          baseURL: 'https://api.groq.com/openai/v1',
-          model: import.meta.env.VITE_GROQ_MODEL || 'llama-3.1-70b-versatile'
-        };
-    }
+  /**
+   * Render a registered prompt for the active provider. The idea keeps every
+   * prompt for one app in the same arm of a running experiment.
+   */
+  private static renderPrompt<K extends PromptId>(id: K, variables: PromptVariables[K], idea: string): RenderedPrompt {
+    return PromptRegistry.render(id, variables, {
+      provider: LLMProviderRegistry.getActiveSelection().provider,
+      subjectKey: idea
+    });
   }
 
-  private static async callAI(prompt: string): Promise<string> {
-    const provider = import.meta.env.VITE_AI_PROVIDER || 'groq';
-    
+  private static async callAI(
+    prompt: string | LLMMessage[],
+    options: GenerationOptions = {},
+    responseFormat?: LLMResponseFormat
+  ): Promise<string> {
+    const request: LLMRequest = {
+      messages: typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt,
+      temperature: 0.7,
+      maxTokens: 4000,
+      responseFormat,
+      bypassCache: options.bypassCache,
+      projectId: options.projectId,
+      signal: options.signal
+    };
+
     try {
-      switch (provider) {
-        case 'openai': {
-          const client = this.getAIClient() as OpenAI;
-          const response = await client.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7,
-            max_tokens: 4000
-          });
-          return response.choices[0]?.message?.content || '';
-        }
-        
-        case 'anthropic': {
-          const client = this.getAIClient() as Anthropic;
-          const response = await client.messages.create({
-            model: 'claude-3-sonnet-20240229',
-            max_tokens: 4000,
-            messages: [{ role: 'user', content: prompt }]
-          });
-          return response.content[0]?.type === 'text' ? response.content[0].text : '';
-        }
-        
-        case 'gemini': {
-          const client = this.getAIClient() as GoogleGenerativeAI;
-          const model = client.getGenerativeModel({ model: 'gemini-2.5-pro' });
-          const response = await model.generateContent(prompt);
-          return response.response.text();
-        }
-        
-        case 'groq':
-        default: {
-          const client = this.getAIClient() as any;
-          const response = await axios.post(
-            `${client.baseURL}/chat/completions`,
-            {
-              model: client.model,
-              messages: [{ role: 'user', content: prompt }],
-              temperature: 0.7,
-              max_tokens: 4000
-            },
-            {
-              headers: {
-                'Authorization': `Bearer ${client.apiKey}`,
-                'Content-Type': 'application/json'
-              }
-            }
-          );
-          return response.data.choices[0]?.message?.content || '';
-        }
-      }
+      options.signal?.throwIfAborted();
+      const response = options.onToken
+        ? await LLMProviderRegistry.stream(request, options.onToken)
+        : await LLMProviderRegistry.complete(request);
+      options.onResponse?.(response);
+      return response.text;
     } catch (error) {
+      // Cancellation is not a failure, let callers see the original abort
+      if (options.signal?.aborted) throw error;
       console.error('AI API Error:', error);
       throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  static async parseIdea(idea: string, techStack: TechStack): Promise<ParsedFeature[]> {
-    const prompt = `Analyze this app idea and extract key features: "${idea}"
-
-Return a JSON array of features with this exact structure:
-[
-  {
-    "id": "unique-id",
-    "name": "Feature Name",
-    "description": "Brief description",
-    "category": "ui|backend|database|security|integration",
-    "complexity": "low|medium|high",
-    "enabled": true,
-    "dependencies": ["other-feature-ids"],
-    "implementation": "Brief implementation note"
-  }
-]
+  static async parseIdea(idea: string, techStack: TechStack, options: GenerationOptions = {}): Promise<ParsedFeature[]> {
+    const prompt = this.renderPrompt('parse-idea', { idea }, idea);
 
-Focus on practical, implementable features. Include UI components, data management, user interactions, and core functionality.`;
+    const callOptions = { signal: options.signal, onResponse: options.onResponse, bypassCache: options.bypassCache, projectId: options.projectId };
+    const fallBackToKeywords = (reason: string): ParsedFeature[] => {
+      console.warn('Using keyword-based features:', reason);
+      options.onFallback?.(`Features were inferred from keywords in your idea: ${reason}`);
+      return this.generateFallbackFeatures(idea);
+    };
 
     try {
-      const response = await this.callAI(prompt);
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      
-      if (jsonMatch) {
-        const features = JSON.parse(jsonMatch[0]);
-        return features.map((f: any, index: number) => ({
-          id: f.id || `feature-${index}`,
-          name: f.name || 'Unnamed Feature',
-          description: f.description || 'No description',
-          category: f.category || 'ui',
-          complexity: f.complexity || 'medium',
-          enabled: f.enabled !== false,
-          dependencies: f.dependencies || [],
-          implementation: f.implementation || ''
-        }));
+      const response = await this.callAI(prompt.text, callOptions, FEATURE_RESPONSE_FORMAT);
+      const result = parseFeatureResponse(response);
+      if (result.success) {
+        options.onPrompt?.('features', prompt.provenance);
+        return result.features;
       }
-      
-      // Fallback if JSON parsing fails
-      return this.generateFallbackFeatures(idea);
+
+      // Send the validation errors back once so the model can correct its own output
+      console.warn('Feature response failed validation, requesting a repair:', result.errors);
+      const repaired = parseFeatureResponse(await this.callAI([
+        { role: 'user', content: prompt.text },
+        { role: 'assistant', content: response },
+        { role: 'user', content: this.renderPrompt('parse-idea-repair', { errors: result.errors }, idea).text }
+      ], callOptions, FEATURE_RESPONSE_FORMAT));
+
+      if (repaired.success) {
+        options.onPrompt?.('features', prompt.provenance);
+        return repaired.features;
+      }
+      return fallBackToKeywords(`AI response failed validation after repair: ${repaired.errors.slice(0, 3).join('; ')}`);
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Feature parsing error:', error);
-      return this.generateFallbackFeatures(idea);
+      return fallBackToKeywords(error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
-  private static generateFallbackFeatures(idea: string): ParsedFeature[] {
-    const lowerIdea = idea.toLowerCase();
-    const features: ParsedFeature[] = [];
-
-    // Basic UI features
-    features.push({
-      id: 'main-interface',
-      name: 'Main User Interface',
-      description: 'Primary application interface and layout',
-      category: 'ui',
-      complexity: 'medium',
-      enabled: true,
-      dependencies: [],
-      implementation: 'React components with responsive design'
-    });
+  /**
+   * Questions about what a vague idea leaves open (audience, data, sign-in,
+   * platform), asked before its features are extracted. Without a usable
+   * answer from the model, fixed questions cover the topics the idea misses.
+   */
+  static async askClarifyingQuestions(idea: string, techStack: TechStack, options: GenerationOptions = {}): Promise<ClarifyingQuestion[]> {
+    // Substitutions are reported once the app is generated
+    const prompt = this.renderPrompt('clarify-idea', { idea, stack: resolveStack(techStack) }, idea);
+    const callOptions = { signal: options.signal, onResponse: options.onResponse, bypassCache: options.bypassCache, projectId: options.projectId };
 
-    // Conditional features based on keywords
-    if (lowerIdea.includes('auth') || lowerIdea.includes('login') || lowerIdea.includes('user')) {
-      features.push({
-        id: 'user-auth',
-        name: 'User Authentication',
-        description: 'User login and registration system',
-        category: 'security',
-        complexity: 'high',
-        enabled: true,
-        dependencies: [],
-        implementation: 'JWT-based authentication'
-      });
+    try {
+      const result = parseClarifyingQuestions(await this.callAI(prompt.text, callOptions, CLARIFYING_RESPONSE_FORMAT));
+      if (result.success) {
+        options.onPrompt?.('questions', prompt.provenance);
+        return result.questions;
+      }
+      console.warn('Clarifying questions failed validation:', result.errors);
+      options.onFallback?.(`Standard questions were used: ${result.errors.slice(0, 3).join('; ')}`);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('Clarifying questions error:', error);
+      options.onFallback?.(`Standard questions were used: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    return fallbackQuestions(idea);
+  }
 
-    if (lowerIdea.includes('data') || lowerIdea.includes('store') || lowerIdea.includes('save')) {
-      features.push({
-        id: 'data-storage',
-        name: 'Data Storage',
-        description: 'Store and retrieve application data',
-        category: 'database',
-        complexity: 'medium',
-        enabled: true,
-        dependencies: [],
-        implementation: 'Local storage and state management'
-      });
-    }
+  /**
+   * Apply a change request such as "drop auth, add CSV export, make search
+   * high priority" to the feature list. The model rewrites the list; when its
+   * answer is unusable the request is read with a fixed command grammar.
+   */
+  static async modifyFeatures(
+    idea: string,
+    request: string,
+    features: ParsedFeature[],
+    options: GenerationOptions = {}
+  ): Promise<FeatureModification> {
+    const prompt = this.renderPrompt('feature-edit', { idea, request, features }, idea);
+
+    const callOptions = { signal: options.signal, onResponse: options.onResponse, bypassCache: options.bypassCache, projectId: options.projectId };
+    const accept = (updated: ParsedFeature[]): FeatureModification => {
+      options.onPrompt?.('features', prompt.provenance);
+      return { features: updated, changes: diffFeatures(features, updated), notes: [] };
+    };
+    const fallBackToCommands = (reason: string): FeatureModification => {
+      console.warn('Using the feature command grammar:', reason);
+      options.onFallback?.(`Your request was read as simple commands (add, remove, enable, disable, make ... high priority): ${reason}`);
+      const result = applyFeatureCommands(request, features);
+      return { features: result.features, changes: diffFeatures(features, result.features), notes: result.notes };
+    };
+
+    try {
+      const response = await this.callAI(prompt.text, callOptions, FEATURE_RESPONSE_FORMAT);
+      const result = parseFeatureResponse(response);
+      if (result.success) {
+        return accept(result.features);
+      }
+
+      console.warn('Feature edit failed validation, requesting a repair:', result.errors);
+      const repaired = parseFeatureResponse(await this.callAI([
+        { role: 'user', content: prompt.text },
+        { role: 'assistant', content: response },
+        { role: 'user', content: this.renderPrompt('parse-idea-repair', { errors: result.errors }, idea).text }
+      ], callOptions, FEATURE_RESPONSE_FORMAT));
 
-    if (lowerIdea.includes('form') || lowerIdea.includes('input') || lowerIdea.includes('create')) {
-      features.push({
-        id: 'form-handling',
-        name: 'Form Management',
-        description: 'Handle user input and form submissions',
-        category: 'ui',
-        complexity: 'low',
-        enabled: true,
-        dependencies: [],
-        implementation: 'Controlled components with validation'
-      });
+      if (repaired.success) {
+        return accept(repaired.features);
+      }
+      return fallBackToCommands(`AI response failed validation after repair: ${repaired.errors.slice(0, 3).join('; ')}`);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('Feature edit error:', error);
+      return fallBackToCommands(error instanceof Error ? error.message : 'Unknown error');
     }
+  }
 
-    return features;
+  // Matches the idea against the rule catalogue in rules/features
+  private static generateFallbackFeatures(idea: string): ParsedFeature[] {
+    return extractFeaturesFromRules(idea);
   }
 
-  static async generateCode(idea: string, features: ParsedFeature[], techStack: TechStack): Promise<any> {
+  static async generateCode(
+    idea: string,
+    features: ParsedFeature[],
+    techStack: TechStack,
+    options: GenerationOptions = {}
+  ): Promise<any> {
+    this.assertCompatibleStack(techStack);
+
+    // Describe features to the model in build order, dependencies first
+    features = orderFeatures(features);
     console.log('Generating code for:', idea);
     console.log('Features:', features.map(f => f.name));
 
-    // Generate all required files for a complete React app
-    const generatedCode = {
-      // React App Component
-      'src/App.js': `import React from 'react';\n\n${await this.generateReactApp(idea, features)}`,
-      
-      // Entry point
-      'src/index.js': this.generateIndexJs(),
-      
-      // CSS styles
-      'src/index.css': this.generateIndexCss(),
-      
-      // HTML template
-      'public/index.html': this.generateIndexHtml(idea),
+    // Collect which prompt version produced each file so it ships with the code
+    const prompts: Record<string, PromptProvenance> = {};
+    const trackedOptions: GenerationOptions = {
+      ...options,
+      onPrompt: (artifact, provenance) => {
+        prompts[artifact] = provenance;
+        options.onPrompt?.(artifact, provenance);
+      }
+    };
+
+    const stack = this.resolveStack(techStack, options);
+    const appFiles = await this.repairAppFiles(
+      idea,
+      await this.generateAppFiles(idea, features, stack, trackedOptions),
+      stack,
+      trackedOptions
+    );
+    const tests = await this.generateAcceptanceTests(idea, features, stack, appFiles, trackedOptions);
+    const plannedFiles = await this.generatePlannedFiles(stack, trackedOptions);
+    const projectFiles = [...appFiles, ...(tests ? [tests] : []), ...plannedFiles];
+
+    // Generate all required files for a complete app in the chosen framework
+    const generatedCode: Record<string, string> = {
+      // App, components, hooks and styles written by the model, the acceptance tests and the planned API and database
+      ...Object.fromEntries(projectFiles.map(file => [file.path, file.content])),
       
-      // Package.json with all dependencies
-      'package.json': this.generatePackageJson(idea),
+      // Entry point, HTML template, global styles and package.json
+      ...this.generateScaffold(idea, stack),
       
       // README
-      'README.md': this.generateReadme(idea, features),
+      'README.md': this.generateReadme(idea, features, stack, projectFiles),
       
       // Environment example
-      '.env.example': this.generateEnvExample(),
+      '.env.example': this.generateEnvExample(stack),
       
       // Gitignore
-      '.gitignore': this.generateGitignore()
+      '.gitignore': this.generateGitignore(stack)
     };
 
+    if (Object.keys(prompts).length > 0) {
+      generatedCode['.idea2app/prompts.json'] = JSON.stringify(prompts, null, 2);
+    }
+
+    options.signal?.throwIfAborted();
     return generatedCode;
   }
 
-  private static async generateReactApp(idea: string, features: ParsedFeature[]): Promise<string> {
-    const hasAuth = features.some(f => f.name.toLowerCase().includes('auth'));
-    const hasForm = features.some(f => f.name.toLowerCase().includes('form') || f.name.toLowerCase().includes('input'));
-    const hasData = features.some(f => f.name.toLowerCase().includes('data') || f.name.toLowerCase().includes('storage'));
+  /**
+   * Refuse a stack that cannot run as chosen before any model call
+   */
+  private static assertCompatibleStack(techStack: TechStack): void {
+    const validation = validateStack(techStack);
+    if (!validation.compatible) {
+      const conflicts = validation.issues.filter(issue => issue.severity === 'error');
+      throw new Error(`The selected tech stack does not work together:\n${formatStackIssues(conflicts)}`);
+    }
+  }
+
+  /**
+   * Resolve the stack choice to generator profiles, reporting any choice that
+   * had to be replaced because it is not supported
+   */
+  private static resolveStack(techStack: TechStack, options: GenerationOptions): ResolvedStack {
+    const stack = resolveStack(techStack);
+    stack.substitutions.forEach(substitution => options.onFallback?.(substitution));
+    return stack;
+  }
+
+  /**
+   * Ask for the app as a manifest of files. Invalid output, including type
+   * errors in TypeScript mode, gets one repair round-trip; after that a
+   * built-in template app is used instead.
+   */
+  private static async generateAppFiles(
+    idea: string,
+    features: ParsedFeature[],
+    stack: ResolvedStack,
+    options: GenerationOptions = {}
+  ): Promise<GeneratedFile[]> {
+    const rules = stack.frontend.manifest;
+    const prompt = this.renderPrompt('app-manifest', { idea, features, stack, components: options.plan?.components }, idea);
+    const accept = (files: GeneratedFile[]): GeneratedFile[] => {
+      files.forEach(file => options.onPrompt?.(file.path, prompt.provenance));
+      return files;
+    };
+    const fallBackToTemplate = (reason: string): GeneratedFile[] => {
+      console.warn('Using the template app:', reason);
+      options.onFallback?.(`The app was built from a template: ${reason}`);
+      return [{ path: rules.entryFile, content: `${this.generateFallbackEntry(idea, features, stack)}\n` }];
+    };
+
+    try {
+      const response = await this.callAI(prompt.text, options);
+      const result = await this.validateAppFiles(response, stack, options);
+      if (result.success) {
+        return accept(result.files);
+      }
+
+      // The repair is not streamed, the first attempt is already on screen
+      console.warn('File manifest failed validation, requesting a repair:', result.errors);
+      const repaired = await this.validateAppFiles(await this.callAI([
+        { role: 'user', content: prompt.text },
+        { role: 'assistant', content: response },
+        { role: 'user', content: this.renderPrompt('app-manifest-repair', { errors: result.errors }, idea).text }
+      ], { ...options, onToken: undefined }), stack, options);
+
+      if (repaired.success) {
+        return accept(repaired.files);
+      }
+      return fallBackToTemplate(`AI files failed validation after repair: ${repaired.errors.slice(0, 3).join('; ')}`);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('App generation error:', error);
+      return fallBackToTemplate(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Generate the planned API and database from their specs. A layer that
+   * fails is left out and reported, so the app is still delivered.
+   */
+  private static async generatePlannedFiles(stack: ResolvedStack, options: GenerationOptions): Promise<GeneratedFile[]> {
+    const plan = options.plan;
+    if (!plan) return [];
+
+    const callOptions = { signal: options.signal, onResponse: options.onResponse, bypassCache: options.bypassCache, projectId: options.projectId };
+    const layers: { layer: PlannedLayer; label: string; path: string; planned: boolean }[] = [
+      { layer: 'api', label: 'API', path: plannedApiTarget(stack).path, planned: plan.api.endpoints.length > 0 },
+      { layer: 'database', label: 'database', path: `database/${stack.database.schemaFile}`, planned: plan.database.tables.length > 0 }
+    ];
+
+    const files: GeneratedFile[] = [];
+    for (const { layer, label, path, planned } of layers) {
+      if (!planned) continue;
+      try {
+        files.push({ path, content: `${await generatePlannedLayer(plan, layer, callOptions)}\n` });
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`Planned ${layer} generation failed:`, error);
+        options.onFallback?.(`The planned ${label} was left out: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return files;
+  }
 
-    const prompt = `Create a complete React functional component for: "${idea}"
+  /**
+   * Parse a manifest and, for TypeScript output, run a strict type check so
+   * code that would not compile is never presented
+   */
+  private static async validateAppFiles(
+    text: string,
+    stack: ResolvedStack,
+    options: GenerationOptions = {}
+  ): Promise<FileManifestParseResult> {
+    const result = parseFileManifest(text, stack.frontend.manifest);
+    if (!result.success || stack.language !== 'typescript') {
+      return result;
+    }
 
-Features to implement:
-${features.map(f => `- ${f.name}: ${f.description}`).join('\n')}
+    try {
+      const check = await TypeCheckService.check(result.files);
+      return check.success ? result : { success: false, errors: check.errors };
+    } catch (error) {
+      // A checker that cannot load must not cost the user their app, but they are told it went unchecked
+      console.warn('Type check unavailable, using the files unchecked:', error);
+      options.onFallback?.(`The TypeScript files were not type-checked and may not compile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return result;
+    }
+  }
 
-Requirements:
-- Use React hooks (useState, useEffect)
-- Include Tailwind CSS classes for styling
-- Make it fully functional and interactive
-- Add proper error handling
-- Include loading states where appropriate
-- Make it responsive and modern looking
-- Don't include any imports or exports (they'll be added automatically)
+  /**
+   * Check the files for syntax errors and compile them the way the preview
+   * does, sending what fails back to the model for a bounded number of rounds.
+   * Files that still fail after the last round are returned as they are.
+   */
+  private static async repairAppFiles(
+    idea: string,
+    files: GeneratedFile[],
+    stack: ResolvedStack,
+    options: GenerationOptions = {}
+  ): Promise<GeneratedFile[]> {
+    const maxAttempts = options.maxRepairAttempts ?? MAX_REPAIR_ATTEMPTS;
+    let diagnostics = await this.diagnoseAppFiles(files, stack);
+
+    for (let attempt = 1; diagnostics.length > 0 && attempt <= maxAttempts; attempt++) {
+      options.signal?.throwIfAborted();
+      console.warn(`Generated app has ${diagnostics.length} errors, repair attempt ${attempt}:`, diagnostics);
+
+      const prompt = this.renderPrompt('app-fix', { files, diagnostics }, idea);
+      let error: string | undefined;
+      try {
+        const result = await this.validateAppFiles(await this.callAI(prompt.text, { ...options, onToken: undefined }), stack, options);
+        if (result.success) {
+          files = result.files;
+          files.forEach(file => options.onPrompt?.(file.path, prompt.provenance));
+        } else {
+          error = `The fixed files failed validation: ${result.errors.slice(0, 3).join('; ')}`;
+        }
+      } catch (repairError) {
+        if (options.signal?.aborted) throw repairError;
+        error = repairError instanceof Error ? repairError.message : 'Unknown error';
+      }
 
-Return only the React component code, starting with the function declaration.`;
+      const remaining = error ? diagnostics : await this.diagnoseAppFiles(files, stack);
+      options.onRepair?.({ attempt, maxAttempts, diagnostics, remaining, error });
+      diagnostics = remaining;
+    }
+    return files;
+  }
+
+  /**
+   * Tests for the app seeded from the features' acceptance criteria. Criteria
+   * the model leaves out, or all of them when its tests are unusable, become
+   * to-do tests so none of them is silently dropped.
+   */
+  private static async generateAcceptanceTests(
+    idea: string,
+    features: ParsedFeature[],
+    stack: ResolvedStack,
+    files: GeneratedFile[],
+    options: GenerationOptions = {}
+  ): Promise<GeneratedFile | null> {
+    const tested = featuresWithCriteria(features);
+    if (tested.length === 0) return null;
+
+    const path = stack.frontend.tests.file;
+    const prompt = this.renderPrompt('acceptance-tests', { idea, features: tested, files, stack }, idea);
+    const fallBackToSkeleton = (reason: string): GeneratedFile => {
+      console.warn('Using to-do acceptance tests:', reason);
+      options.onFallback?.(`Acceptance tests were left as to-dos: ${reason}`);
+      return { path, content: acceptanceTestSkeleton(tested, stack) };
+    };
+
+    try {
+      const response = await this.callAI(prompt.text, { ...options, onToken: undefined });
+      const result = parseAcceptanceTests(response, tested);
+      if (!result.success) {
+        return fallBackToSkeleton(result.errors.join('; '));
+      }
+      const typeErrors = await this.checkTestTypes(files, { path, content: result.code }, stack, options);
+      if (typeErrors.length === 0) {
+        options.onPrompt?.(path, prompt.provenance);
+        return { path, content: result.code };
+      }
+
+      // Type errors get one repair round-trip, like the app files
+      console.warn('Acceptance tests failed the type check, requesting a repair:', typeErrors);
+      const repaired = parseAcceptanceTests(await this.callAI([
+        { role: 'user', content: prompt.text },
+        { role: 'assistant', content: response },
+        { role: 'user', content: this.renderPrompt('acceptance-tests-repair', { path, errors: typeErrors }, idea).text }
+      ], { ...options, onToken: undefined }), tested);
+      if (!repaired.success) {
+        return fallBackToSkeleton(repaired.errors.join('; '));
+      }
+      const remaining = await this.checkTestTypes(files, { path, content: repaired.code }, stack, options);
+      if (remaining.length > 0) {
+        return fallBackToSkeleton(`The tests do not type-check after repair: ${remaining.slice(0, 3).join('; ')}`);
+      }
+      options.onPrompt?.(path, prompt.provenance);
+      return { path, content: repaired.code };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('Acceptance test generation error:', error);
+      return fallBackToSkeleton(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Type errors in a TypeScript test file, checked together with the app
+   * files it imports. Errors in the app itself are left to the repair loop.
+   */
+  private static async checkTestTypes(
+    files: GeneratedFile[],
+    test: GeneratedFile,
+    stack: ResolvedStack,
+    options: GenerationOptions = {}
+  ): Promise<string[]> {
+    if (stack.language !== 'typescript') return [];
+
+    try {
+      const check = await TypeCheckService.check([...files, test]);
+      return check.success ? [] : check.errors.filter(error => error.startsWith(`${test.path}(`));
+    } catch (error) {
+      console.warn('Type check unavailable, using the tests unchecked:', error);
+      options.onFallback?.(`The acceptance tests were not type-checked and may not compile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
+  /**
+   * Propose edits to an existing app for a follow-up request instead of
+   * regenerating it. Edits that do not apply get one retry; the code map
+   * itself is left untouched until the user accepts the hunks.
+   */
+  static async generateEdit(
+    idea: string,
+    request: string,
+    code: Record<string, string>,
+    techStack: TechStack,
+    options: GenerationOptions = {}
+  ): Promise<EditProposal> {
+    const stack = this.resolveStack(techStack, options);
+    const rules = stack.frontend.manifest;
+    // Only the files the model wrote; the scaffold is regenerated, not edited
+    const files = Object.entries(code)
+      .filter(([path]) => path.startsWith('src/') && rules.extensions.some(ext => path.endsWith(ext)) && !rules.reserved.includes(path))
+      .map(([path, content]) => ({ path, content }));
+
+    const prompt = this.renderPrompt('app-edit', { request, files, stack }, idea);
+    const response = await this.callAI(prompt.text, options);
+    let result = this.collectHunks(response, code, files, stack);
+
+    if (result.errors.length > 0) {
+      console.warn('Some edits could not be applied, requesting a retry:', result.errors);
+      try {
+        const retry = await this.callAI([
+          { role: 'user', content: prompt.text },
+          { role: 'assistant', content: response },
+          { role: 'user', content: this.renderPrompt('app-edit-repair', { errors: result.errors }, idea).text }
+        ], { ...options, onToken: undefined });
+        const retried = this.collectHunks(retry, result.code, files, stack);
+        result = { code: retried.code, hunks: [...result.hunks, ...retried.hunks], errors: retried.errors };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error('Edit retry error:', error);
+      }
+    }
+
+    options.signal?.throwIfAborted();
+    const hunks = result.hunks.map((hunk, index) => ({ ...hunk, id: `hunk-${index + 1}` }));
+    new Set(hunks.map(hunk => hunk.file)).forEach(file => options.onPrompt?.(file, prompt.provenance));
+    return { hunks, errors: result.errors };
+  }
+
+  /**
+   * Parse an edit response and keep the hunks that apply in order to the
+   * app's files, or that create a new file the manifest rules allow
+   */
+  private static collectHunks(
+    text: string,
+    code: Record<string, string>,
+    files: GeneratedFile[],
+    stack: ResolvedStack
+  ): { code: Record<string, string>; hunks: PatchHunk[]; errors: string[] } {
+    const parsed = parsePatch(text);
+    if (!parsed.success) {
+      return { code, hunks: [], errors: parsed.errors };
+    }
+
+    const editable = new Set(files.map(file => file.path));
+    const pathSchema = createGeneratedFileSchema(stack.frontend.manifest).shape.path;
+    const working = { ...code };
+    const hunks: PatchHunk[] = [];
+    const errors: string[] = [];
+
+    for (const hunk of parsed.hunks) {
+      const creating = hunk.search === '' && !(hunk.file in working);
+      if (creating) {
+        const path = pathSchema.safeParse(hunk.file);
+        if (!path.success) {
+          errors.push(`${hunk.file}: ${path.error.issues[0].message}`);
+          continue;
+        }
+      } else if (!editable.has(hunk.file)) {
+        errors.push(`${hunk.file} is not one of the app's files`);
+        continue;
+      }
+
+      try {
+        working[hunk.file] = applyHunk(working[hunk.file], hunk);
+        editable.add(hunk.file);
+        hunks.push(hunk);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    return { code: working, hunks, errors };
+  }
 
+  /**
+   * Syntax errors in each script, then, once there are none, whatever would
+   * stop the preview from compiling the bundled app
+   */
+  private static async diagnoseAppFiles(files: GeneratedFile[], stack: ResolvedStack): Promise<FileDiagnostic[]> {
     try {
-      const response = await this.callAI(prompt);
+      // Loaded on demand so the compiler stays out of the main bundle
+      const { CodeAnalysisService } = await import('./codeAnalysis');
+      const diagnostics = files
+        .filter(file => /\.[jt]sx?$/.test(file.path))
+        .flatMap(file => CodeAnalysisService.validateCode(file.content, file.path).errors.map(error => ({ ...error, file: file.path })));
+
+      if (diagnostics.length > 0 || !stack.frontend.previewable) {
+        return diagnostics;
+      }
+      return await PreviewService.checkCompilation(Object.fromEntries(files.map(file => [file.path, file.content])));
+    } catch (error) {
+      console.warn('Could not check the generated app:', error);
+      return [];
+    }
+  }
+
+  private static async generateReactApp(idea: string, features: ParsedFeature[], options: GenerationOptions = {}): Promise<string> {
+    const hasAuth = features.some(f => f.name.toLowerCase().includes('auth'));
+    const hasForm = features.some(f => f.name.toLowerCase().includes('form') || f.name.toLowerCase().includes('input'));
+    const hasData = features.some(f => f.name.toLowerCase().includes('data') || f.name.toLowerCase().includes('storage'));
+
+    const prompt = this.renderPrompt('react-app', { idea, features }, idea);
+
+    try {
+      const response = await this.callAI(prompt.text, options);
+      options.onPrompt?.('src/App.js', prompt.provenance);
       
       // Clean up the response to extract just the component code
       let cleanCode = response;
@@ -325,6 +727,7 @@ Return only the React component code, starting with the function declaration.`;
       
       return cleanCode.trim();
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error generating React app:', error);
       return this.generateFallbackApp(idea, features);
     }
@@ -479,6 +882,242 @@ function App() {
 export default App;`;
   }
 
+  /**
+   * Root component used when the model's files are unusable
+   */
+  private static generateFallbackEntry(idea: string, features: ParsedFeature[], stack: ResolvedStack): string {
+    switch (stack.frontend.id) {
+      case 'vue':
+        return this.generateFallbackVueApp(idea);
+      case 'svelte':
+        return this.generateFallbackSvelteApp(idea);
+      default:
+        return stack.language === 'typescript'
+          ? this.generateFallbackTypeScriptApp(idea)
+          : this.generateFallbackApp(idea, features);
+    }
+  }
+
+  private static generateFallbackTypeScriptApp(idea: string): string {
+    return `import React, { useState } from 'react';
+
+interface Item {
+  id: number;
+  title: string;
+  description: string;
+}
+
+type NewItem = Omit<Item, 'id'>;
+
+const SAMPLE_ITEMS: Item[] = [
+  { id: 1, title: 'Sample Item 1', description: 'This is a sample item for your app' },
+  { id: 2, title: 'Sample Item 2', description: 'Another sample item to demonstrate functionality' }
+];
+
+interface ItemCardProps {
+  item: Item;
+  onDelete: (id: number) => void;
+}
+
+function ItemCard({ item, onDelete }: ItemCardProps) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 flex items-start justify-between">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">{item.title}</h3>
+        <p className="text-gray-600">{item.description}</p>
+      </div>
+      <button onClick={() => onDelete(item.id)} className="ml-4 text-red-500 hover:text-red-700">
+        Delete
+      </button>
+    </div>
+  );
+}
+
+function App() {
+  const [items, setItems] = useState<Item[]>(SAMPLE_ITEMS);
+  const [newItem, setNewItem] = useState<NewItem>({ title: '', description: '' });
+
+  const handleAddItem = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newItem.title.trim()) return;
+    setItems(prev => [...prev, { id: Date.now(), ...newItem }]);
+    setNewItem({ title: '', description: '' });
+  };
+
+  const handleDeleteItem = (id: number) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <header className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">${this.generateAppTitle(idea)}</h1>
+          <p className="text-lg text-gray-600">${idea}</p>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-6">Items</h2>
+            {items.length === 0 ? (
+              <p className="text-gray-600 text-center py-12">No items yet. Add your first item using the form.</p>
+            ) : (
+              <div className="space-y-4">
+                {items.map(item => (
+                  <ItemCard key={item.id} item={item} onDelete={handleDeleteItem} />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleAddItem} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">Add New Item</h2>
+            <input
+              value={newItem.title}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewItem(prev => ({ ...prev, title: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Enter item title"
+              required
+            />
+            <textarea
+              value={newItem.description}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewItem(prev => ({ ...prev, description: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Enter item description"
+              rows={3}
+            />
+            <button
+              type="submit"
+              disabled={!newItem.title.trim()}
+              className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Add Item
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default App;`;
+  }
+
+  private static generateFallbackVueApp(idea: string): string {
+    return `<script setup>
+import { ref } from 'vue';
+
+const items = ref([
+  { id: 1, title: 'Sample Item 1', description: 'This is a sample item for your app' },
+  { id: 2, title: 'Sample Item 2', description: 'Another sample item to demonstrate functionality' }
+]);
+const newItem = ref({ title: '', description: '' });
+
+function addItem() {
+  if (!newItem.value.title.trim()) return;
+  items.value.push({ id: Date.now(), ...newItem.value });
+  newItem.value = { title: '', description: '' };
+}
+
+function deleteItem(id) {
+  items.value = items.value.filter(item => item.id !== id);
+}
+</script>
+
+<template>
+  <div class="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+    <div class="container mx-auto px-4 py-8 max-w-4xl">
+      <header class="text-center mb-12">
+        <h1 class="text-4xl font-bold text-gray-900 mb-4">${this.generateAppTitle(idea)}</h1>
+        <p class="text-lg text-gray-600">${idea}</p>
+      </header>
+
+      <div class="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div class="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
+          <h2 class="text-2xl font-semibold text-gray-900 mb-6">Items</h2>
+          <p v-if="items.length === 0" class="text-gray-600 text-center py-12">No items yet. Add your first item using the form.</p>
+          <div v-else class="space-y-4">
+            <div v-for="item in items" :key="item.id" class="bg-gray-50 rounded-lg p-4 border border-gray-200 flex items-start justify-between">
+              <div>
+                <h3 class="text-lg font-semibold text-gray-900 mb-2">{{ item.title }}</h3>
+                <p class="text-gray-600">{{ item.description }}</p>
+              </div>
+              <button class="ml-4 text-red-500 hover:text-red-700" @click="deleteItem(item.id)">Delete</button>
+            </div>
+          </div>
+        </div>
+
+        <form class="bg-white rounded-xl shadow-lg p-6 space-y-4" @submit.prevent="addItem">
+          <h2 class="text-xl font-semibold text-gray-900">Add New Item</h2>
+          <input v-model="newItem.title" class="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Enter item title" required />
+          <textarea v-model="newItem.description" class="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Enter item description" rows="3"></textarea>
+          <button type="submit" class="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700" :disabled="!newItem.title.trim()">Add Item</button>
+        </form>
+      </div>
+    </div>
+  </div>
+</template>`;
+  }
+
+  private static generateFallbackSvelteApp(idea: string): string {
+    return `<script>
+  let items = [
+    { id: 1, title: 'Sample Item 1', description: 'This is a sample item for your app' },
+    { id: 2, title: 'Sample Item 2', description: 'Another sample item to demonstrate functionality' }
+  ];
+  let title = '';
+  let description = '';
+
+  function addItem() {
+    if (!title.trim()) return;
+    items = [...items, { id: Date.now(), title, description }];
+    title = '';
+    description = '';
+  }
+
+  function deleteItem(id) {
+    items = items.filter(item => item.id !== id);
+  }
+</script>
+
+<div class="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+  <div class="container mx-auto px-4 py-8 max-w-4xl">
+    <header class="text-center mb-12">
+      <h1 class="text-4xl font-bold text-gray-900 mb-4">${this.generateAppTitle(idea)}</h1>
+      <p class="text-lg text-gray-600">${idea}</p>
+    </header>
+
+    <div class="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div class="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
+        <h2 class="text-2xl font-semibold text-gray-900 mb-6">Items</h2>
+        {#if items.length === 0}
+          <p class="text-gray-600 text-center py-12">No items yet. Add your first item using the form.</p>
+        {:else}
+          <div class="space-y-4">
+            {#each items as item (item.id)}
+              <div class="bg-gray-50 rounded-lg p-4 border border-gray-200 flex items-start justify-between">
+                <div>
+                  <h3 class="text-lg font-semibold text-gray-900 mb-2">{item.title}</h3>
+                  <p class="text-gray-600">{item.description}</p>
+                </div>
+                <button class="ml-4 text-red-500 hover:text-red-700" on:click={() => deleteItem(item.id)}>Delete</button>
+              </div>
+            {/each}
+          </div>
+        {/if}
+      </div>
+
+      <form class="bg-white rounded-xl shadow-lg p-6 space-y-4" on:submit|preventDefault={addItem}>
+        <h2 class="text-xl font-semibold text-gray-900">Add New Item</h2>
+        <input bind:value={title} class="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Enter item title" required />
+        <textarea bind:value={description} class="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Enter item description" rows="3"></textarea>
+        <button type="submit" class="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700" disabled={!title.trim()}>Add Item</button>
+      </form>
+    </div>
+  </div>
+</div>`;
+  }
+
   private static generateAppTitle(idea: string): string {
     const lowerIdea = idea.toLowerCase();
     if (lowerIdea.includes('expense') || lowerIdea.includes('budget')) return 'Expense Tracker';
@@ -491,13 +1130,96 @@ export default App;`;
     return 'My Application';
   }
 
-  private static generateIndexJs(): string {
+  /**
+   * Files the generator writes itself for the chosen framework: entry point,
+   * HTML page, global styles, package.json and build config
+   */
+  private static generateScaffold(idea: string, stack: ResolvedStack): Record<string, string> {
+    switch (stack.frontend.id) {
+      case 'vue':
+        return {
+          'index.html': this.generateViteIndexHtml(idea),
+          'src/main.js': `import { createApp } from 'vue';
+import './style.css';
+import App from './App.vue';
+
+createApp(App).mount('#root');`,
+          'src/style.css': this.generateIndexCss(),
+          'package.json': this.generateVitePackageJson(idea, { vue: '^3.4.0' }, {
+            '@testing-library/vue': '^8.0.0',
+            '@vitejs/plugin-vue': '^5.0.0'
+          }),
+          'vite.config.js': `import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()],
+  test: {
+    environment: 'jsdom'
+  }
+});`
+        };
+      case 'svelte':
+        return {
+          'index.html': this.generateViteIndexHtml(idea),
+          'src/main.js': `import './app.css';
+import App from './App.svelte';
+
+const app = new App({
+  target: document.getElementById('root')
+});
+
+export default app;`,
+          'src/app.css': this.generateIndexCss(),
+          'package.json': this.generateVitePackageJson(idea, {}, {
+            '@sveltejs/vite-plugin-svelte': '^3.0.0',
+            '@testing-library/svelte': '^4.1.0',
+            'svelte': '^4.2.0'
+          }),
+          'vite.config.js': `import { defineConfig } from 'vite';
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+
+export default defineConfig({
+  plugins: [svelte()],
+  // Svelte components resolve to their browser build when tests run in jsdom
+  resolve: process.env.VITEST ? { conditions: ['browser'] } : undefined,
+  test: {
+    environment: 'jsdom'
+  }
+});`,
+          'svelte.config.js': `import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+export default {
+  preprocess: vitePreprocess()
+};`
+        };
+      default:
+        if (stack.language === 'typescript') {
+          return {
+            'src/index.tsx': this.generateIndexJs(true),
+            'src/index.css': this.generateIndexCss(),
+            'src/react-app-env.d.ts': '/// <reference types="react-scripts" />\n',
+            'public/index.html': this.generateIndexHtml(idea),
+            'package.json': this.generatePackageJson(idea, true),
+            'tsconfig.json': this.generateTsConfig()
+          };
+        }
+        return {
+          'src/index.js': this.generateIndexJs(),
+          'src/index.css': this.generateIndexCss(),
+          'public/index.html': this.generateIndexHtml(idea),
+          'package.json': this.generatePackageJson(idea)
+        };
+    }
+  }
+
+  private static generateIndexJs(typescript = false): string {
     return `import React from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
 
-const container = document.getElementById('root');
+const container = document.getElementById('root')${typescript ? ' as HTMLElement' : ''};
 const root = createRoot(container);
 
 root.render(
@@ -556,7 +1278,7 @@ html, body, #root {
 </html>`;
   }
 
-  private static generatePackageJson(idea: string): string {
+  private static generatePackageJson(idea: string, typescript = false): string {
     const appName = this.generateAppTitle(idea).toLowerCase().replace(/\s+/g, '-');
     
     return `{
@@ -566,9 +1288,17 @@ html, body, #root {
   "dependencies": {
     "react": "^18.2.0",
     "react-dom": "^18.2.0",
-    "react-scripts": "5.0.1",
+    "react-scripts": "5.0.1",${typescript ? `
+    "typescript": "^4.9.5",
+    "@types/react": "^18.2.0",
+    "@types/react-dom": "^18.2.0",
+    "@types/jest": "^29.5.0",` : ''}
     "web-vitals": "^2.1.4"
   },
+  "devDependencies": {
+    "@testing-library/react": "^14.1.0",
+    "@testing-library/user-event": "^14.5.0"
+  },
   "scripts": {
     "start": "react-scripts start",
     "build": "react-scripts build",
@@ -596,8 +1326,71 @@ html, body, #root {
 }`;
   }
 
-  private static generateReadme(idea: string, features: ParsedFeature[]): string {
+  // Matches the options the in-browser check uses, so code that passed it builds
+  private static generateTsConfig(): string {
+    return JSON.stringify({
+      compilerOptions: {
+        ...TypeCheckService.compilerOptions,
+        noEmit: true,
+        target: 'es2020',
+        lib: ['dom', 'dom.iterable', 'es2020'],
+        module: 'esnext',
+        moduleResolution: 'node',
+        jsx: 'react-jsx',
+        allowJs: false,
+        forceConsistentCasingInFileNames: true,
+        types: undefined
+      },
+      include: ['src']
+    }, null, 2);
+  }
+
+  private static generateViteIndexHtml(idea: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="description" content="${idea}" />
+    <title>${this.generateAppTitle(idea)}</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.js"></script>
+  </body>
+</html>`;
+  }
+
+  private static generateVitePackageJson(
+    idea: string,
+    dependencies: Record<string, string>,
+    devDependencies: Record<string, string>
+  ): string {
+    const appName = this.generateAppTitle(idea).toLowerCase().replace(/\s+/g, '-');
+
+    return JSON.stringify({
+      name: appName,
+      version: '0.1.0',
+      private: true,
+      type: 'module',
+      scripts: {
+        dev: 'vite',
+        build: 'vite build',
+        preview: 'vite preview',
+        test: 'vitest run'
+      },
+      dependencies,
+      devDependencies: { ...devDependencies, vite: '^5.0.0', vitest: '^1.2.0', jsdom: '^24.0.0' }
+    }, null, 2);
+  }
+
+  private static generateReadme(idea: string, features: ParsedFeature[], stack: ResolvedStack, appFiles: GeneratedFile[]): string {
     const title = this.generateAppTitle(idea);
+    const isReact = stack.frontend.id === 'react';
+    const port = isReact ? 3000 : 5173;
+    const files = [...appFiles.map(file => file.path), ...Object.keys(this.generateScaffold(idea, stack))].sort();
+    const tested = featuresWithCriteria(features);
     
     return `# ${title}
 
@@ -606,7 +1399,15 @@ ${idea}
 ## Features
 
 ${features.map(f => `- **${f.name}**: ${f.description}`).join('\n')}
+${tested.length > 0 ? `
+## Acceptance Criteria
 
+Each criterion is a test in \`${stack.frontend.tests.file}\`; run them with \`npm test\`.
+
+${tested.map(f => `### ${f.name}
+
+${(f.userStories || []).map(story => `> ${story}`).join('\n>\n')}${f.userStories?.length ? '\n\n' : ''}${f.acceptanceCriteria!.map(criterion => `- [ ] ${criterion}`).join('\n')}`).join('\n\n')}
+` : ''}
 ## Getting Started
 
 1. Install dependencies:
@@ -616,33 +1417,34 @@ ${features.map(f => `- **${f.name}**: ${f.description}`).join('\n')}
 
 2. Start the development server:
    \`\`\`bash
-   npm start
+   ${stack.frontend.devCommand}
    \`\`\`
 
-3. Open [http://localhost:3000](http://localhost:3000) to view it in the browser.
+3. Open [http://localhost:${port}](http://localhost:${port}) to view it in the browser.
 
 ## Available Scripts
 
-- \`npm start\` - Runs the app in development mode
+${isReact ? `- \`npm start\` - Runs the app in development mode
 - \`npm test\` - Launches the test runner
 - \`npm run build\` - Builds the app for production
-- \`npm run eject\` - Ejects from Create React App (one-way operation)
+- \`npm run eject\` - Ejects from Create React App (one-way operation)` : `- \`npm run dev\` - Runs the app in development mode
+- \`npm run build\` - Builds the app for production into \`${stack.frontend.buildDir}/\`
+- \`npm run preview\` - Serves the production build locally
+- \`npm test\` - Runs the tests once with Vitest`}
 
 ## Technology Stack
 
-- **Frontend**: React 18 with Hooks
+- **Frontend**: ${isReact ? `React 18 with Hooks${stack.language === 'typescript' ? ' and TypeScript (strict)' : ''}` : stack.frontend.id === 'vue' ? 'Vue 3 with the Composition API' : 'Svelte 4'}
 - **Styling**: Tailwind CSS
-- **Build Tool**: Create React App
+- **Build Tool**: ${isReact ? 'Create React App' : 'Vite'}
+- **Backend**: ${stack.backend.name}
+- **Database**: ${stack.database.name}
+- **Deployment**: ${stack.deployment}
 
 ## Project Structure
 
 \`\`\`
-src/
-  ├── App.js          # Main application component
-  ├── index.js        # Application entry point
-  └── index.css       # Global styles
-public/
-  └── index.html      # HTML template
+${files.join('\n')}
 \`\`\`
 
 ## Contributing
@@ -658,24 +1460,27 @@ This project is open source and available under the [MIT License](LICENSE).
 `;
   }
 
-  private static generateEnvExample(): string {
+  private static generateEnvExample(stack: ResolvedStack): string {
+    // Create React App and Vite only expose variables with their own prefix
+    const prefix = stack.frontend.id === 'react' ? 'REACT_APP_' : 'VITE_';
+
     return `# Environment Variables
 # Copy this file to .env and fill in your values
 
 # API Configuration
-REACT_APP_API_URL=http://localhost:3001
+${prefix}API_URL=http://localhost:${stack.backend.port}
 
 # Feature Flags
-REACT_APP_ENABLE_ANALYTICS=false
-REACT_APP_ENABLE_DEBUG=true
+${prefix}ENABLE_ANALYTICS=false
+${prefix}ENABLE_DEBUG=true
 
 # Third-party Services
-# REACT_APP_GOOGLE_ANALYTICS_ID=your-ga-id
-# REACT_APP_STRIPE_PUBLIC_KEY=your-stripe-key
+# ${prefix}GOOGLE_ANALYTICS_ID=your-ga-id
+# ${prefix}STRIPE_PUBLIC_KEY=your-stripe-key
 `;
   }
 
-  private static generateGitignore(): string {
+  private static generateGitignore(stack: ResolvedStack): string {
     return `# Dependencies
 /node_modules
 /.pnp
@@ -685,7 +1490,7 @@ REACT_APP_ENABLE_DEBUG=true
 /coverage
 
 # Production
-/build
+/${stack.frontend.buildDir}
 
 # Misc
 .DS_Store
@@ -711,84 +1516,138 @@ Thumbs.db
   }
 
   // Additional methods for other code generation
-  static async generateFrontendCode(idea: string, features: ParsedFeature[], techStack: TechStack): Promise<string> {
-    return await this.generateReactApp(idea, features);
-  }
-
-  static async generateBackendCode(idea: string, features: ParsedFeature[], techStack: TechStack): Promise<string> {
-    const prompt = `Create a Node.js Express backend for: "${idea}"
-
-Features: ${features.map(f => f.name).join(', ')}
+  static async generateFrontendCode(idea: string, features: ParsedFeature[], techStack: TechStack, options: GenerationOptions = {}): Promise<string> {
+    this.assertCompatibleStack(techStack);
+    const stack = this.resolveStack(techStack, options);
+    if (stack.frontend.id === 'react' && stack.language === 'javascript' && !options.plan?.components.length) {
+      return await this.generateReactApp(idea, features, options);
+    }
 
-Include:
-- Express server setup
-- API routes
-- Middleware
-- Error handling
-- CORS configuration
+    // Other frameworks and planned components need several files; join them with path headers for display
+    const files = await this.generateAppFiles(idea, features, stack, options);
+    return files.map(file => `// ${file.path}\n${file.content}`).join('\n');
+  }
 
-Return complete server code.`;
+  static async generateBackendCode(idea: string, features: ParsedFeature[], techStack: TechStack, options: GenerationOptions = {}): Promise<string> {
+    this.assertCompatibleStack(techStack);
+    const stack = this.resolveStack(techStack, options);
+    const prompt = this.renderPrompt('backend', { idea, features, stack }, idea);
 
     try {
-      const response = await this.callAI(prompt);
+      const response = await this.callAI(prompt.text, options);
+      options.onPrompt?.('backend', prompt.provenance);
       return response;
     } catch (error) {
-      return this.generateFallbackBackend();
+      if (options.signal?.aborted) throw error;
+      return this.generateFallbackBackend(stack);
     }
   }
 
-  static async generateDatabaseSchema(idea: string, features: ParsedFeature[], techStack: TechStack): Promise<string> {
-    const prompt = `Create a database schema for: "${idea}"
-
-Features: ${features.map(f => f.name).join(', ')}
-
-Return SQL CREATE TABLE statements with proper relationships and indexes.`;
+  static async generateDatabaseSchema(idea: string, features: ParsedFeature[], techStack: TechStack, options: GenerationOptions = {}): Promise<string> {
+    this.assertCompatibleStack(techStack);
+    const stack = this.resolveStack(techStack, options);
+    const prompt = this.renderPrompt('database-schema', { idea, features, stack }, idea);
 
     try {
-      const response = await this.callAI(prompt);
+      const response = await this.callAI(prompt.text, options);
+      options.onPrompt?.('database', prompt.provenance);
       return response;
     } catch (error) {
-      return this.generateFallbackDatabase();
+      if (options.signal?.aborted) throw error;
+      return this.generateFallbackDatabase(stack);
     }
   }
 
   static async generateDeploymentConfig(idea: string, features: ParsedFeature[], techStack: TechStack): Promise<string> {
+    const stack = resolveStack(techStack);
+    const { frontend, backend } = stack;
+    const isNode = backend.language === 'JavaScript';
+
     return `# Deployment Configuration
 
-## Vercel Deployment
+## Frontend (${frontend.name}) on ${stack.deployment}
 
-1. Install Vercel CLI:
-   \`\`\`bash
-   npm i -g vercel
-   \`\`\`
+${this.generatePlatformSteps(stack.deployment, frontend.buildDir)}
 
-2. Deploy:
-   \`\`\`bash
-   vercel
-   \`\`\`
-
-## Docker Deployment
+## Backend (${backend.name}) with Docker
 
 \`\`\`dockerfile
-FROM node:18-alpine
+FROM ${backend.dockerImage}
 WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
+${isNode ? `COPY package*.json ./
+RUN npm ci --omit=dev` : `COPY requirements.txt ./
+RUN pip install --no-cache-dir -r requirements.txt`}
 COPY . .
-RUN npm run build
-EXPOSE 3000
-CMD ["npm", "start"]
+EXPOSE ${backend.port}
+CMD ${JSON.stringify(backend.startCommand.split(' '))}
 \`\`\`
 
 ## Environment Variables
 
 Set these in your deployment platform:
-- NODE_ENV=production
+- ${isNode ? 'NODE_ENV=production' : 'FLASK_ENV=production'}
+- PORT=${backend.port}
+- DATABASE_URL for your ${stack.database.name} database
 - Any API keys or configuration values
 `;
   }
 
-  private static generateFallbackBackend(): string {
+  private static generatePlatformSteps(platform: string, buildDir: string): string {
+    switch (platform.toLowerCase()) {
+      case 'netlify':
+        return `1. Install Netlify CLI:
+   \`\`\`bash
+   npm i -g netlify-cli
+   \`\`\`
+
+2. Build and deploy:
+   \`\`\`bash
+   npm run build
+   netlify deploy --prod --dir=${buildDir}
+   \`\`\``;
+      case 'aws':
+        return `1. Build the app:
+   \`\`\`bash
+   npm run build
+   \`\`\`
+
+2. Upload the build to an S3 bucket configured for static hosting:
+   \`\`\`bash
+   aws s3 sync ${buildDir}/ s3://your-bucket-name --delete
+   \`\`\``;
+      case 'heroku':
+        return `1. Create the app and deploy:
+   \`\`\`bash
+   heroku create
+   git push heroku main
+   \`\`\`
+
+2. Serve \`${buildDir}/\` with a static buildpack or from the backend.`;
+      default:
+        return `1. Install Vercel CLI:
+   \`\`\`bash
+   npm i -g vercel
+   \`\`\`
+
+2. Deploy (Vercel serves \`${buildDir}/\` after running \`npm run build\`):
+   \`\`\`bash
+   vercel
+   \`\`\``;
+    }
+  }
+
+  private static generateFallbackBackend(stack: ResolvedStack): string {
+    switch (stack.backend.id) {
+      case 'fastify':
+        return this.generateFallbackFastify();
+      case 'flask':
+        return this.generateFallbackFlask();
+      default:
+        return this.generateFallbackExpress();
+    }
+  }
+
+  private static generateFallbackExpress(): string {
     return `const express = require('express');
 const cors = require('cors');
 const app = express();
@@ -825,8 +1684,150 @@ app.listen(PORT, () => {
 });`;
   }
 
-  private static generateFallbackDatabase(): string {
-    return `-- Database Schema
+  private static generateFallbackFastify(): string {
+    return `const fastify = require('fastify')({ logger: true });
+const cors = require('@fastify/cors');
+const PORT = process.env.PORT || 3001;
+
+fastify.register(cors);
+
+const itemSchema = {
+  type: 'object',
+  required: ['title'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string' }
+  }
+};
+
+// Routes
+fastify.get('/api/health', async () => {
+  return { status: 'OK', timestamp: new Date().toISOString() };
+});
+
+fastify.get('/api/items', async () => {
+  return [
+    { id: 1, title: 'Sample Item 1', description: 'This is a sample item' },
+    { id: 2, title: 'Sample Item 2', description: 'Another sample item' }
+  ];
+});
+
+fastify.post('/api/items', { schema: { body: itemSchema } }, async (request, reply) => {
+  const { title, description } = request.body;
+  reply.code(201);
+  return {
+    id: Date.now(),
+    title,
+    description,
+    createdAt: new Date().toISOString()
+  };
+});
+
+fastify.listen({ port: PORT, host: '0.0.0.0' }).catch(error => {
+  fastify.log.error(error);
+  process.exit(1);
+});`;
+  }
+
+  private static generateFallbackFlask(): string {
+    return `# requirements.txt: flask, flask-cors, gunicorn
+from datetime import datetime, timezone
+import os
+import time
+
+from flask import Flask, jsonify, request
+from flask_cors import CORS
+
+app = Flask(__name__)
+CORS(app)
+
+
+@app.get('/api/health')
+def health():
+    return jsonify(status='OK', timestamp=datetime.now(timezone.utc).isoformat())
+
+
+@app.get('/api/items')
+def list_items():
+    return jsonify([
+        {'id': 1, 'title': 'Sample Item 1', 'description': 'This is a sample item'},
+        {'id': 2, 'title': 'Sample Item 2', 'description': 'Another sample item'},
+    ])
+
+
+@app.post('/api/items')
+def create_item():
+    data = request.get_json(silent=True) or {}
+    if not data.get('title'):
+        return jsonify(error='title is required'), 400
+    item = {
+        'id': int(time.time() * 1000),
+        'title': data['title'],
+        'description': data.get('description', ''),
+        'createdAt': datetime.now(timezone.utc).isoformat(),
+    }
+    return jsonify(item), 201
+
+
+if __name__ == '__main__':
+    app.run(port=int(os.environ.get('PORT', 5000)))`;
+  }
+
+  private static generateFallbackDatabase(stack: ResolvedStack): string {
+    switch (stack.database.id) {
+      case 'mysql':
+        return `-- Database Schema (MySQL)
+
+CREATE TABLE items (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_items_created_at (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Sample data
+INSERT INTO items (title, description) VALUES
+('Sample Item 1', 'This is a sample item'),
+('Sample Item 2', 'Another sample item');`;
+      case 'sqlite':
+        return `-- Database Schema (SQLite)
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE items (
+  id INTEGER PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+);
+
+CREATE INDEX idx_items_created_at ON items(created_at);
+
+-- Sample data
+INSERT INTO items (title, description) VALUES
+('Sample Item 1', 'This is a sample item'),
+('Sample Item 2', 'Another sample item');`;
+      case 'mongodb':
+        return `// Database models (MongoDB with Mongoose)
+const mongoose = require('mongoose');
+
+const itemSchema = new mongoose.Schema(
+  {
+    title: { type: String, required: true, trim: true, maxlength: 255 },
+    description: { type: String, default: '' }
+  },
+  { timestamps: true }
+);
+
+itemSchema.index({ createdAt: -1 });
+
+const Item = mongoose.model('Item', itemSchema);
+
+module.exports = { Item };`;
+      default:
+        return `-- Database Schema
 
 CREATE TABLE items (
   id SERIAL PRIMARY KEY,
@@ -842,5 +1843,6 @@ CREATE INDEX idx_items_created_at ON items(created_at);
 INSERT INTO items (title, description) VALUES
 ('Sample Item 1', 'This is a sample item'),
 ('Sample Item 2', 'Another sample item');`;
+    }
   }
 }
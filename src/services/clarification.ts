@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import type { LLMResponseFormat } from './llmProviders';
+import type { ProjectConstraints, ProjectContext } from './enhancedAI';
+import { extractJson } from './featureSchema';
+
+export type ClarifyingTopic = 'audience' | 'entities' | 'auth' | 'platform' | 'scope' | 'other';
+
+export interface ClarifyingQuestion {
+  id: string;
+  topic: ClarifyingTopic;
+  question: string;
+  // Short answers the user can pick instead of typing
+  suggestions: string[];
+}
+
+export interface ClarifyingAnswer {
+  topic: ClarifyingTopic;
+  question: string;
+  answer: string;
+}
+
+export type ClarifyingQuestionsResult =
+  | { success: true; questions: ClarifyingQuestion[] }
+  | { success: false; errors: string[] };
+
+// What ProjectContext learns from the answers; constraints merge into the current ones
+export type ProjectContextUpdate = Partial<Omit<ProjectContext, 'constraints'>> & {
+  constraints?: Partial<ProjectConstraints>;
+};
+
+export const MIN_QUESTIONS = 3;
+export const MAX_QUESTIONS = 5;
+
+const TOPICS: ClarifyingTopic[] = ['audience', 'entities', 'auth', 'platform', 'scope', 'other'];
+
+const TOPIC_LABELS: Record<ClarifyingTopic, string> = {
+  audience: 'Audience',
+  entities: 'Main data',
+  auth: 'Sign-in',
+  platform: 'Platform',
+  scope: 'Must have',
+  other: 'Details'
+};
+
+const ClarifyingResponseSchema = z.object({
+  questions: z.array(z.object({
+    topic: z.enum(['audience', 'entities', 'auth', 'platform', 'scope', 'other']),
+    question: z.string().min(1),
+    suggestions: z.array(z.string()).default([])
+  })).min(MIN_QUESTIONS)
+});
+
+export const CLARIFYING_RESPONSE_FORMAT: LLMResponseFormat = {
+  type: 'json',
+  name: 'ask_questions',
+  description: 'Ask the user questions that make the app idea specific enough to build',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string', enum: TOPICS },
+            question: { type: 'string' },
+            suggestions: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['topic', 'question', 'suggestions']
+        }
+      }
+    },
+    required: ['questions']
+  }
+};
+
+/**
+ * Validate a clarify-idea response. Extra questions beyond the maximum are
+ * dropped rather than rejected.
+ */
+export function parseClarifyingQuestions(text: string): ClarifyingQuestionsResult {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse'}`] };
+  }
+
+  const result = ClarifyingResponseSchema.safeParse(Array.isArray(json) ? { questions: json } : json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  return {
+    success: true,
+    questions: result.data.questions.slice(0, MAX_QUESTIONS).map((question, index) => ({
+      id: `question-${index + 1}`,
+      topic: question.topic,
+      question: question.question.trim(),
+      suggestions: question.suggestions.map(suggestion => suggestion.trim()).filter(Boolean).slice(0, 4)
+    }))
+  };
+}
+
+// Topics an idea already answers, so the fallback does not ask about them
+const TOPIC_HINTS: [ClarifyingTopic, RegExp][] = [
+  ['audience', /\b(users?|customers?|clients?|students?|teachers?|teams?|members?|employees?|patients?|famil(y|ies)|kids|myself)\b/],
+  ['auth', /\b(auth\w*|log\s?in|sign[\s-]?(in|up)|accounts?|passwords?|roles?|private)\b/],
+  ['platform', /\b(mobile|desktop|tablet|phones?|ios|android|pwa|offline)\b/]
+];
+
+const FALLBACK_QUESTIONS: Record<Exclude<ClarifyingTopic, 'other'>, Omit<ClarifyingQuestion, 'id'>> = {
+  audience: {
+    topic: 'audience',
+    question: 'Who will use the app?',
+    suggestions: ['Just me', 'A small team', 'The general public']
+  },
+  entities: {
+    topic: 'entities',
+    question: 'What are the main things the app keeps track of?',
+    suggestions: []
+  },
+  auth: {
+    topic: 'auth',
+    question: 'Do people need to sign in, and are there different roles?',
+    suggestions: ['No sign-in', 'Everyone signs in', 'Admins and regular users']
+  },
+  platform: {
+    topic: 'platform',
+    question: 'Where will it mostly be used?',
+    suggestions: ['Desktop browser', 'Phone browser', 'Both']
+  },
+  scope: {
+    topic: 'scope',
+    question: 'What is the one thing the first version must do well?',
+    suggestions: []
+  }
+};
+
+/**
+ * Questions asked without a model: one for each topic the idea leaves open,
+ * topped up to the minimum with the rest
+ */
+export function fallbackQuestions(idea: string): ClarifyingQuestion[] {
+  const lowerIdea = idea.toLowerCase();
+  const covered = new Set(TOPIC_HINTS.filter(([, pattern]) => pattern.test(lowerIdea)).map(([topic]) => topic));
+  const order: Exclude<ClarifyingTopic, 'other'>[] = ['audience', 'entities', 'auth', 'platform', 'scope'];
+
+  const open = order.filter(topic => !covered.has(topic));
+  const topics = [...open, ...order.filter(topic => covered.has(topic))].slice(0, Math.max(open.length, MIN_QUESTIONS));
+  return order
+    .filter(topic => topics.includes(topic))
+    .map((topic, index) => ({ id: `question-${index + 1}`, ...FALLBACK_QUESTIONS[topic] }));
+}
+
+/**
+ * The idea with the answers appended, so feature parsing sees them
+ */
+export function foldAnswersIntoIdea(idea: string, answers: ClarifyingAnswer[]): string {
+  const lines = answers
+    .filter(answer => answer.answer.trim())
+    .map(answer => `- ${TOPIC_LABELS[answer.topic]}: ${answer.answer.trim()}`);
+  return lines.length > 0 ? `${idea.trim()}\n\nDetails:\n${lines.join('\n')}` : idea;
+}
+
+function answerFor(answers: ClarifyingAnswer[], topic: ClarifyingTopic): string | undefined {
+  return answers.find(answer => answer.topic === topic && answer.answer.trim())?.answer.trim();
+}
+
+/**
+ * What the answers say about the project, for the conversation context
+ */
+export function buildProjectContext(idea: string, answers: ClarifyingAnswer[]): ProjectContextUpdate {
+  const entities = answerFor(answers, 'entities');
+  const auth = answerFor(answers, 'auth')?.toLowerCase();
+
+  return {
+    name: idea.trim().slice(0, 80),
+    description: foldAnswersIntoIdea(idea, answers),
+    audience: answerFor(answers, 'audience'),
+    platform: answerFor(answers, 'platform'),
+    ...(entities ? { features: entities.split(/\s*(?:,|;|\band\b)\s*/).filter(Boolean) } : {}),
+    ...(auth ? {
+      constraints: {
+        security: /\b(no|none|not needed|without)\b/.test(auth)
+          ? 'basic'
+          : /\b(roles?|admins?|permissions?|private|sensitive)\b/.test(auth) ? 'high' : 'standard'
+      }
+    } : {})
+  };
+}
@@ -1,3 +1,5 @@
+import { detectDomain, matchFeatureRules } from './featureRules';
+
 export interface CleanCodeOptions {
   removeComments: boolean;
   removeExplanations: boolean;
@@ -13,10 +15,11 @@ export class CleanCodeGenerator {
     productionReady: true
   }): string {
     
-    const hasAuth = features.some(f => f.toLowerCase().includes('auth'));
-    const hasForm = features.some(f => f.toLowerCase().includes('form') || f.toLowerCase().includes('input'));
-    const hasNavigation = features.some(f => f.toLowerCase().includes('nav') || f.toLowerCase().includes('route'));
-    const hasData = features.some(f => f.toLowerCase().includes('data') || f.toLowerCase().includes('list'));
+    const matched = this.matchFeatures(features);
+    const hasAuth = matched.has('user-auth');
+    const hasForm = matched.has('form-handling');
+    const hasNavigation = matched.has('navigation');
+    const hasData = matched.has('data-storage') || matched.has('item-list');
 
     let imports = ['React', 'useState'];
     if (hasData) imports.push('useEffect');
@@ -193,9 +196,10 @@ export default App;`;
   }
 
   static generateBackendCode(idea: string, features: string[]): string {
-    const hasAuth = features.some(f => f.toLowerCase().includes('auth'));
-    const hasAPI = features.some(f => f.toLowerCase().includes('api') || f.toLowerCase().includes('data'));
-    const hasDatabase = features.some(f => f.toLowerCase().includes('database') || f.toLowerCase().includes('storage'));
+    const matched = this.matchFeatures(features);
+    const hasAuth = matched.has('user-auth');
+    const hasAPI = matched.has('rest-api') || matched.has('data-storage');
+    const hasDatabase = matched.has('data-storage');
 
     return `const express = require('express');
 const cors = require('cors');
@@ -331,9 +335,10 @@ app.listen(PORT, () => {
   }
 
   static generateDatabaseSchema(features: string[]): string {
-    const hasAuth = features.some(f => f.toLowerCase().includes('auth'));
-    const hasItems = features.some(f => f.toLowerCase().includes('item') || f.toLowerCase().includes('post') || f.toLowerCase().includes('product'));
-    const hasComments = features.some(f => f.toLowerCase().includes('comment'));
+    const matched = this.matchFeatures(features);
+    const hasAuth = matched.has('user-auth');
+    const hasItems = ['item-list', 'blog-posts', 'product-catalog'].some(id => matched.has(id));
+    const hasComments = matched.has('comments');
 
     let schema = '';
 
@@ -392,12 +397,12 @@ ${hasAuth ? 'CREATE INDEX idx_comments_user_id ON comments(user_id);' : ''}
   }
 
   private static generateTitle(idea: string): string {
-    if (idea.toLowerCase().includes('social')) return 'Social Platform';
-    if (idea.toLowerCase().includes('ecommerce') || idea.toLowerCase().includes('store')) return 'Online Store';
-    if (idea.toLowerCase().includes('blog')) return 'Blog Platform';
-    if (idea.toLowerCase().includes('task') || idea.toLowerCase().includes('todo')) return 'Task Manager';
-    if (idea.toLowerCase().includes('chat')) return 'Chat Application';
-    return 'My Application';
+    return detectDomain(idea)?.name || 'My Application';
+  }
+
+  // Ids of the rules in rules/features that each feature name matches
+  private static matchFeatures(features: string[]): Set<string> {
+    return new Set(features.flatMap(feature => Array.from(matchFeatureRules(feature))));
   }
 
   private static removeComments(code: string): string {
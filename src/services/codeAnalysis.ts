@@ -14,7 +14,9 @@ export class CodeAnalysisService {
       code,
       ts.ScriptTarget.Latest,
       true,
-      fileName.endsWith('.tsx') || fileName.endsWith('.jsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+      fileName.endsWith('.tsx') || fileName.endsWith('.jsx')
+        ? ts.ScriptKind.TSX
+        : fileName.endsWith('.js') ? ts.ScriptKind.JS : ts.ScriptKind.TS
     );
     return this.sourceFile;
   }
@@ -70,10 +72,11 @@ export class CodeAnalysisService {
   }
 
   /**
-   * Validate code syntax and semantics
+   * Validate code syntax and semantics. The file name picks the parser, so
+   * JSX in a .js file is accepted.
    */
-  static validateCode(code: string): ValidationResult {
-    const sourceFile = this.parseCode(code);
+  static validateCode(code: string, fileName?: string): ValidationResult {
+    const sourceFile = this.parseCode(code, fileName);
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
     const suggestions: string[] = [];
@@ -94,7 +97,7 @@ export class CodeAnalysisService {
     });
 
     // Semantic validation
-    this.validateSemantics(sourceFile, warnings, suggestions);
+    this.validateSemantics(sourceFile, errors, warnings, suggestions);
 
     // Best practices validation
     this.validateBestPractices(sourceFile, warnings, suggestions);
@@ -287,8 +290,43 @@ export class CodeAnalysisService {
     return complexity;
   }
 
-  private static validateSemantics(sourceFile: ts.SourceFile, warnings: ValidationWarning[], suggestions: string[]): void {
-    // Implementation for semantic validation
+  private static validateSemantics(
+    sourceFile: ts.SourceFile,
+    errors: ValidationError[],
+    warnings: ValidationWarning[],
+    suggestions: string[]
+  ): void {
+    // Top-level names declared twice; browsers and Babel reject the whole script
+    const declared = new Map<string, number>();
+    const declare = (name: ts.Identifier | undefined, redeclarable: boolean) => {
+      if (!name) return;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(name.getStart(sourceFile));
+      const previous = declared.get(name.text);
+      if (previous !== undefined && !redeclarable) {
+        errors.push({
+          line: line + 1,
+          column: character + 1,
+          message: `Identifier '${name.text}' has already been declared on line ${previous}`,
+          type: 'semantic',
+          severity: 'error'
+        });
+      } else if (previous === undefined) {
+        declared.set(name.text, line + 1);
+      }
+    };
+
+    sourceFile.statements.forEach(statement => {
+      if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+        declare(statement.name, false);
+      } else if (ts.isVariableStatement(statement)) {
+        const redeclarable = !(statement.declarationList.flags & ts.NodeFlags.BlockScoped);
+        statement.declarationList.declarations.forEach(declaration => {
+          if (ts.isIdentifier(declaration.name)) {
+            declare(declaration.name, redeclarable);
+          }
+        });
+      }
+    });
   }
 
   private static validateBestPractices(sourceFile: ts.SourceFile, warnings: ValidationWarning[], suggestions: string[]): void {
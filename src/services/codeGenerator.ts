@@ -1,11 +1,11 @@
 import { ComponentSpec, APISpec, DatabaseSpec, GeneratedComponent, GeneratedAPI, GeneratedSchema, ValidationResult, OptimizedCode, Suggestion } from '../types/codeGeneration';
 import { CodeAnalysisService } from './codeAnalysis';
-import { EnhancedAIService } from './enhancedAI';
+import { EnhancedAIService, ModelCallOptions } from './enhancedAI';
 
 export interface CodeGenerator {
-  generateComponent(spec: ComponentSpec): Promise<GeneratedComponent>;
-  generateAPI(spec: APISpec): Promise<GeneratedAPI>;
-  generateDatabase(spec: DatabaseSpec): Promise<GeneratedSchema>;
+  generateComponent(spec: ComponentSpec, options?: ModelCallOptions): Promise<GeneratedComponent>;
+  generateAPI(spec: APISpec, options?: ModelCallOptions): Promise<GeneratedAPI>;
+  generateDatabase(spec: DatabaseSpec, options?: ModelCallOptions): Promise<GeneratedSchema>;
 }
 
 export interface CodeValidator {
@@ -22,6 +22,8 @@ export class ModularCodeGenerator implements CodeGenerator {
   private constructor() {
     this.aiService = EnhancedAIService;
     this.analysisService = CodeAnalysisService;
+    // Registers the per-task presets each kind of spec is generated with
+    this.aiService.initialize();
   }
 
   static getInstance(): ModularCodeGenerator {
@@ -34,10 +36,10 @@ export class ModularCodeGenerator implements CodeGenerator {
   /**
    * Generate React component with advanced features
    */
-  async generateComponent(spec: ComponentSpec): Promise<GeneratedComponent> {
+  async generateComponent(spec: ComponentSpec, options: ModelCallOptions = {}): Promise<GeneratedComponent> {
     try {
       // Generate base component using AI
-      const baseComponent = await this.aiService.generateComponent(spec);
+      const baseComponent = await this.aiService.generateComponent(spec, undefined, options);
       
       // Enhance with performance optimizations
       const optimizedCode = await this.optimizeComponentCode(baseComponent.code, spec);
@@ -66,6 +68,7 @@ export class ModularCodeGenerator implements CodeGenerator {
         accessibility
       };
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Component generation error:', error);
       throw new Error(`Failed to generate component: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -74,10 +77,10 @@ export class ModularCodeGenerator implements CodeGenerator {
   /**
    * Generate API with security and validation
    */
-  async generateAPI(spec: APISpec): Promise<GeneratedAPI> {
+  async generateAPI(spec: APISpec, options: ModelCallOptions = {}): Promise<GeneratedAPI> {
     try {
       // Generate base API using AI
-      const baseAPI = await this.aiService.generateAPI(spec);
+      const baseAPI = await this.aiService.generateAPI(spec, undefined, options);
       
       // Add security middleware
       const secureCode = await this.addSecurityMiddleware(baseAPI.code, spec.authentication);
@@ -109,6 +112,7 @@ export class ModularCodeGenerator implements CodeGenerator {
         security
       };
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('API generation error:', error);
       throw new Error(`Failed to generate API: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -117,10 +121,10 @@ export class ModularCodeGenerator implements CodeGenerator {
   /**
    * Generate database schema with optimization
    */
-  async generateDatabase(spec: DatabaseSpec): Promise<GeneratedSchema> {
+  async generateDatabase(spec: DatabaseSpec, options: ModelCallOptions = {}): Promise<GeneratedSchema> {
     try {
       // Generate base schema using AI
-      const baseSchema = await this.aiService.generateDatabase(spec);
+      const baseSchema = await this.aiService.generateDatabase(spec, undefined, options);
       
       // Optimize schema design
       const optimizedMigrations = await this.optimizeDatabaseSchema(baseSchema.migrations, spec);
@@ -145,6 +149,7 @@ export class ModularCodeGenerator implements CodeGenerator {
         performance
       };
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Database generation error:', error);
       throw new Error(`Failed to generate database: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
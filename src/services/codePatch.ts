@@ -0,0 +1,271 @@
+/**
+ * One targeted change to one file: the exact text to find and what replaces
+ * it. An empty search creates the file.
+ */
+export interface PatchHunk {
+  id: string;
+  file: string;
+  search: string;
+  replace: string;
+}
+
+export interface DiffLine {
+  type: 'context' | 'removed' | 'added';
+  text: string;
+}
+
+export type PatchParseResult =
+  | { success: true; hunks: PatchHunk[] }
+  | { success: false; errors: string[] };
+
+export interface PatchApplyResult {
+  code: Record<string, string>;
+  applied: PatchHunk[];
+  failed: { hunk: PatchHunk; error: string }[];
+}
+
+const EDIT_HEADER = /^-{3,}\s*EDIT:\s*(\S+)\s*-{3,}\s*$/;
+const EDIT_FOOTER = /^-{3,}\s*END EDIT\s*-{3,}\s*$/;
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+
+const DIFF_OLD_FILE = /^---\s+(\S+)/;
+const DIFF_NEW_FILE = /^\+\+\+\s+(\S+)/;
+const DIFF_HUNK = /^@@\s+-\d+(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@/;
+
+// Strip the a/ and b/ prefixes git puts on diff paths
+function diffPath(path: string): string {
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Read `--- EDIT: <path> ---` sections, each holding one or more
+ * SEARCH/REPLACE blocks, up to `--- END EDIT ---`
+ */
+function parseSearchReplace(lines: string[], hunks: Omit<PatchHunk, 'id'>[], errors: string[]): void {
+  let file: string | null = null;
+  let block: { search: string[]; replace: string[]; part: 'search' | 'replace' } | null = null;
+
+  for (const line of lines) {
+    const header = line.match(EDIT_HEADER);
+    if (header) {
+      if (block) errors.push(`${file}: SEARCH block is missing ">>>>>>> REPLACE"`);
+      file = header[1];
+      block = null;
+    } else if (EDIT_FOOTER.test(line)) {
+      if (block) errors.push(`${file}: SEARCH block is missing ">>>>>>> REPLACE"`);
+      file = null;
+      block = null;
+    } else if (!file) {
+      continue;
+    } else if (SEARCH_MARKER.test(line)) {
+      block = { search: [], replace: [], part: 'search' };
+    } else if (block && block.part === 'search' && DIVIDER_MARKER.test(line)) {
+      block.part = 'replace';
+    } else if (block && REPLACE_MARKER.test(line)) {
+      if (block.part === 'search') {
+        errors.push(`${file}: SEARCH block is missing the "=======" divider`);
+      } else {
+        hunks.push({ file, search: block.search.join('\n'), replace: block.replace.join('\n') });
+      }
+      block = null;
+    } else if (block) {
+      block[block.part].push(line);
+    }
+  }
+
+  if (file) {
+    errors.push(`${file}: missing "--- END EDIT ---", the response may have been cut off`);
+  }
+}
+
+/**
+ * Turn each `@@` hunk of a unified diff into a search/replace pair. Line
+ * numbers are ignored; the context and removed lines locate the change.
+ */
+function parseUnifiedDiff(lines: string[], hunks: Omit<PatchHunk, 'id'>[], errors: string[]): void {
+  let file: string | null = null;
+  let creating = false;
+  let current: { search: string[]; replace: string[] } | null = null;
+
+  const flush = () => {
+    if (current && file) {
+      hunks.push({ file, search: creating ? '' : current.search.join('\n'), replace: current.replace.join('\n') });
+    }
+    current = null;
+  };
+
+  lines.forEach((line, index) => {
+    const newFile = lines[index - 1]?.match(DIFF_OLD_FILE) && line.match(DIFF_NEW_FILE);
+    if (newFile) {
+      flush();
+      const oldPath = lines[index - 1].match(DIFF_OLD_FILE)![1];
+      if (newFile[1] === '/dev/null') {
+        errors.push(`${diffPath(oldPath)}: deleting files is not supported`);
+        file = null;
+      } else {
+        file = diffPath(newFile[1]);
+        creating = oldPath === '/dev/null';
+      }
+    } else if (DIFF_OLD_FILE.test(line) && DIFF_NEW_FILE.test(lines[index + 1] || '')) {
+      flush();
+    } else if (DIFF_HUNK.test(line)) {
+      flush();
+      current = { search: [], replace: [] };
+    } else if (current) {
+      if (line.startsWith('-')) {
+        current.search.push(line.slice(1));
+      } else if (line.startsWith('+')) {
+        current.replace.push(line.slice(1));
+      } else if (line.startsWith(' ') || line === '') {
+        current.search.push(line.slice(1));
+        current.replace.push(line.slice(1));
+      } else if (!line.startsWith('\\')) {
+        // Anything else (a code fence, a closing remark) ends the hunk
+        flush();
+      }
+    }
+  });
+  flush();
+}
+
+/**
+ * Parse a model's edit response. Both search/replace blocks and unified
+ * diffs are accepted; errors are phrased so they can be sent back to the model.
+ */
+export function parsePatch(text: string): PatchParseResult {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const found: Omit<PatchHunk, 'id'>[] = [];
+  const errors: string[] = [];
+
+  parseSearchReplace(lines, found, errors);
+  if (found.length === 0 && errors.length === 0) {
+    parseUnifiedDiff(lines, found, errors);
+  }
+
+  if (found.length === 0 && errors.length === 0) {
+    return { success: false, errors: ['Response contains no "--- EDIT: <path> ---" blocks'] };
+  }
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  // Unified diff context often ends in a blank line the file does not have
+  const hunks = found.map((hunk, index) => ({
+    id: `hunk-${index + 1}`,
+    file: hunk.file,
+    search: hunk.search.replace(/\n+$/, ''),
+    replace: hunk.replace.replace(/\n+$/, '')
+  }));
+  return { success: true, hunks };
+}
+
+// Start offsets of every occurrence of the search text
+function findOccurrences(content: string, search: string): number[] {
+  const offsets: number[] = [];
+  for (let offset = content.indexOf(search); offset !== -1; offset = content.indexOf(search, offset + 1)) {
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+/**
+ * Locate the search text as whole lines, ignoring trailing whitespace, for
+ * models that trim or pad lines when quoting them
+ */
+function findLineRanges(content: string, search: string): { start: number; end: number }[] {
+  const lines = content.split('\n');
+  const wanted = search.split('\n').map(line => line.trimEnd());
+  const lineStarts: number[] = [];
+  lines.forEach((_, index) => {
+    lineStarts.push(index === 0 ? 0 : lineStarts[index - 1] + lines[index - 1].length + 1);
+  });
+
+  const ranges: { start: number; end: number }[] = [];
+  for (let first = 0; first + wanted.length <= lines.length; first++) {
+    if (wanted.every((line, offset) => lines[first + offset].trimEnd() === line)) {
+      const last = first + wanted.length - 1;
+      ranges.push({ start: lineStarts[first], end: lineStarts[last] + lines[last].length });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Apply one hunk to a file's content (undefined when the file does not
+ * exist yet). Throws when the search text is missing or ambiguous.
+ */
+export function applyHunk(content: string | undefined, hunk: PatchHunk): string {
+  if (hunk.search === '') {
+    if (content !== undefined) {
+      throw new Error(`${hunk.file} already exists; quote the lines to change in SEARCH`);
+    }
+    return `${hunk.replace}\n`;
+  }
+  if (content === undefined) {
+    throw new Error(`${hunk.file} does not exist`);
+  }
+
+  const exact = findOccurrences(content, hunk.search);
+  if (exact.length === 1) {
+    return content.slice(0, exact[0]) + hunk.replace + content.slice(exact[0] + hunk.search.length);
+  }
+
+  const ranges = exact.length === 0 ? findLineRanges(content, hunk.search) : [];
+  if (ranges.length === 1) {
+    return content.slice(0, ranges[0].start) + hunk.replace + content.slice(ranges[0].end);
+  }
+
+  const matches = Math.max(exact.length, ranges.length);
+  if (matches === 0) {
+    throw new Error(`${hunk.file}: SEARCH text was not found; it must match the current file exactly`);
+  }
+  throw new Error(`${hunk.file}: SEARCH text matches ${matches} places; include more surrounding lines`);
+}
+
+/**
+ * Apply hunks in order to a copy of the code map. A hunk that fails is
+ * skipped and reported; the ones after it still apply.
+ */
+export function applyHunks(code: Record<string, string>, hunks: PatchHunk[]): PatchApplyResult {
+  const result: PatchApplyResult = { code: { ...code }, applied: [], failed: [] };
+  for (const hunk of hunks) {
+    try {
+      result.code[hunk.file] = applyHunk(result.code[hunk.file], hunk);
+      result.applied.push(hunk);
+    } catch (error) {
+      result.failed.push({ hunk, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+  return result;
+}
+
+/**
+ * Lines of a hunk for display: lines common to the start and end of both
+ * sides are context, the rest are removed or added
+ */
+export function diffHunk(hunk: PatchHunk): DiffLine[] {
+  const before = hunk.search === '' ? [] : hunk.search.split('\n');
+  const after = hunk.replace === '' ? [] : hunk.replace.split('\n');
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...before.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+    ...before.slice(prefix, before.length - suffix).map(text => ({ type: 'removed' as const, text })),
+    ...after.slice(prefix, after.length - suffix).map(text => ({ type: 'added' as const, text })),
+    ...before.slice(before.length - suffix).map(text => ({ type: 'context' as const, text }))
+  ];
+}
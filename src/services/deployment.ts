@@ -40,6 +40,17 @@ export class DeploymentService {
   ): Promise<{ success: boolean; url?: string }> {
     const zip = new JSZip();
 
+    // Projects from AIService.generateCode are already a map of paths to
+    // contents, in the language that was chosen; ship them as they are
+    if (typeof generatedCode['package.json'] === 'string') {
+      Object.entries(generatedCode as Record<string, string>).forEach(([path, content]) => {
+        zip.file(path, content);
+      });
+      const content = await zip.generateAsync({ type: 'blob' });
+      saveAs(content, `${options.projectName}.zip`);
+      return { success: true };
+    }
+
     // Add source files
     zip.file('package.json', generatedCode.packageJson);
     zip.file('README.md', generatedCode.readme);
@@ -1,19 +1,28 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import Anthropic from '@anthropic-ai/sdk';
-import axios from 'axios';
+import { LLMProviderRegistry } from './llmProviders';
+import { estimateTokens, getTokenBudget, truncateToTokens } from './tokenBudget';
+import { PromptRegistry, RenderedPrompt } from './promptRegistry';
+import type { ProjectContextUpdate } from './clarification';
+import type { GenerationOptions } from './ai';
 import { ComponentSpec, APISpec, DatabaseSpec, GeneratedComponent, GeneratedAPI, GeneratedSchema } from '../types/codeGeneration';
 
+// What a caller controls about the model calls behind one generation
+export type ModelCallOptions = Pick<GenerationOptions, 'signal' | 'onResponse' | 'bypassCache' | 'projectId'>;
+
 export interface AIModelConfig {
-  provider: 'openai' | 'gemini' | 'anthropic' | 'groq';
+  provider: string;
   model: string;
   temperature: number;
   maxTokens: number;
   specialization: 'ui' | 'backend' | 'database' | 'testing' | 'general';
 }
 
+// Task settings that apply on top of whichever model is active
+type ModelPreset = Omit<AIModelConfig, 'provider' | 'model'>;
+
 export interface ConversationContext {
   messages: ConversationMessage[];
+  // Rolling summary of turns that no longer fit the history budget
+  synopsis?: string;
   userPreferences: UserPreferences;
   projectContext: ProjectContext;
   codeHistory: CodeHistory[];
@@ -87,6 +96,9 @@ export interface ProjectContext {
   features: string[];
   constraints: ProjectConstraints;
   timeline: ProjectTimeline;
+  // Who the app is for and where it runs, when the user said so
+  audience?: string;
+  platform?: string;
 }
 
 export interface TechStack {
@@ -136,133 +148,115 @@ export interface CodeChange {
   reason: string;
 }
 
+// Share of the prompt budget that conversation history may occupy
+const HISTORY_BUDGET_SHARE = 0.5;
+const SYNOPSIS_MAX_TOKENS = 800;
+// The newest exchange is always kept verbatim
+const MIN_VERBATIM_MESSAGES = 2;
+const CODE_BLOCK_PATTERN = /```[\s\S]*?```/g;
+const SUPERSEDED_CODE_PLACEHOLDER = '[code omitted: superseded by a later version]';
+// Code block tags the API may come back in, by the planned server language
+const API_CODE_FENCES: Record<string, string> = {
+  TypeScript: 'ts|typescript',
+  JavaScript: 'js|javascript',
+  Python: 'py|python'
+};
+
 export class EnhancedAIService {
-  private static models: Map<string, AIModelConfig> = new Map();
+  private static models: Map<string, ModelPreset> = new Map();
   private static conversationContext: ConversationContext | null = null;
-  private static clients: Map<string, any> = new Map();
 
   static initialize() {
-    // Initialize specialized AI models for different tasks
+    // Per-task presets; every call goes to the provider and model the user selected
     this.models.set('ui-specialist', {
-      provider: 'openai',
-      model: 'gpt-4',
       temperature: 0.7,
       maxTokens: 3000,
       specialization: 'ui'
     });
 
     this.models.set('backend-specialist', {
-      provider: 'anthropic',
-      model: 'claude-3-sonnet-20240229',
       temperature: 0.5,
       maxTokens: 4000,
       specialization: 'backend'
     });
 
     this.models.set('database-specialist', {
-      provider: 'groq',
-      model: 'llama-3.1-70b-versatile',
       temperature: 0.3,
       maxTokens: 2000,
       specialization: 'database'
     });
 
     this.models.set('testing-specialist', {
-      provider: 'gemini',
-      model: 'gemini-2.5-pro',
       temperature: 0.4,
       maxTokens: 2500,
       specialization: 'testing'
     });
-
-    // Initialize AI clients
-    this.initializeClients();
-  }
-
-  private static initializeClients() {
-    // OpenAI client
-    if (import.meta.env.VITE_OPENAI_API_KEY) {
-      this.clients.set('openai', new OpenAI({
-        apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-        dangerouslyAllowBrowser: true
-      }));
-    }
-
-    // Anthropic client
-    if (import.meta.env.VITE_ANTHROPIC_API_KEY) {
-      this.clients.set('anthropic', new Anthropic({
-        apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
-        dangerouslyAllowBrowser: true
-      }));
-    }
-
-    // Gemini client
-    if (import.meta.env.VITE_GEMINI_API_KEY) {
-      this.clients.set('gemini', new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY));
-    }
-
-    // Groq client (using axios)
-    if (import.meta.env.VITE_GROQ_API_KEY) {
-      this.clients.set('groq', {
-        apiKey: import.meta.env.VITE_GROQ_API_KEY,
-        baseURL: 'https://api.groq.com/openai/v1'
-      });
-    }
   }
 
   /**
    * Generate UI components using specialized AI model
    */
-  static async generateComponent(spec: ComponentSpec, context?: ConversationContext): Promise<GeneratedComponent> {
-    const model = this.models.get('ui-specialist')!;
-    const prompt = this.buildComponentPrompt(spec, context);
+  static async generateComponent(
+    spec: ComponentSpec,
+    context?: ConversationContext,
+    options: ModelCallOptions = {}
+  ): Promise<GeneratedComponent> {
+    const model = this.getModel('ui-specialist');
+    const prompt = this.buildComponentPrompt(spec, model, context);
     
-    const response = await this.callAIModel(model, prompt);
+    const response = await this.callAIModel(model, prompt.text, options);
     
     return {
       code: this.extractCode(response, 'tsx'),
       dependencies: this.extractDependencies(response),
-      tests: await this.generateComponentTests(spec),
+      tests: await this.generateComponentTests(spec, options),
       documentation: this.generateComponentDocs(spec),
       performance: await this.analyzeComponentPerformance(response),
-      accessibility: await this.analyzeComponentAccessibility(response)
+      accessibility: await this.analyzeComponentAccessibility(response),
+      prompt: prompt.provenance
     };
   }
 
   /**
    * Generate API endpoints using specialized AI model
    */
-  static async generateAPI(spec: APISpec, context?: ConversationContext): Promise<GeneratedAPI> {
-    const model = this.models.get('backend-specialist')!;
-    const prompt = this.buildAPIPrompt(spec, context);
+  static async generateAPI(spec: APISpec, context?: ConversationContext, options: ModelCallOptions = {}): Promise<GeneratedAPI> {
+    const model = this.getModel('backend-specialist');
+    const prompt = this.buildAPIPrompt(spec, model, context);
     
-    const response = await this.callAIModel(model, prompt);
+    const response = await this.callAIModel(model, prompt.text, options);
     
     return {
-      code: this.extractCode(response, 'ts'),
+      code: this.extractCode(response, API_CODE_FENCES[spec.server?.language || 'TypeScript'] || 'ts'),
       routes: this.extractRoutes(response),
       middleware: this.extractMiddleware(response),
-      tests: await this.generateAPITests(spec),
+      tests: await this.generateAPITests(spec, options),
       documentation: this.generateAPIDocs(spec),
-      security: await this.analyzeAPISecurity(response)
+      security: await this.analyzeAPISecurity(response),
+      prompt: prompt.provenance
     };
   }
 
   /**
    * Generate database schema using specialized AI model
    */
-  static async generateDatabase(spec: DatabaseSpec, context?: ConversationContext): Promise<GeneratedSchema> {
-    const model = this.models.get('database-specialist')!;
-    const prompt = this.buildDatabasePrompt(spec, context);
+  static async generateDatabase(
+    spec: DatabaseSpec,
+    context?: ConversationContext,
+    options: ModelCallOptions = {}
+  ): Promise<GeneratedSchema> {
+    const model = this.getModel('database-specialist');
+    const prompt = this.buildDatabasePrompt(spec, model, context);
     
-    const response = await this.callAIModel(model, prompt);
+    const response = await this.callAIModel(model, prompt.text, options);
     
     return {
       migrations: this.extractMigrations(response),
       models: this.extractModels(response),
       seeds: this.extractSeeds(response),
       documentation: this.generateDatabaseDocs(spec),
-      performance: await this.analyzeDatabasePerformance(response)
+      performance: await this.analyzeDatabasePerformance(response),
+      prompt: prompt.provenance
     };
   }
 
@@ -275,14 +269,14 @@ export class EnhancedAIService {
     context?: ConversationContext
   ): Promise<string> {
     const modelKey = `${type}-specialist`;
-    const model = this.models.get(modelKey) || this.models.get('ui-specialist')!;
+    const model = this.getModel(this.models.has(modelKey) ? modelKey : 'ui-specialist');
     
-    const enhancedPrompt = this.enhancePromptWithContext(prompt, context);
+    const enhancedPrompt = this.enhancePromptWithContext(prompt, model, context);
     const response = await this.callAIModel(model, enhancedPrompt);
     
     // Update conversation context
     if (context) {
-      this.updateConversationContext(context, prompt, response);
+      await this.updateConversationContext(context, prompt, response, model);
     }
     
     return response;
@@ -347,6 +341,35 @@ export class EnhancedAIService {
     };
   }
 
+  /**
+   * What is known about the project so far, or the defaults before anything is recorded
+   */
+  static getProjectContext(): ProjectContext {
+    return this.conversationContext?.projectContext ?? this.getDefaultProjectContext();
+  }
+
+  /**
+   * Record what is known about the project, e.g. answers to clarifying
+   * questions; constraints are merged into the current ones
+   */
+  static updateProjectContext(update: ProjectContextUpdate): void {
+    if (!this.conversationContext) {
+      this.conversationContext = {
+        messages: [],
+        userPreferences: this.getDefaultPreferences(),
+        projectContext: this.getDefaultProjectContext(),
+        codeHistory: []
+      };
+    }
+
+    const current = this.conversationContext.projectContext;
+    this.conversationContext.projectContext = {
+      ...current,
+      ...update,
+      constraints: { ...current.constraints, ...update.constraints }
+    };
+  }
+
   /**
    * Analyze code patterns and suggest improvements
    */
@@ -355,7 +378,7 @@ export class EnhancedAIService {
     suggestions: CodeSuggestion[];
     optimizations: CodeOptimization[];
   }> {
-    const model = this.models.get('ui-specialist')!;
+    const model = this.getModel('ui-specialist');
     const prompt = `
       Analyze the following ${type} code and provide:
       1. Code quality analysis
@@ -378,164 +401,138 @@ export class EnhancedAIService {
   }
 
   // Private helper methods
-  private static async callAIModel(model: AIModelConfig, prompt: string): Promise<string> {
-    const client = this.clients.get(model.provider);
-    if (!client) {
-      throw new Error(`AI client for ${model.provider} not initialized`);
-    }
+  private static getModel(key: string): AIModelConfig {
+    return { ...LLMProviderRegistry.getActiveSelection(), ...this.models.get(key)! };
+  }
 
+  private static async callAIModel(model: AIModelConfig, prompt: string, options: ModelCallOptions = {}): Promise<string> {
     try {
-      switch (model.provider) {
-        case 'openai':
-          const openaiResponse = await client.chat.completions.create({
-            model: model.model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: model.temperature,
-            max_tokens: model.maxTokens
-          });
-          return openaiResponse.choices[0]?.message?.content || '';
-
-        case 'anthropic':
-          const anthropicResponse = await client.messages.create({
-            model: model.model,
-            max_tokens: model.maxTokens,
-            messages: [{ role: 'user', content: prompt }]
-          });
-          return anthropicResponse.content[0]?.type === 'text' ? anthropicResponse.content[0].text : '';
-
-        case 'gemini':
-          const geminiModel = client.getGenerativeModel({ model: model.model });
-          const geminiResponse = await geminiModel.generateContent(prompt);
-          return geminiResponse.response.text();
-
-        case 'groq':
-          const groqResponse = await axios.post(
-            `${client.baseURL}/chat/completions`,
-            {
-              model: model.model,
-              messages: [{ role: 'user', content: prompt }],
-              temperature: model.temperature,
-              max_tokens: model.maxTokens
-            },
-            {
-              headers: {
-                'Authorization': `Bearer ${client.apiKey}`,
-                'Content-Type': 'application/json'
-              }
-            }
-          );
-          return groqResponse.data.choices[0]?.message?.content || '';
-
-        default:
-          throw new Error(`Unsupported AI provider: ${model.provider}`);
-      }
+      options.signal?.throwIfAborted();
+      const response = await LLMProviderRegistry.complete({
+        model: model.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: model.temperature,
+        maxTokens: model.maxTokens,
+        bypassCache: options.bypassCache,
+        projectId: options.projectId,
+        signal: options.signal
+      });
+      options.onResponse?.(response);
+      return response.text;
     } catch (error) {
+      // Cancellation is not a failure, let callers see the original abort
+      if (options.signal?.aborted) throw error;
       console.error(`Error calling ${model.provider}:`, error);
       throw new Error(`Failed to generate content using ${model.provider}`);
     }
   }
 
-  private static buildComponentPrompt(spec: ComponentSpec, context?: ConversationContext): string {
-    const preferences = context?.userPreferences;
-    
-    return `
-      Generate a React component with the following specifications:
-      
-      Component: ${spec.name}
-      Type: ${spec.type}
-      Props: ${JSON.stringify(spec.props)}
-      Styling: ${JSON.stringify(spec.styling)}
-      Accessibility: ${JSON.stringify(spec.accessibility)}
-      Performance: ${JSON.stringify(spec.performance)}
-      
-      ${preferences ? `
-      User Preferences:
-      - Code Style: ${JSON.stringify(preferences.codeStyle)}
-      - Frameworks: ${JSON.stringify(preferences.frameworks)}
-      - Patterns: ${JSON.stringify(preferences.patterns)}
-      ` : ''}
-      
-      Requirements:
-      - Use TypeScript with proper type definitions
-      - Follow React best practices
-      - Implement proper error boundaries
-      - Include accessibility features
-      - Optimize for performance
-      - Add comprehensive JSDoc comments
-      - Include prop validation
-      - Handle edge cases gracefully
-    `;
+  private static buildComponentPrompt(spec: ComponentSpec, model: AIModelConfig, context?: ConversationContext): RenderedPrompt {
+    return PromptRegistry.render('component-spec', { spec, preferences: context?.userPreferences }, {
+      provider: model.provider,
+      subjectKey: context?.projectContext.name
+    });
   }
 
-  private static buildAPIPrompt(spec: APISpec, context?: ConversationContext): string {
-    return `
-      Generate a REST API with the following specifications:
-      
-      Endpoints: ${JSON.stringify(spec.endpoints)}
-      Authentication: ${JSON.stringify(spec.authentication)}
-      Validation: ${JSON.stringify(spec.validation)}
-      Documentation: ${JSON.stringify(spec.documentation)}
-      Testing: ${JSON.stringify(spec.testing)}
-      
-      Requirements:
-      - Use Express.js with TypeScript
-      - Implement proper error handling
-      - Add input validation and sanitization
-      - Include authentication middleware
-      - Add rate limiting
-      - Implement proper logging
-      - Include comprehensive API documentation
-      - Add security headers
-      - Handle CORS properly
-    `;
+  private static buildAPIPrompt(spec: APISpec, model: AIModelConfig, context?: ConversationContext): RenderedPrompt {
+    return PromptRegistry.render('api-spec', { spec }, {
+      provider: model.provider,
+      subjectKey: context?.projectContext.name
+    });
   }
 
-  private static buildDatabasePrompt(spec: DatabaseSpec, context?: ConversationContext): string {
-    return `
-      Generate a database schema with the following specifications:
-      
-      Type: ${spec.type}
-      Tables: ${JSON.stringify(spec.tables)}
-      Relationships: ${JSON.stringify(spec.relationships)}
-      Indexes: ${JSON.stringify(spec.indexes)}
-      Migrations: ${JSON.stringify(spec.migrations)}
-      
-      Requirements:
-      - Create proper table structures
-      - Define relationships and constraints
-      - Add appropriate indexes
-      - Include data validation
-      - Implement row-level security
-      - Add audit trails
-      - Include backup strategies
-      - Optimize for performance
-    `;
+  private static buildDatabasePrompt(spec: DatabaseSpec, model: AIModelConfig, context?: ConversationContext): RenderedPrompt {
+    return PromptRegistry.render('database-spec', { spec }, {
+      provider: model.provider,
+      subjectKey: context?.projectContext.name
+    });
   }
 
-  private static enhancePromptWithContext(prompt: string, context?: ConversationContext): string {
+  /**
+   * Wrap a prompt with as much context as the model's window allows, in
+   * priority order: project, preferences, synopsis, then the newest turns.
+   * Throws when the request alone cannot fit alongside the reserved output.
+   */
+  private static enhancePromptWithContext(prompt: string, model: AIModelConfig, context?: ConversationContext): string {
+    const budget = getTokenBudget(model.provider, model.model, model.maxTokens);
+    const count = (text: string) => estimateTokens(text, model.provider);
+    const request = `Current Request:\n${prompt}`;
+
+    let remaining = budget.promptTokens - count(request);
+    if (remaining < 0) {
+      throw new Error(
+        `Prompt needs about ${count(request)} tokens but ${model.model} only has room for ${budget.promptTokens} ` +
+        `after reserving ${model.maxTokens} for the response`
+      );
+    }
     if (!context) return prompt;
 
-    const recentMessages = context.messages.slice(-5);
+    const fits = (section: string) => {
+      const tokens = count(section);
+      if (tokens > remaining) return false;
+      remaining -= tokens;
+      return true;
+    };
+
     const projectInfo = context.projectContext;
-    const preferences = context.userPreferences;
-
-    return `
-      Context:
-      Project: ${projectInfo.name} - ${projectInfo.description}
-      Tech Stack: ${JSON.stringify(projectInfo.techStack)}
-      
-      Recent Conversation:
-      ${recentMessages.map(msg => `${msg.role}: ${msg.content}`).join('\n')}
-      
-      User Preferences:
-      ${JSON.stringify(preferences)}
-      
-      Current Request:
-      ${prompt}
-    `;
+    const sections = [
+      `Project: ${projectInfo.name} - ${projectInfo.description}\nTech Stack: ${this.formatTechStack(projectInfo.techStack)}` +
+        (projectInfo.audience ? `\nAudience: ${projectInfo.audience}` : '') +
+        (projectInfo.platform ? `\nPlatform: ${projectInfo.platform}` : '') +
+        (projectInfo.timeline.milestones.length > 0
+          ? `\nMilestones: ${projectInfo.timeline.milestones.map(milestone => `${milestone.name} (${milestone.description})`).join('; ')}`
+          : ''),
+      `User Preferences:\n${this.formatPreferences(context.userPreferences)}`,
+      ...(context.synopsis ? [`Earlier Conversation (summary):\n${context.synopsis}`] : [])
+    ].filter(fits);
+
+    // Newest turns first, stopping at the first one that no longer fits
+    const recentMessages: string[] = [];
+    for (const message of [...context.messages].reverse()) {
+      const line = `${message.role}: ${message.content}`;
+      if (!fits(`${line}\n`)) break;
+      recentMessages.unshift(line);
+    }
+    if (recentMessages.length > 0) {
+      sections.push(`Recent Conversation:\n${recentMessages.join('\n')}`);
+    }
+
+    return `Context:\n${sections.join('\n\n')}\n\n${request}`;
+  }
+
+  private static formatTechStack(techStack: TechStack): string {
+    return Object.entries(techStack)
+      .filter(([, value]) => value)
+      .map(([layer, value]) => `${layer} ${value}`)
+      .join(', ');
+  }
+
+  // Compact, prose-like rendering: a fraction of the tokens of the raw JSON
+  private static formatPreferences(preferences: UserPreferences): string {
+    const { codeStyle, frameworks, patterns, accessibility, performance } = preferences;
+    return [
+      `- Code style: ${codeStyle.indentSize} ${codeStyle.indentation}, ${codeStyle.quotes} quotes, ` +
+        `${codeStyle.semicolons ? 'semicolons' : 'no semicolons'}, ${codeStyle.trailingCommas ? 'trailing commas' : 'no trailing commas'}, ` +
+        `max ${codeStyle.lineLength} columns, ${codeStyle.naming}`,
+      `- Frameworks: ${Object.entries(frameworks).map(([area, value]) => `${area} ${value}`).join(', ')}`,
+      `- Patterns: ${patterns.architecture} architecture, ${patterns.componentStructure} components, ` +
+        `${patterns.folderStructure} folders${patterns.designPatterns.length > 0 ? `, ${patterns.designPatterns.join(', ')}` : ''}`,
+      `- Accessibility: WCAG ${accessibility.level}`,
+      `- Performance: ${performance.bundleSize} bundle size${performance.lazyLoading ? ', lazy loading' : ''}`
+    ].join('\n');
   }
 
-  private static updateConversationContext(context: ConversationContext, prompt: string, response: string): void {
+  /**
+   * Record an exchange, then keep history within its share of the model's
+   * prompt budget: superseded code is dropped first, and the oldest turns are
+   * folded into the rolling synopsis.
+   */
+  private static async updateConversationContext(
+    context: ConversationContext,
+    prompt: string,
+    response: string,
+    model: AIModelConfig
+  ): Promise<void> {
     context.messages.push(
       {
         id: Date.now().toString(),
@@ -551,14 +548,85 @@ export class EnhancedAIService {
       }
     );
 
-    // Keep only last 20 messages to manage memory
-    if (context.messages.length > 20) {
-      context.messages = context.messages.slice(-20);
+    this.omitSupersededCode(context.messages);
+
+    const historyBudget = Math.floor(
+      getTokenBudget(model.provider, model.model, model.maxTokens).promptTokens * HISTORY_BUDGET_SHARE
+    );
+    const historyTokens = () => context.messages.reduce(
+      (total, message) => total + estimateTokens(`${message.role}: ${message.content}\n`, model.provider),
+      estimateTokens(context.synopsis || '', model.provider)
+    );
+
+    const folded: ConversationMessage[] = [];
+    while (context.messages.length > MIN_VERBATIM_MESSAGES && historyTokens() > historyBudget) {
+      folded.push(context.messages.shift()!);
+    }
+
+    if (folded.length > 0) {
+      context.synopsis = await this.summarizeIntoSynopsis(model, context.synopsis, folded);
+    }
+  }
+
+  /**
+   * Keep only the newest version of each piece of code. Messages about the same
+   * component (or with no component recorded) supersede earlier ones.
+   */
+  private static omitSupersededCode(messages: ConversationMessage[]): void {
+    const seenComponents = new Set<string>();
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (!message.content.match(CODE_BLOCK_PATTERN)) continue;
+
+      const component = message.metadata?.component || '';
+      if (seenComponents.has(component)) {
+        message.content = message.content.replace(CODE_BLOCK_PATTERN, SUPERSEDED_CODE_PLACEHOLDER);
+      }
+      seenComponents.add(component);
+    }
+  }
+
+  /**
+   * Merge turns into the synopsis with the model itself, falling back to an
+   * extractive summary (code stripped, first lines kept) when the call fails
+   */
+  private static async summarizeIntoSynopsis(
+    model: AIModelConfig,
+    synopsis: string | undefined,
+    messages: ConversationMessage[]
+  ): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role}: ${message.content.replace(CODE_BLOCK_PATTERN, '[code]')}`)
+      .join('\n\n');
+    const instructions = `Update the running synopsis of a conversation about building an app.
+Keep requirements, decisions, names of components, files and APIs, and open questions. Leave out code.
+Answer with the updated synopsis only, in under ${Math.floor(SYNOPSIS_MAX_TOKENS * 0.75)} words.
+
+Current synopsis:
+${synopsis || '(none)'}
+
+New turns:
+`;
+    const budget = getTokenBudget(model.provider, model.model, SYNOPSIS_MAX_TOKENS);
+    const transcriptBudget = budget.promptTokens - estimateTokens(instructions, model.provider);
+
+    try {
+      const summary = await this.callAIModel(
+        { ...model, temperature: 0.2, maxTokens: SYNOPSIS_MAX_TOKENS },
+        instructions + truncateToTokens(transcript, transcriptBudget, model.provider, 'end')
+      );
+      return truncateToTokens(summary.trim(), SYNOPSIS_MAX_TOKENS, model.provider);
+    } catch (error) {
+      console.warn('Synopsis generation failed, using an extractive summary:', error);
+      const extract = messages
+        .map(message => `${message.role}: ${message.content.replace(CODE_BLOCK_PATTERN, '').trim().split('\n')[0]}`)
+        .join('\n');
+      return truncateToTokens([synopsis, extract].filter(Boolean).join('\n'), SYNOPSIS_MAX_TOKENS, model.provider, 'end');
     }
   }
 
   private static extractCode(response: string, language: string): string {
-    const codeBlockRegex = new RegExp(`\`\`\`${language}\\n([\\s\\S]*?)\\n\`\`\``, 'g');
+    const codeBlockRegex = new RegExp(`\`\`\`(?:${language})\\n([\\s\\S]*?)\\n\`\`\``, 'g');
     const match = codeBlockRegex.exec(response);
     return match ? match[1] : response;
   }
@@ -588,8 +656,9 @@ export class EnhancedAIService {
   }
 
   private static extractMigrations(response: string): string[] {
-    // Extract migration files from response
-    return [];
+    // Each fenced block is one migration; an answer without fences is a single one
+    const blocks = Array.from(response.matchAll(/```[\w-]*\n([\s\S]*?)```/g), match => match[1].trim()).filter(Boolean);
+    return blocks.length > 0 ? blocks : [response.trim()].filter(Boolean);
   }
 
   private static extractModels(response: string): string {
@@ -602,16 +671,16 @@ export class EnhancedAIService {
     return '';
   }
 
-  private static async generateComponentTests(spec: ComponentSpec): Promise<string> {
-    const model = this.models.get('testing-specialist')!;
+  private static async generateComponentTests(spec: ComponentSpec, options: ModelCallOptions = {}): Promise<string> {
+    const model = this.getModel('testing-specialist');
     const prompt = `Generate comprehensive tests for a React component with these specs: ${JSON.stringify(spec)}`;
-    return await this.callAIModel(model, prompt);
+    return await this.callAIModel(model, prompt, options);
   }
 
-  private static async generateAPITests(spec: APISpec): Promise<string> {
-    const model = this.models.get('testing-specialist')!;
+  private static async generateAPITests(spec: APISpec, options: ModelCallOptions = {}): Promise<string> {
+    const model = this.getModel('testing-specialist');
     const prompt = `Generate comprehensive API tests for these endpoints: ${JSON.stringify(spec.endpoints)}`;
-    return await this.callAIModel(model, prompt);
+    return await this.callAIModel(model, prompt, options);
   }
 
   private static generateComponentDocs(spec: ComponentSpec): string {
@@ -0,0 +1,229 @@
+import type { FeaturePriority, ParsedFeature } from './ai';
+import type { Milestone, ProjectConstraints, ProjectTimeline } from './enhancedAI';
+import { buildFeatureGraph } from './featureGraph';
+
+export interface FeatureEstimate {
+  feature: ParsedFeature;
+  points: number;
+  // Working days at HOURS_PER_POINT and HOURS_PER_DAY
+  days: number;
+  // Ids of the enabled features it builds on
+  dependencies: string[];
+  // What went into the points, for the report
+  breakdown: {
+    complexity: number;
+    category: number;
+    constraints: number;
+    dependencies: number;
+    dependents: number;
+  };
+}
+
+export interface MilestoneEstimate {
+  milestone: Milestone;
+  features: FeatureEstimate[];
+  points: number;
+  days: number;
+}
+
+export interface EstimationReport {
+  features: FeatureEstimate[];
+  milestones: MilestoneEstimate[];
+  // Feature ids in the suggested build order
+  buildOrder: string[];
+  totalPoints: number;
+  totalDays: number;
+  timeline: ProjectTimeline;
+}
+
+export interface EstimationOptions {
+  constraints?: Partial<ProjectConstraints>;
+  start?: Date;
+}
+
+export const HOURS_PER_POINT = 4;
+export const HOURS_PER_DAY = 6;
+
+const COMPLEXITY_POINTS: Record<ParsedFeature['complexity'], number> = { low: 2, medium: 5, high: 8 };
+
+// Security and integration work carries the most unknowns
+const CATEGORY_FACTORS: Record<ParsedFeature['category'], number> = {
+  ui: 1,
+  database: 1.1,
+  backend: 1.2,
+  integration: 1.4,
+  security: 1.5
+};
+
+const SECURITY_FACTORS: Record<ProjectConstraints['security'], number> = { basic: 0.8, standard: 1, high: 1.3 };
+const SCALABILITY_FACTORS: Record<ProjectConstraints['scalability'], number> = { small: 0.9, medium: 1, large: 1.3 };
+
+// Each feature it builds on has to be integrated with
+const POINTS_PER_DEPENDENCY = 1;
+// Each feature waiting on it makes a change to it more expensive
+const POINTS_PER_DEPENDENT = 0.5;
+
+const PRIORITY_ORDER: Record<FeaturePriority, number> = { high: 0, medium: 1, low: 2 };
+
+const MILESTONE_NAMES = ['Foundations', 'Core features', 'Advanced features'];
+
+const round = (value: number, step = 0.5) => Math.round(value / step) * step;
+
+function constraintFactor(feature: ParsedFeature, constraints: Partial<ProjectConstraints>): number {
+  if (feature.category === 'security') {
+    return SECURITY_FACTORS[constraints.security || 'standard'];
+  }
+  if (feature.category === 'backend' || feature.category === 'database') {
+    return SCALABILITY_FACTORS[constraints.scalability || 'medium'];
+  }
+  return 1;
+}
+
+function addWorkingDays(start: Date, days: number): Date {
+  const date = new Date(start);
+  let remaining = Math.ceil(days);
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (date.getDay() !== 0 && date.getDay() !== 6) remaining--;
+  }
+  return date;
+}
+
+function milestoneName(level: number): string {
+  return MILESTONE_NAMES[level] || `${MILESTONE_NAMES[MILESTONE_NAMES.length - 1]}, part ${level - MILESTONE_NAMES.length + 2}`;
+}
+
+/**
+ * Score the enabled features and group them into milestones by dependency
+ * depth: a milestone only holds features whose dependencies are built in
+ * earlier ones. Within a milestone, higher priority and larger features come
+ * first.
+ */
+export function estimateFeatures(features: ParsedFeature[], options: EstimationOptions = {}): EstimationReport {
+  const constraints = options.constraints || {};
+  const start = options.start || new Date();
+  const graph = buildFeatureGraph(features.filter(feature => feature.enabled));
+
+  const estimates = new Map(graph.order.map(id => {
+    const feature = graph.features.get(id)!;
+    const breakdown = {
+      complexity: COMPLEXITY_POINTS[feature.complexity],
+      category: CATEGORY_FACTORS[feature.category],
+      constraints: constraintFactor(feature, constraints),
+      dependencies: (graph.dependencies.get(id) || []).length * POINTS_PER_DEPENDENCY,
+      dependents: (graph.dependents.get(id) || []).length * POINTS_PER_DEPENDENT
+    };
+    const points = round(breakdown.complexity * breakdown.category * breakdown.constraints + breakdown.dependencies + breakdown.dependents);
+    const days = round(points * HOURS_PER_POINT / HOURS_PER_DAY);
+    return [id, { feature, points, days, dependencies: graph.dependencies.get(id) || [], breakdown }] as const;
+  }));
+
+  const levels: FeatureEstimate[][] = [];
+  graph.order.forEach(id => {
+    const level = graph.levels.get(id) || 0;
+    (levels[level] = levels[level] || []).push(estimates.get(id)!);
+  });
+
+  let due = start;
+  const milestones: MilestoneEstimate[] = levels.map((group, index) => {
+    group.sort((a, b) =>
+      PRIORITY_ORDER[a.feature.priority || 'medium'] - PRIORITY_ORDER[b.feature.priority || 'medium'] || b.points - a.points);
+    const points = group.reduce((sum, estimate) => sum + estimate.points, 0);
+    const days = group.reduce((sum, estimate) => sum + estimate.days, 0);
+    due = addWorkingDays(due, days);
+    const name = milestoneName(index);
+    return {
+      milestone: {
+        name,
+        description: group.map(estimate => estimate.feature.name).join(', '),
+        dueDate: due,
+        dependencies: index > 0 ? [milestoneName(index - 1)] : [],
+        status: 'pending' as const
+      },
+      features: group,
+      points,
+      days
+    };
+  });
+
+  const ordered = milestones.flatMap(milestone => milestone.features);
+  return {
+    features: ordered,
+    milestones,
+    buildOrder: ordered.map(estimate => estimate.feature.id),
+    totalPoints: ordered.reduce((sum, estimate) => sum + estimate.points, 0),
+    totalDays: ordered.reduce((sum, estimate) => sum + estimate.days, 0),
+    timeline: {
+      start,
+      milestones: milestones.map(milestone => milestone.milestone),
+      deadline: milestones.length > 0 ? milestones[milestones.length - 1].milestone.dueDate : undefined
+    }
+  };
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const dependencyNames = (report: EstimationReport, estimate: FeatureEstimate): string[] =>
+  estimate.dependencies.map(id => report.features.find(other => other.feature.id === id)!.feature.name);
+
+/**
+ * The plan as a Markdown document for client review
+ */
+export function estimationToMarkdown(report: EstimationReport, idea: string): string {
+  const lines = [
+    '# Project estimate',
+    '',
+    `> ${idea.trim().replace(/\n+/g, ' ')}`,
+    '',
+    `**Total:** ${report.totalPoints} points, about ${report.totalDays} working days ` +
+      `(${formatDate(report.timeline.start)} to ${formatDate(report.timeline.deadline || report.timeline.start)})`,
+    '',
+    `One point is about ${HOURS_PER_POINT} hours of work; a working day has ${HOURS_PER_DAY} productive hours.`,
+    ''
+  ];
+
+  report.milestones.forEach((milestone, index) => {
+    lines.push(
+      `## ${index + 1}. ${milestone.milestone.name}`,
+      '',
+      `Due ${formatDate(milestone.milestone.dueDate)} · ${milestone.points} points · ${milestone.days} days`,
+      '',
+      '| Feature | Category | Complexity | Priority | Points | Days |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...milestone.features.map(({ feature, points, days }) =>
+        `| ${feature.name.replace(/\|/g, '\\|')} | ${feature.category} | ${feature.complexity} | ${feature.priority || 'medium'} | ${points} | ${days} |`),
+      ''
+    );
+  });
+
+  lines.push('## Build order', '', ...report.features.map((estimate, index) => {
+    const dependencies = dependencyNames(report, estimate);
+    return `${index + 1}. ${estimate.feature.name}${dependencies.length > 0 ? ` (after ${dependencies.join(', ')})` : ''}`;
+  }), '');
+  return lines.join('\n');
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per feature in build order, for spreadsheets
+ */
+export function estimationToCsv(report: EstimationReport): string {
+  const header = ['Order', 'Milestone', 'Due', 'Feature', 'Category', 'Complexity', 'Priority', 'Dependencies', 'Points', 'Days'];
+  const rows = report.milestones.flatMap(milestone => milestone.features.map(estimate => [
+    report.buildOrder.indexOf(estimate.feature.id) + 1,
+    milestone.milestone.name,
+    formatDate(milestone.milestone.dueDate),
+    estimate.feature.name,
+    estimate.feature.category,
+    estimate.feature.complexity,
+    estimate.feature.priority || 'medium',
+    dependencyNames(report, estimate).join('; '),
+    estimate.points,
+    estimate.days
+  ]));
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
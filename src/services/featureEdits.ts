@@ -0,0 +1,248 @@
+import type { FeaturePriority, ParsedFeature } from './ai';
+
+/**
+ * One difference between two versions of a feature list, matched by id
+ */
+export type FeatureChange =
+  | { type: 'added' | 'removed' | 'enabled' | 'disabled' | 'updated'; feature: ParsedFeature }
+  | { type: 'reprioritized'; feature: ParsedFeature; from: FeaturePriority; to: FeaturePriority };
+
+export interface FeatureCommandResult {
+  features: ParsedFeature[];
+  // Parts of the request that changed nothing, and why
+  notes: string[];
+}
+
+type FeatureAction = 'add' | 'remove' | 'enable' | 'disable' | 'prioritize';
+
+interface FeatureCommand {
+  action: FeatureAction;
+  target: string;
+  priority?: FeaturePriority;
+}
+
+// Tried in order against each clause; the first match wins
+const COMMAND_PATTERNS: { pattern: RegExp; action: FeatureAction; priority?: FeaturePriority }[] = [
+  { pattern: /^(?:make|set|mark)\s+(.+?)\s+(?:as\s+)?(?:an?\s+)?(high|medium|low)[\s-]priority$/, action: 'prioritize' },
+  { pattern: /^(?:set|change)\s+(?:the\s+)?priority\s+(?:of|for)\s+(.+?)\s+to\s+(high|medium|low)$/, action: 'prioritize' },
+  { pattern: /^(.+?)\s+(?:is|should be)\s+(?:an?\s+)?(high|medium|low)[\s-]priority$/, action: 'prioritize' },
+  { pattern: /^(?:prioriti[sz]e|focus on)\s+(.+)$/, action: 'prioritize', priority: 'high' },
+  { pattern: /^deprioriti[sz]e\s+(.+)$/, action: 'prioritize', priority: 'low' },
+  { pattern: /^(?:remove|drop|delete|exclude|get rid of|no)\s+(.+)$/, action: 'remove' },
+  { pattern: /^(?:disable|turn off|switch off|deactivate|skip)\s+(.+)$/, action: 'disable' },
+  { pattern: /^(?:turn|switch)\s+(.+?)\s+off$/, action: 'disable' },
+  { pattern: /^(?:enable|turn on|switch on|activate|re-?enable|restore|bring back)\s+(.+)$/, action: 'enable' },
+  { pattern: /^(?:turn|switch)\s+(.+?)\s+on$/, action: 'enable' },
+  { pattern: /^(?:add|include|support|(?:i|we) (?:want|need))\s+(.+)$/, action: 'add' }
+];
+
+const COMMAND_VERBS = 'add|include|remove|drop|delete|exclude|enable|disable|turn|switch|make|set|mark|prioriti[sz]e|deprioriti[sz]e|activate|deactivate|restore';
+// Commas and semicolons always split; "and"/"then" only when a new command follows
+const CLAUSE_SEPARATOR = new RegExp(`\\s*(?:[,;]|\\.\\s|\\band then\\b|\\bthen\\b|\\b(?:and|also)\\b(?=\\s+(?:${COMMAND_VERBS})\\b))\\s*`);
+
+const POLITE_PREFIX = /^(?:please|(?:can|could|would) you|let's|lets|i'd like to|also|and)\s+/;
+const TARGET_NOISE = /^(?:the|a|an|some)\s+|\s+(?:features?|functionality|support|please)$/g;
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'for', 'to', 'with', 'in', 'on', 'my', 'our']);
+
+// Smallest share of the target's words that must match a feature; adding
+// needs all of them, so "PDF export" is not taken for an existing "CSV Export"
+const MATCH_THRESHOLD = 0.5;
+const ADD_MATCH_THRESHOLD = 1;
+
+const CATEGORY_KEYWORDS: [ParsedFeature['category'], RegExp][] = [
+  ['security', /\b(auth\w*|login|sign[\s-]?in|password|permission\w*|role\w*|security|2fa)\b/],
+  ['database', /\b(database|storage|persist\w*|history|backup\w*|sync\w*)\b/],
+  ['integration', /\b(export\w*|import\w*|csv|pdf|payment\w*|stripe|share|sharing|calendar|email\w*|webhook\w*)\b/],
+  ['backend', /\b(api|server|endpoint\w*|notification\w*|schedul\w*|cron|queue)\b/]
+];
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// "auth" matches "authentication", "export" matches "exports"
+function wordsMatch(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter === longer || (shorter.length >= 3 && longer.startsWith(shorter));
+}
+
+/**
+ * The feature whose name or id best covers the words of the target, if any
+ * covers enough of them
+ */
+export function findFeature(features: ParsedFeature[], target: string, threshold = MATCH_THRESHOLD): ParsedFeature | undefined {
+  const wanted = words(target);
+  if (wanted.length === 0) return undefined;
+
+  let best: { feature: ParsedFeature; score: number } | undefined;
+  for (const feature of features) {
+    const candidate = words(`${feature.name} ${feature.id}`);
+    const score = wanted.filter(word => candidate.some(other => wordsMatch(word, other))).length / wanted.length;
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { feature, score };
+    }
+  }
+  return best?.feature;
+}
+
+/**
+ * Split a request into commands. A clause without a verb repeats the
+ * previous one, so "add CSV export, PDF export" adds both.
+ */
+function parseCommands(request: string): { commands: FeatureCommand[]; unrecognized: string[] } {
+  const commands: FeatureCommand[] = [];
+  const unrecognized: string[] = [];
+  let previous: FeatureCommand | null = null;
+
+  const clauses = request.toLowerCase().replace(/[.!?]+$/, '').split(CLAUSE_SEPARATOR);
+  for (const rawClause of clauses) {
+    const clause = rawClause.trim().replace(POLITE_PREFIX, '').trim();
+    if (!clause) continue;
+
+    const matched = COMMAND_PATTERNS.map(({ pattern, action, priority }) => {
+      const match = clause.match(pattern);
+      return match && { action, target: match[1], priority: priority || (match[2] as FeaturePriority | undefined) };
+    }).find(Boolean);
+
+    const command: FeatureCommand | null = matched || (previous ? { action: previous.action, target: clause, priority: previous.priority } : null);
+    if (!command) {
+      unrecognized.push(rawClause.trim());
+      continue;
+    }
+    previous = { ...command, target: command.target.replace(TARGET_NOISE, '').trim() };
+    commands.push(previous);
+  }
+  return { commands, unrecognized };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'feature';
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b([a-z])/g, letter => letter.toUpperCase()).replace(/\b(Csv|Pdf|Api|Ui|Sms)\b/g, word => word.toUpperCase());
+}
+
+function createFeature(target: string, features: ParsedFeature[]): ParsedFeature {
+  const ids = new Set(features.map(feature => feature.id));
+  const base = slugify(target);
+  let id = base;
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+
+  return {
+    id,
+    name: titleCase(target),
+    description: `Added on request: ${target}`,
+    category: CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(target))?.[0] || 'ui',
+    complexity: 'medium',
+    enabled: true,
+    dependencies: [],
+    implementation: ''
+  };
+}
+
+/**
+ * Apply a request such as "drop auth, add CSV export, make search high
+ * priority" without a model. Used when the AI cannot edit the list.
+ */
+export function applyFeatureCommands(request: string, features: ParsedFeature[]): FeatureCommandResult {
+  const { commands, unrecognized } = parseCommands(request);
+  const notes = unrecognized.map(clause => `Did not understand "${clause}"`);
+  let result = features.map(feature => ({ ...feature }));
+
+  for (const { action, target, priority } of commands) {
+    const feature = findFeature(result, target, action === 'add' ? ADD_MATCH_THRESHOLD : MATCH_THRESHOLD);
+
+    if (action === 'add') {
+      if (!feature) {
+        result.push(createFeature(target, result));
+      } else if (!feature.enabled) {
+        feature.enabled = true;
+      } else {
+        notes.push(`${feature.name} is already included`);
+      }
+    } else if (!feature) {
+      notes.push(`No feature matches "${target}"`);
+    } else if (action === 'remove') {
+      // Nothing may keep depending on a feature that is gone
+      result = result
+        .filter(other => other.id !== feature.id)
+        .map(other => ({ ...other, dependencies: other.dependencies.filter(id => id !== feature.id) }));
+    } else if (action === 'enable' || action === 'disable') {
+      feature.enabled = action === 'enable';
+    } else {
+      feature.priority = priority || 'high';
+    }
+  }
+  return { features: result, notes };
+}
+
+/**
+ * Compare two versions of a feature list by id
+ */
+export function diffFeatures(before: ParsedFeature[], after: ParsedFeature[]): FeatureChange[] {
+  const previous = new Map(before.map(feature => [feature.id, feature]));
+  const current = new Set(after.map(feature => feature.id));
+  const changes: FeatureChange[] = before
+    .filter(feature => !current.has(feature.id))
+    .map(feature => ({ type: 'removed' as const, feature }));
+
+  for (const feature of after) {
+    const old = previous.get(feature.id);
+    if (!old) {
+      changes.push({ type: 'added', feature });
+      continue;
+    }
+    if (old.enabled !== feature.enabled) {
+      changes.push({ type: feature.enabled ? 'enabled' : 'disabled', feature });
+    }
+    const from = old.priority || 'medium';
+    const to = feature.priority || 'medium';
+    if (from !== to) {
+      changes.push({ type: 'reprioritized', feature, from, to });
+    }
+    if (old.name !== feature.name || old.description !== feature.description || old.category !== feature.category ||
+        old.complexity !== feature.complexity || old.implementation !== feature.implementation) {
+      changes.push({ type: 'updated', feature });
+    }
+  }
+  return changes;
+}
+
+/**
+ * One line per change, prefixed like a diff: + added, - removed, ~ changed
+ */
+export function formatFeatureChanges(changes: FeatureChange[]): string {
+  return changes.map(change => {
+    switch (change.type) {
+      case 'added':
+        return `+ ${change.feature.name} (added)`;
+      case 'removed':
+        return `- ${change.feature.name} (removed)`;
+      case 'enabled':
+        return `~ ${change.feature.name}: off → on`;
+      case 'disabled':
+        return `~ ${change.feature.name}: on → off`;
+      case 'reprioritized':
+        return `~ ${change.feature.name}: ${change.from} → ${change.to} priority`;
+      case 'updated':
+        return `~ ${change.feature.name}: description updated`;
+    }
+  }).join('\n');
+}
+
+/**
+ * The list as shown in the chat, marking features that are off or not at
+ * medium priority
+ */
+export function formatFeatureList(features: ParsedFeature[]): string {
+  return features.map(feature => {
+    const tags = [
+      ...(feature.enabled ? [] : ['off']),
+      ...(feature.priority && feature.priority !== 'medium' ? [`${feature.priority} priority`] : [])
+    ];
+    return `• **${feature.name}**${tags.length > 0 ? ` (${tags.join(', ')})` : ''}: ${feature.description}`;
+  }).join('\n');
+}
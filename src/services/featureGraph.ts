@@ -0,0 +1,187 @@
+import type { ParsedFeature } from './ai';
+
+export interface FeatureGraphIssue {
+  type: 'missing' | 'cycle';
+  // Features involved: the one with the dangling reference, or every feature in the cycle
+  featureIds: string[];
+  message: string;
+}
+
+/**
+ * Dependencies between features, with references resolved to ids
+ */
+export interface FeatureGraph {
+  features: Map<string, ParsedFeature>;
+  // What each feature depends on, dangling references left out
+  dependencies: Map<string, string[]>;
+  // Features that depend directly on each feature
+  dependents: Map<string, string[]>;
+  issues: FeatureGraphIssue[];
+  // Every feature after the ones it depends on; within a cycle, list order
+  order: string[];
+  // Longest chain of dependencies below each feature, 0 for none
+  levels: Map<string, number>;
+  // Features on a cycle, whose edges the order and levels ignore
+  cyclic: Set<string>;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Match a dependency reference to a feature id. Models sometimes write the
+ * feature's name, or the id in another case or separator style.
+ */
+export function resolveFeatureId(features: ParsedFeature[], reference: string): string | undefined {
+  const exact = features.find(feature => feature.id === reference);
+  if (exact) return exact.id;
+
+  const wanted = normalize(reference);
+  return features.find(feature => normalize(feature.id) === wanted || normalize(feature.name) === wanted)?.id;
+}
+
+/**
+ * Strongly connected components with more than one feature, or a feature
+ * that depends on itself (Tarjan's algorithm)
+ */
+function findCycles(ids: string[], dependencies: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dependency of dependencies.get(id) || []) {
+      if (!index.has(dependency)) {
+        visit(dependency);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dependency)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1 || (dependencies.get(id) || []).includes(id)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  ids.forEach(id => {
+    if (!index.has(id)) visit(id);
+  });
+  return cycles;
+}
+
+export function buildFeatureGraph(features: ParsedFeature[]): FeatureGraph {
+  const ids = features.map(feature => feature.id);
+  const names = new Map(features.map(feature => [feature.id, feature.name]));
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>(ids.map(id => [id, []]));
+  const issues: FeatureGraphIssue[] = [];
+
+  for (const feature of features) {
+    const resolved: string[] = [];
+    for (const reference of feature.dependencies) {
+      const id = resolveFeatureId(features, reference);
+      if (!id) {
+        issues.push({
+          type: 'missing',
+          featureIds: [feature.id],
+          message: `${feature.name} depends on "${reference}", which is not in the feature list`
+        });
+      } else if (!resolved.includes(id)) {
+        resolved.push(id);
+        dependents.get(id)!.push(feature.id);
+      }
+    }
+    dependencies.set(feature.id, resolved);
+  }
+
+  const cycles = findCycles(ids, dependencies);
+  const cyclic = new Set(cycles.flat());
+  cycles.forEach(cycle => issues.push({
+    type: 'cycle',
+    featureIds: cycle,
+    message: cycle.length === 1
+      ? `${names.get(cycle[0])} depends on itself`
+      : `Circular dependency: ${[...cycle, cycle[0]].map(id => names.get(id)).join(' → ')}`
+  }));
+
+  // Kahn's algorithm with the edges inside each cycle left out, which leaves
+  // a graph without cycles; list order is kept among equals
+  const cycleOf = new Map(cycles.flatMap((cycle, index) => cycle.map(id => [id, index] as const)));
+  const sameCycle = (a: string, b: string) => cycleOf.has(a) && cycleOf.get(a) === cycleOf.get(b);
+  const acyclicDependencies = (id: string) =>
+    (dependencies.get(id) || []).filter(dependency => !sameCycle(id, dependency));
+  const remaining = new Map(ids.map(id => [id, acyclicDependencies(id).length]));
+  const order: string[] = [];
+  const levels = new Map<string, number>();
+
+  let ready = ids.filter(id => remaining.get(id) === 0);
+  while (ready.length > 0) {
+    const next: string[] = [];
+    for (const id of ready) {
+      order.push(id);
+      levels.set(id, Math.max(0, ...acyclicDependencies(id).map(dependency => levels.get(dependency)! + 1)));
+      for (const dependent of dependents.get(id) || []) {
+        if (sameCycle(id, dependent)) continue;
+        remaining.set(dependent, remaining.get(dependent)! - 1);
+        if (remaining.get(dependent) === 0) next.push(dependent);
+      }
+    }
+    ready = ids.filter(id => next.includes(id));
+  }
+
+  return { features: new Map(features.map(feature => [feature.id, feature])), dependencies, dependents, issues, order, levels, cyclic };
+}
+
+// Every feature reachable from the start by following the given edges
+function reachable(start: string, edges: Map<string, string[]>): string[] {
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const next of edges.get(queue.shift()!) || []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  seen.delete(start);
+  return Array.from(seen);
+}
+
+/**
+ * Features that must change along with one being switched: turning a
+ * feature on needs everything it depends on, turning it off takes down
+ * everything that depends on it. Only features not already in that state
+ * are listed.
+ */
+export function planFeatureToggle(graph: FeatureGraph, featureId: string, enable: boolean): string[] {
+  const affected = reachable(featureId, enable ? graph.dependencies : graph.dependents);
+  return graph.order.filter(id => affected.includes(id) && graph.features.get(id)!.enabled !== enable);
+}
+
+/**
+ * The features in build order, dependencies first
+ */
+export function orderFeatures(features: ParsedFeature[]): ParsedFeature[] {
+  const graph = buildFeatureGraph(features);
+  return graph.order.map(id => graph.features.get(id)!);
+}
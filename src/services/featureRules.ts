@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import type { ParsedFeature } from './ai';
+
+/**
+ * Declarative feature detection for the offline path. Rules live in JSON
+ * files under rules/features/, subfolders included. A new file is picked up
+ * without code changes and replaces any rule or domain with the same id from
+ * a file sorted before it.
+ *
+ * A keyword matches any word starting with it ("auth" matches
+ * "authentication"), and multi-word keywords match across spaces and
+ * hyphens. A rule or domain applies once the weights of its matched keywords
+ * add up to its threshold.
+ */
+
+const KeywordsSchema = z.record(z.string().min(1), z.number());
+
+const FeatureRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(['ui', 'backend', 'database', 'security', 'integration']),
+  complexity: z.enum(['low', 'medium', 'high']),
+  implementation: z.string().default(''),
+  dependencies: z.array(z.string()).default([]),
+  keywords: KeywordsSchema.default({}),
+  threshold: z.number().positive().default(1),
+  // Included for every idea
+  always: z.boolean().default(false),
+  userStories: z.array(z.string().min(1)).default([]),
+  acceptanceCriteria: z.array(z.string().min(1)).default([])
+});
+
+const DomainTemplateSchema = z.object({
+  id: z.string().min(1),
+  // Also used as the app title
+  name: z.string().min(1),
+  keywords: KeywordsSchema,
+  threshold: z.number().positive().default(1),
+  // Ids of the rules every app in this domain gets
+  features: z.array(z.string()).min(1)
+});
+
+const RuleFileSchema = z.object({
+  description: z.string().optional(),
+  features: z.array(FeatureRuleSchema).default([]),
+  domains: z.array(DomainTemplateSchema).default([])
+});
+
+export type FeatureRule = z.infer<typeof FeatureRuleSchema>;
+export type DomainTemplate = z.infer<typeof DomainTemplateSchema>;
+
+export interface FeatureRuleCatalogue {
+  features: FeatureRule[];
+  domains: DomainTemplate[];
+}
+
+const loadRuleFiles = (): Record<string, unknown> =>
+  import.meta.glob('/rules/features/**/*.json', { eager: true, import: 'default' });
+
+/**
+ * Merge rule files in path order. Invalid files and references to unknown
+ * rules are reported and skipped rather than failing detection.
+ */
+export function buildFeatureRuleCatalogue(files: Record<string, unknown>): FeatureRuleCatalogue {
+  const features = new Map<string, FeatureRule>();
+  const domains = new Map<string, DomainTemplate>();
+
+  Object.keys(files).sort().forEach(path => {
+    const result = RuleFileSchema.safeParse(files[path]);
+    if (!result.success) {
+      console.warn(`Skipping feature rules in ${path}:`, result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+      return;
+    }
+    result.data.features.forEach(rule => features.set(rule.id, rule));
+    result.data.domains.forEach(domain => domains.set(domain.id, domain));
+  });
+
+  const known = (owner: string) => (id: string) => {
+    if (!features.has(id)) console.warn(`Feature rule "${owner}" refers to unknown rule "${id}"`);
+    return features.has(id);
+  };
+  return {
+    features: Array.from(features.values()).map(rule => ({ ...rule, dependencies: rule.dependencies.filter(known(rule.id)) })),
+    domains: Array.from(domains.values()).map(domain => ({ ...domain, features: domain.features.filter(known(domain.id)) }))
+  };
+}
+
+let catalogue: FeatureRuleCatalogue | null = null;
+
+export function getFeatureRuleCatalogue(): FeatureRuleCatalogue {
+  catalogue = catalogue || buildFeatureRuleCatalogue(loadRuleFiles());
+  return catalogue;
+}
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+// Sum of the weights of the keywords found in normalized text
+function score(keywords: Record<string, number>, text: string): number {
+  return Object.entries(keywords).reduce((total, [keyword, weight]) => {
+    const words = normalize(keyword).trim();
+    return words && text.includes(` ${words}`) ? total + weight : total;
+  }, 0);
+}
+
+const applies = (rule: { keywords: Record<string, number>; threshold: number }, text: string): boolean =>
+  Object.keys(rule.keywords).length > 0 && score(rule.keywords, text) >= rule.threshold;
+
+/**
+ * Ids of the rules whose keywords match the text, without domains, rules
+ * included for every idea, or dependencies
+ */
+export function matchFeatureRules(text: string, rules = getFeatureRuleCatalogue()): Set<string> {
+  const normalized = normalize(text);
+  return new Set(rules.features.filter(rule => applies(rule, normalized)).map(rule => rule.id));
+}
+
+/**
+ * The domain the idea scores highest for, if any reaches its threshold; ties
+ * go to the domain loaded first
+ */
+export function detectDomain(idea: string, rules = getFeatureRuleCatalogue()): DomainTemplate | undefined {
+  const normalized = normalize(idea);
+  let best: { domain: DomainTemplate; score: number } | undefined;
+  for (const domain of rules.domains) {
+    const domainScore = score(domain.keywords, normalized);
+    if (domainScore >= domain.threshold && (!best || domainScore > best.score)) {
+      best = { domain, score: domainScore };
+    }
+  }
+  return best?.domain;
+}
+
+/**
+ * Features for an idea: rules included for every idea, rules whose keywords
+ * match, the templates of every matching domain, and everything those depend
+ * on. Features come out in catalogue order, so the same idea always gives
+ * the same list.
+ */
+export function extractFeaturesFromRules(idea: string, rules = getFeatureRuleCatalogue()): ParsedFeature[] {
+  const normalized = normalize(idea);
+  const byId = new Map(rules.features.map(rule => [rule.id, rule]));
+  const selected = new Set<string>();
+  const select = (id: string) => {
+    if (selected.has(id) || !byId.has(id)) return;
+    selected.add(id);
+    byId.get(id)!.dependencies.forEach(select);
+  };
+
+  rules.features.filter(rule => rule.always || applies(rule, normalized)).forEach(rule => select(rule.id));
+  rules.domains.filter(domain => applies(domain, normalized)).forEach(domain => domain.features.forEach(select));
+
+  return rules.features
+    .filter(rule => selected.has(rule.id))
+    .map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      category: rule.category,
+      complexity: rule.complexity,
+      enabled: true,
+      dependencies: [...rule.dependencies],
+      implementation: rule.implementation,
+      userStories: [...rule.userStories],
+      acceptanceCriteria: [...rule.acceptanceCriteria]
+    }));
+}
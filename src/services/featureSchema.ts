@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import type { LLMResponseFormat } from './llmProviders';
+
+// Validation schemas
+export const ParsedFeatureSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(['ui', 'backend', 'database', 'security', 'integration']),
+  complexity: z.enum(['low', 'medium', 'high']),
+  enabled: z.boolean().default(true),
+  dependencies: z.array(z.string()).default([]),
+  implementation: z.string().default(''),
+  priority: z.enum(['high', 'medium', 'low']).optional(),
+  userStories: z.array(z.string().min(1)).default([]),
+  acceptanceCriteria: z.array(z.string().min(1)).default([])
+});
+
+export const ParsedFeatureListSchema = z.array(ParsedFeatureSchema).min(1).superRefine((features, ctx) => {
+  const ids = new Set<string>();
+  features.forEach((feature, index) => {
+    if (ids.has(feature.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate feature id "${feature.id}"` });
+    }
+    ids.add(feature.id);
+  });
+
+  features.forEach((feature, index) => {
+    feature.dependencies.forEach((dependency, depIndex) => {
+      if (!ids.has(dependency)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'dependencies', depIndex],
+          message: `Unknown feature id "${dependency}"`
+        });
+      }
+    });
+  });
+});
+
+// JSON modes and tool calls need an object at the top level, so the list is wrapped
+export const FeatureResponseSchema = z.object({ features: ParsedFeatureListSchema });
+
+/**
+ * The same shape as FeatureResponseSchema in JSON Schema form, for providers
+ * that take a schema rather than a plain JSON mode (Anthropic tool calling)
+ */
+export const FEATURE_RESPONSE_FORMAT: LLMResponseFormat = {
+  type: 'json',
+  name: 'record_features',
+  description: 'Record the features extracted from the app idea',
+  schema: {
+    type: 'object',
+    properties: {
+      features: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            category: { type: 'string', enum: ['ui', 'backend', 'database', 'security', 'integration'] },
+            complexity: { type: 'string', enum: ['low', 'medium', 'high'] },
+            enabled: { type: 'boolean' },
+            dependencies: { type: 'array', items: { type: 'string' } },
+            implementation: { type: 'string' },
+            priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+            userStories: { type: 'array', items: { type: 'string' } },
+            acceptanceCriteria: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['id', 'name', 'description', 'category', 'complexity', 'enabled', 'dependencies', 'implementation']
+        }
+      }
+    },
+    required: ['features']
+  }
+};
+
+export type FeatureParseResult =
+  | { success: true; features: z.infer<typeof ParsedFeatureListSchema> }
+  | { success: false; errors: string[] };
+
+/**
+ * Pull the first JSON value out of a model response, tolerating code fences
+ * and prose around it
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf(']'), candidate.lastIndexOf('}'));
+    if (start === -1 || end <= start) {
+      throw new Error('Response contains no JSON');
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Validate a parseIdea response. Both the wrapped `{ features: [...] }` form
+ * and a bare array are accepted; errors are phrased so they can be sent back
+ * to the model for repair.
+ */
+export function parseFeatureResponse(text: string): FeatureParseResult {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse'}`] };
+  }
+
+  const result = Array.isArray(json)
+    ? ParsedFeatureListSchema.safeParse(json)
+    : FeatureResponseSchema.transform(value => value.features).safeParse(json);
+
+  if (result.success) {
+    return { success: true, features: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => {
+      const path = (Array.isArray(json) ? ['features', ...issue.path] : issue.path)
+        .map(segment => typeof segment === 'number' ? `[${segment}]` : `.${segment}`)
+        .join('')
+        .replace(/^\./, '');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+  };
+}
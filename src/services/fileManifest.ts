@@ -0,0 +1,187 @@
+import { z } from 'zod';
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * What a manifest may contain for one frontend framework
+ */
+export interface ManifestRules {
+  // Root component, which must be present
+  entryFile: string;
+  // File types the model may write
+  extensions: string[];
+  // The only packages the files may import
+  packages: string[];
+  // Written by the generator itself, so the model must not provide them
+  reserved: string[];
+  // Whether the entry file needs an `export default` (not for single-file components)
+  requireDefaultExport: boolean;
+}
+
+// Files whose imports are checked; stylesheets and JSON have none
+const MODULE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte'];
+
+const FILE_HEADER = /^-{3,}\s*FILE:\s*(\S+)\s*-{3,}\s*$/;
+const FILE_FOOTER = /^-{3,}\s*END FILE\s*-{3,}\s*$/;
+const IMPORT_PATTERN = /(?:^|\n)\s*(?:import|export)\s+(?:[\w*{}\s,]+\s+from\s+)?['"]([^'"]+)['"]/g;
+
+/**
+ * Module specifiers a file imports or re-exports from
+ */
+export function findImports(content: string): string[] {
+  return Array.from(content.matchAll(IMPORT_PATTERN), match => match[1]);
+}
+
+/**
+ * Resolve a relative import the way a bundler would (exact path, then the
+ * allowed extensions, then an index file), or null when nothing matches
+ */
+export function resolveImport(
+  fromPath: string,
+  specifier: string,
+  paths: Set<string>,
+  extensions: string[] = ['.js', '.jsx', '.css', '.json']
+): string | null {
+  const segments = fromPath.split('/').slice(0, -1);
+  for (const part of specifier.split('/')) {
+    if (part === '..') {
+      segments.pop();
+    } else if (part !== '.') {
+      segments.push(part);
+    }
+  }
+  const base = segments.join('/');
+
+  const indexFiles = extensions.filter(ext => MODULE_EXTENSIONS.includes(ext)).map(ext => `${base}/index${ext}`);
+  const candidates = [base, ...extensions.map(ext => base + ext), ...indexFiles];
+  return candidates.find(candidate => paths.has(candidate)) || null;
+}
+
+// Validation schemas
+export function createGeneratedFileSchema(rules: ManifestRules) {
+  return z.object({
+    path: z.string()
+      .regex(/^src\/[\w\-./]+$/, 'Path must be relative and inside src/')
+      .refine(path => !path.split('/').includes('..'), 'Path must not contain ".."')
+      .refine(
+        path => rules.extensions.some(ext => path.endsWith(ext)),
+        `Only ${rules.extensions.join(', ')} files are supported`
+      )
+      .refine(path => !rules.reserved.includes(path), 'This file is generated automatically; leave it out'),
+    content: z.string().refine(content => content.trim().length > 0, 'File is empty')
+  });
+}
+
+export function createFileManifestSchema(rules: ManifestRules) {
+  return z.array(createGeneratedFileSchema(rules)).min(1).superRefine((files, ctx) => {
+    const paths = new Set([...rules.reserved]);
+    files.forEach((file, index) => {
+      if (paths.has(file.path) && !rules.reserved.includes(file.path)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'path'], message: `Duplicate file "${file.path}"` });
+      }
+      paths.add(file.path);
+    });
+
+    const entry = files.find(file => file.path === rules.entryFile);
+    if (!entry) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [], message: `${rules.entryFile} is missing` });
+    } else if (rules.requireDefaultExport && !/export\s+default\s/.test(entry.content)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [files.indexOf(entry), 'content'],
+        message: `${rules.entryFile} must export the root component as default`
+      });
+    }
+
+    const packageList = rules.packages.join(', ');
+    files.forEach((file, index) => {
+      if (!MODULE_EXTENSIONS.some(ext => file.path.endsWith(ext))) return;
+
+      for (const specifier of findImports(file.content)) {
+        if (specifier.startsWith('.')) {
+          if (!resolveImport(file.path, specifier, paths, rules.extensions)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, 'content'],
+              message: `Import "${specifier}" in ${file.path} does not match any file`
+            });
+          }
+        } else if (!rules.packages.includes(specifier)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, 'content'],
+            message: `Package "${specifier}" in ${file.path} is not available; only ${packageList} can be imported`
+          });
+        }
+      }
+    });
+  });
+}
+
+export type FileManifestParseResult =
+  | { success: true; files: GeneratedFile[] }
+  | { success: false; errors: string[] };
+
+// Models sometimes wrap each file in a code fence inside the markers
+function stripFence(content: string): string {
+  const fenced = content.match(/^\s*```[\w-]*\n([\s\S]*?)\n?```\s*$/);
+  return fenced ? fenced[1] : content;
+}
+
+/**
+ * Split a manifest response into files. Each file is wrapped in
+ * `--- FILE: <path> ---` and `--- END FILE ---` lines; text outside the
+ * markers is ignored.
+ */
+function splitFiles(text: string): { files: GeneratedFile[]; errors: string[] } {
+  const files: GeneratedFile[] = [];
+  const errors: string[] = [];
+  let current: { path: string; lines: string[] } | null = null;
+
+  for (const line of text.split('\n')) {
+    const header = line.match(FILE_HEADER);
+    if (header) {
+      if (current) {
+        errors.push(`${current.path}: missing "--- END FILE ---" before the next file`);
+      }
+      current = { path: header[1], lines: [] };
+    } else if (FILE_FOOTER.test(line)) {
+      if (current) {
+        files.push({ path: current.path, content: stripFence(current.lines.join('\n')).trim() + '\n' });
+        current = null;
+      }
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+
+  if (current) {
+    errors.push(`${current.path}: missing "--- END FILE ---", the response may have been cut off`);
+  }
+  return { files, errors };
+}
+
+/**
+ * Parse and validate a multi-file manifest. Errors are phrased so they can be
+ * sent back to the model for repair.
+ */
+export function parseFileManifest(text: string, rules: ManifestRules): FileManifestParseResult {
+  const { files, errors } = splitFiles(text);
+  if (files.length === 0 && errors.length === 0) {
+    return { success: false, errors: ['Response contains no "--- FILE: <path> ---" blocks'] };
+  }
+
+  const result = createFileManifestSchema(rules).safeParse(files);
+  const issues = result.success ? [] : result.error.issues.map(issue => {
+    const file = typeof issue.path[0] === 'number' ? files[issue.path[0]]?.path : undefined;
+    return file && !issue.message.includes(file) ? `${file}: ${issue.message}` : issue.message;
+  });
+
+  if (errors.length > 0 || issues.length > 0) {
+    return { success: false, errors: [...errors, ...issues] };
+  }
+  return { success: true, files };
+}
@@ -0,0 +1,155 @@
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from './llmProviders';
+
+/**
+ * A recorded or hand-written prompt→response pair replayed by the mock provider.
+ * Recorded fixtures are matched exactly by `key`; hand-written fixtures can use
+ * `match` to answer any prompt containing that text.
+ */
+export interface LLMFixture {
+  key?: string;
+  match?: string;
+  description?: string;
+  request?: Pick<LLMRequest, 'systemPrompt' | 'messages'>;
+  response: Pick<LLMResponse, 'text'> & Partial<Pick<LLMResponse, 'provider' | 'model' | 'usage'>>;
+  recordedAt?: string;
+}
+
+// Endpoint served by the fixture recorder plugin in vite.config.ts
+export const FIXTURE_RECORDER_ENDPOINT = '/__llm-fixtures';
+
+export const isMockMode = (): boolean => import.meta.env.VITE_AI_PROVIDER === 'mock';
+
+export const isRecordMode = (): boolean =>
+  import.meta.env.DEV && import.meta.env.VITE_AI_RECORD === 'true' && !isMockMode();
+
+/**
+ * Collapse whitespace so indentation changes in prompt templates do not
+ * invalidate recordings
+ */
+export function normalizePrompt(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// 64-bit string hash (cyrb53 variant), stable across browsers and Node
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fixture key for a request. Only the prompt takes part, so a recording made
+ * against one provider or model replays under any other.
+ */
+export function getFixtureKey(request: Pick<LLMRequest, 'systemPrompt' | 'messages'>): string {
+  return hashString(JSON.stringify({
+    systemPrompt: normalizePrompt(request.systemPrompt || ''),
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: normalizePrompt(message.content)
+    }))
+  }));
+}
+
+const loadFixtures = (): LLMFixture[] =>
+  Object.values(import.meta.glob<LLMFixture>('/fixtures/llm/*.json', { eager: true, import: 'default' }));
+
+export class MockLLMProvider implements LLMProvider {
+  id = 'mock';
+  name = 'Mock (offline)';
+  description = 'Replays recorded responses from fixtures/llm, no network needed';
+  defaultModel = 'replay';
+  models = [
+    { id: 'replay', name: 'Replay', description: 'Deterministic responses from recorded fixtures' }
+  ];
+  private fixtures: LLMFixture[];
+
+  constructor(fixtures: LLMFixture[] = loadFixtures()) {
+    this.fixtures = fixtures;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  findFixture(request: LLMRequest): LLMFixture | undefined {
+    const key = getFixtureKey(request);
+    const exact = this.fixtures.find(fixture => fixture.key === key);
+    if (exact) return exact;
+
+    const prompt = normalizePrompt(request.messages.map(message => message.content).join('\n'));
+    // Prefer the most specific hand-written pattern
+    return this.fixtures
+      .filter(fixture => fixture.match && prompt.includes(normalizePrompt(fixture.match)))
+      .sort((a, b) => (b.match?.length || 0) - (a.match?.length || 0))[0];
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    request.signal?.throwIfAborted();
+
+    const fixture = this.findFixture(request);
+    if (!fixture) {
+      throw new Error(
+        `No recorded fixture for prompt ${getFixtureKey(request)}. ` +
+        'Run once with VITE_AI_RECORD=true and a real provider to capture it.'
+      );
+    }
+
+    return {
+      text: fixture.response.text,
+      provider: this.id,
+      model: request.model || this.defaultModel,
+      usage: fixture.response.usage || { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      finishReason: 'stop'
+    };
+  }
+
+  /**
+   * Replays the fixture line by line so streaming consumers see incremental output
+   */
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const response = await this.complete(request);
+    for (const line of response.text.split(/(?<=\n)/)) {
+      request.signal?.throwIfAborted();
+      onToken(line);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return response;
+  }
+}
+
+/**
+ * Send a real request/response pair to the dev server so it is written to
+ * fixtures/llm/<key>.json. Failures only warn: recording must never break a
+ * generation.
+ */
+export async function recordFixture(request: LLMRequest, response: LLMResponse): Promise<void> {
+  const fixture: LLMFixture = {
+    key: getFixtureKey(request),
+    request: { systemPrompt: request.systemPrompt, messages: request.messages },
+    response: {
+      text: response.text,
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage
+    },
+    recordedAt: new Date().toISOString()
+  };
+
+  try {
+    await fetch(FIXTURE_RECORDER_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture)
+    });
+  } catch (error) {
+    console.warn('Failed to record LLM fixture:', error);
+  }
+}
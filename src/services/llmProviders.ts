@@ -0,0 +1,928 @@
+import OpenAI from 'openai';
+import { GoogleGenerativeAI, UsageMetadata } from '@google/generative-ai';
+import Anthropic from '@anthropic-ai/sdk';
+import axios from 'axios';
+import { DEFAULT_RETRY_POLICY, LLMRequestError, RetryPolicy, describeLLMError, withRetry } from './llmRetry';
+import { MockLLMProvider, isMockMode, isRecordMode, recordFixture } from './llmFixtures';
+import { ProxyLLMProvider, fetchProxyModels, isProxyMode } from './llmProxy';
+import { ResponseCache } from './responseCache';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Structured output request: providers with a JSON mode switch it on, and
+ * Anthropic is forced to call a tool whose input is the schema
+ */
+export interface LLMResponseFormat {
+  type: 'json';
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: LLMResponseFormat;
+  // Skip the response cache lookup; the fresh answer still replaces the cached one
+  bypassCache?: boolean;
+  // Project the call is charged to when the AI proxy records usage
+  projectId?: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMFailedAttempt {
+  provider: string;
+  model: string;
+  reason: string;
+  status?: number;
+  retries: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  finishReason?: string;
+  // Providers earlier in the failover chain that failed before this one answered
+  failedAttempts?: LLMFailedAttempt[];
+  // Served from the response cache without calling the provider
+  cached?: boolean;
+}
+
+export interface LLMModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  // Maximum prompt plus output tokens; unknown for discovered models
+  contextWindow?: number;
+}
+
+export type LLMTokenHandler = (token: string) => void;
+
+export type LLMResponseListener = (response: LLMResponse) => void;
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  description: string;
+  models: LLMModelInfo[];
+  defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream?(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse>;
+  // Refresh `models` from the provider itself, for servers whose models vary at runtime
+  discoverModels?(signal?: AbortSignal): Promise<LLMModelInfo[]>;
+}
+
+export interface LLMSelection {
+  provider: string;
+  model: string;
+}
+
+export interface LLMRegistryConfig {
+  retry: RetryPolicy;
+  // Providers tried, in order, after the requested one has failed
+  failoverChain: string[];
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 4000;
+
+const emptyUsage = (): LLMUsage => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+interface OpenAIWireUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+const fromOpenAIUsage = (usage?: OpenAIWireUsage | null): LLMUsage => usage
+  ? {
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens ?? 0
+    }
+  : emptyUsage();
+
+/**
+ * Read an OpenAI-style server-sent event stream from a fetch response,
+ * forwarding each content delta to onToken as it arrives.
+ */
+async function readOpenAIEventStream(
+  response: Response,
+  onToken: LLMTokenHandler
+): Promise<{ text: string; usage: LLMUsage; finishReason?: string }> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage = emptyUsage();
+  let finishReason: string | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      const chunk = JSON.parse(payload);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+      if (chunk.choices?.[0]?.finish_reason) {
+        finishReason = chunk.choices[0].finish_reason;
+      }
+      // Groq reports usage under x_groq on the final chunk
+      if (chunk.usage || chunk.x_groq?.usage) {
+        usage = fromOpenAIUsage(chunk.usage || chunk.x_groq.usage);
+      }
+    }
+  }
+
+  return { text, usage, finishReason };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  id = 'openai';
+  name = 'OpenAI';
+  description = 'GPT models for reliable performance';
+  defaultModel = 'gpt-4o-mini';
+  models = [
+    { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Fast and cost-effective', contextWindow: 128000 },
+    { id: 'gpt-4o', name: 'GPT-4o', description: 'Most capable model', contextWindow: 128000 },
+    { id: 'gpt-4', name: 'GPT-4', description: 'Previous flagship model', contextWindow: 8192 },
+    { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and affordable', contextWindow: 16385 }
+  ];
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.isConfigured()) {
+      throw new Error('OpenAI API key not configured');
+    }
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+        dangerouslyAllowBrowser: true,
+        // Retries are handled by LLMProviderRegistry
+        maxRetries: 0
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.getClient().chat.completions.create(
+      {
+        model,
+        messages: this.buildMessages(request),
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.responseFormat ? { response_format: { type: 'json_object' as const } } : {})
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      provider: this.id,
+      model,
+      usage: fromOpenAIUsage(response.usage),
+      finishReason: response.choices[0]?.finish_reason ?? undefined
+    };
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model,
+        messages: this.buildMessages(request),
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.responseFormat ? { response_format: { type: 'json_object' as const } } : {}),
+        stream: true,
+        stream_options: { include_usage: true }
+      },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    let usage = emptyUsage();
+    let finishReason: string | undefined;
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+      if (chunk.choices[0]?.finish_reason) {
+        finishReason = chunk.choices[0].finish_reason;
+      }
+      if (chunk.usage) {
+        usage = fromOpenAIUsage(chunk.usage);
+      }
+    }
+
+    return { text, provider: this.id, model, usage, finishReason };
+  }
+
+  private buildMessages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+      ...request.messages
+    ];
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  id = 'anthropic';
+  name = 'Anthropic';
+  description = 'Claude models for thoughtful responses';
+  defaultModel = 'claude-3-sonnet-20240229';
+  models = [
+    { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', description: 'Balanced performance', contextWindow: 200000 },
+    { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', description: 'Fast and efficient', contextWindow: 200000 }
+  ];
+  private client: Anthropic | null = null;
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_ANTHROPIC_API_KEY;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.isConfigured()) {
+      throw new Error('Anthropic API key not configured');
+    }
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
+        dangerouslyAllowBrowser: true,
+        // Retries are handled by LLMProviderRegistry
+        maxRetries: 0
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.getClient().messages.create(this.buildParams(request, model), {
+      signal: request.signal
+    });
+
+    // With a response format the answer is the forced tool call's input
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    const textBlock = response.content.find(block => block.type === 'text');
+
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : textBlock?.text || '',
+      provider: this.id,
+      model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens
+      },
+      finishReason: response.stop_reason ?? undefined
+    };
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const stream = this.getClient().messages.stream(this.buildParams(request, model), {
+      signal: request.signal
+    });
+
+    let text = '';
+    for await (const event of stream) {
+      if (event.type !== 'content_block_delta') continue;
+
+      const token = event.delta.type === 'text_delta'
+        ? event.delta.text
+        : event.delta.type === 'input_json_delta' ? event.delta.partial_json : '';
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    }
+
+    const finalMessage = await stream.finalMessage();
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: {
+        inputTokens: finalMessage.usage.input_tokens,
+        outputTokens: finalMessage.usage.output_tokens,
+        totalTokens: finalMessage.usage.input_tokens + finalMessage.usage.output_tokens
+      },
+      finishReason: finalMessage.stop_reason ?? undefined
+    };
+  }
+
+  private buildParams(request: LLMRequest, model: string): Anthropic.MessageCreateParamsNonStreaming {
+    const format = request.responseFormat;
+    return {
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+      ...(format
+        ? {
+            tools: [{
+              name: format.name,
+              description: format.description,
+              input_schema: format.schema as Anthropic.Tool.InputSchema
+            }],
+            tool_choice: { type: 'tool' as const, name: format.name }
+          }
+        : {}),
+      messages: request.messages
+    };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  id = 'gemini';
+  name = 'Google Gemini';
+  description = 'Google\'s multimodal AI models';
+  defaultModel = 'gemini-2.5-pro';
+  models = [
+    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Latest and most capable', contextWindow: 1048576 },
+    { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: 'Large context window', contextWindow: 2097152 }
+  ];
+  private client: GoogleGenerativeAI | null = null;
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_GEMINI_API_KEY;
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.isConfigured()) {
+      throw new Error('Gemini API key not configured');
+    }
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.getModel(request).generateContent(
+      { contents: this.buildContents(request) },
+      { signal: request.signal }
+    );
+
+    return {
+      text: response.response.text(),
+      provider: this.id,
+      model,
+      usage: this.toUsage(response.response.usageMetadata),
+      finishReason: response.response.candidates?.[0]?.finishReason
+    };
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const result = await this.getModel(request).generateContentStream(
+      { contents: this.buildContents(request) },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      const token = chunk.text();
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    }
+
+    const response = await result.response;
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: this.toUsage(response.usageMetadata),
+      finishReason: response.candidates?.[0]?.finishReason
+    };
+  }
+
+  private getModel(request: LLMRequest) {
+    return this.getClient().getGenerativeModel({
+      model: request.model || this.defaultModel,
+      ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.responseFormat ? { responseMimeType: 'application/json' } : {})
+      }
+    });
+  }
+
+  private buildContents(request: LLMRequest) {
+    return request.messages.map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }]
+    }));
+  }
+
+  private toUsage(metadata?: UsageMetadata): LLMUsage {
+    return metadata
+      ? {
+          inputTokens: metadata.promptTokenCount,
+          outputTokens: metadata.candidatesTokenCount,
+          totalTokens: metadata.totalTokenCount
+        }
+      : emptyUsage();
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  description: string;
+  // Base URL including the version segment, e.g. http://localhost:11434/v1
+  baseURL: string;
+  apiKey?: string;
+  requiresApiKey?: boolean;
+  models?: LLMModelInfo[];
+  defaultModel?: string;
+  // Applied to discovered models, since /models does not report it
+  contextWindow?: number;
+}
+
+interface OpenAIWireModel {
+  id: string;
+  owned_by?: string;
+}
+
+/**
+ * Any server that speaks the OpenAI chat-completions wire format: hosted
+ * APIs such as Groq, or self-hosted Ollama, llama.cpp and LM Studio. Called
+ * through axios rather than an SDK so the base URL and auth stay configurable.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  id: string;
+  name: string;
+  description: string;
+  defaultModel: string;
+  models: LLMModelInfo[];
+  protected baseURL: string;
+  protected apiKey?: string;
+  protected requiresApiKey: boolean;
+  protected contextWindow?: number;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.description = config.description;
+    this.baseURL = config.baseURL.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.requiresApiKey = config.requiresApiKey ?? false;
+    this.contextWindow = config.contextWindow;
+    this.models = config.models || [];
+    this.defaultModel = config.defaultModel || this.models[0]?.id || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseURL && (!this.requiresApiKey || !!this.apiKey);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = await this.resolveModelId(request);
+    const response = await axios.post(
+      `${this.baseURL}/chat/completions`,
+      this.buildBody({ ...request, model }, false),
+      {
+        headers: this.getHeaders(),
+        signal: request.signal
+      }
+    );
+
+    return {
+      text: response.data.choices[0]?.message?.content || '',
+      provider: this.id,
+      model,
+      usage: fromOpenAIUsage(response.data.usage),
+      finishReason: response.data.choices[0]?.finish_reason
+    };
+  }
+
+  /**
+   * axios cannot expose a response body as a stream in the browser, so
+   * streaming goes through fetch instead
+   */
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const model = await this.resolveModelId(request);
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.buildBody({ ...request, model }, true)),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `${this.name} request failed with status ${response.status}`,
+        response.status,
+        response.headers.get('retry-after')
+      );
+    }
+
+    const result = await readOpenAIEventStream(response, onToken);
+    return { ...result, provider: this.id, model };
+  }
+
+  /**
+   * Replace the model list with whatever the server reports from /models.
+   * Self-hosted servers only know which models are installed at runtime.
+   */
+  async discoverModels(signal?: AbortSignal): Promise<LLMModelInfo[]> {
+    const wireModels: OpenAIWireModel[] = isProxyMode()
+      ? await fetchProxyModels(this.id, signal)
+      : (await axios.get(`${this.baseURL}/models`, { headers: this.getHeaders(), signal })).data.data || [];
+
+    const discovered: LLMModelInfo[] = wireModels.map(model => ({
+      id: model.id,
+      name: model.id,
+      description: model.owned_by ? `Served by ${model.owned_by}` : 'Discovered from endpoint',
+      contextWindow: this.contextWindow
+    }));
+
+    if (discovered.length > 0) {
+      this.models = discovered;
+      if (!discovered.some(model => model.id === this.defaultModel)) {
+        this.defaultModel = discovered[0].id;
+      }
+    }
+    return this.models;
+  }
+
+  // Without a configured model, use the first one the server has installed
+  private async resolveModelId(request: LLMRequest): Promise<string> {
+    const model = request.model || this.defaultModel;
+    if (model) return model;
+
+    const [discovered] = await this.discoverModels(request.signal);
+    if (!discovered) {
+      throw new Error(`${this.name} has no models available`);
+    }
+    return discovered.id;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    if (!this.isConfigured()) {
+      throw new Error(this.requiresApiKey
+        ? `${this.name} API key not configured`
+        : `${this.name} base URL not configured`);
+    }
+    return {
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      'Content-Type': 'application/json'
+    };
+  }
+
+  protected buildBody(request: LLMRequest, stream: boolean) {
+    return {
+      model: request.model || this.defaultModel,
+      messages: [
+        ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+        ...request.messages
+      ],
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.responseFormat ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {})
+    };
+  }
+}
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super({
+      id: 'groq',
+      name: 'Groq',
+      description: 'Ultra-fast inference with Llama, Qwen, DeepSeek',
+      baseURL: 'https://api.groq.com/openai/v1',
+      apiKey: import.meta.env.VITE_GROQ_API_KEY,
+      requiresApiKey: true,
+      defaultModel: import.meta.env.VITE_GROQ_MODEL || 'llama-3.1-70b-versatile',
+      models: [
+        { id: 'llama-3.1-70b-versatile', name: 'Llama 3.1 70B', description: 'Most capable, balanced performance', contextWindow: 131072 },
+        { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Fast and efficient', contextWindow: 131072 },
+        { id: 'llama-3.2-90b-text-preview', name: 'Llama 3.2 90B', description: 'Latest model, preview', contextWindow: 8192 },
+        { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', description: 'Mixture of experts model', contextWindow: 32768 },
+        { id: 'gemma-7b-it', name: 'Gemma 7B', description: 'Google\'s instruction-tuned model', contextWindow: 8192 },
+        { id: 'qwen2-72b-instruct', name: 'Qwen2 72B', description: 'Alibaba\'s multilingual model', contextWindow: 32768 },
+        { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 70B', description: 'Reasoning-focused model', contextWindow: 131072 }
+      ]
+    });
+  }
+
+  // The curated list above carries descriptions; Groq's /models does not
+  async discoverModels(): Promise<LLMModelInfo[]> {
+    return this.models;
+  }
+}
+
+export class LLMProviderRegistry {
+  private static providers: Map<string, LLMProvider> = new Map();
+  private static activeSelection: LLMSelection | null = null;
+  private static responseListeners: Set<LLMResponseListener> = new Set();
+  private static config: LLMRegistryConfig = {
+    retry: DEFAULT_RETRY_POLICY,
+    failoverChain: (import.meta.env.VITE_AI_FAILOVER || '')
+      .split(',')
+      .map((id: string) => id.trim())
+      .filter(Boolean)
+  };
+
+  /**
+   * Register a provider, replacing any existing provider with the same id
+   */
+  static register(provider: LLMProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  static get(providerId: string): LLMProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new Error(`Unsupported AI provider: ${providerId}`);
+    }
+    return provider;
+  }
+
+  static has(providerId: string): boolean {
+    return this.providers.has(providerId);
+  }
+
+  static list(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  static getModelInfo(providerId: string, modelId: string): LLMModelInfo | undefined {
+    return this.has(providerId) ? this.get(providerId).models.find(model => model.id === modelId) : undefined;
+  }
+
+  /**
+   * The provider and model used when a caller does not ask for a specific one.
+   * Defaults to VITE_AI_PROVIDER until the user picks something in the UI.
+   */
+  static getActiveSelection(): LLMSelection {
+    if (this.activeSelection) {
+      return this.activeSelection;
+    }
+
+    const providerId = import.meta.env.VITE_AI_PROVIDER || 'groq';
+    const provider = this.has(providerId) ? this.get(providerId) : this.get('groq');
+    return { provider: provider.id, model: provider.defaultModel };
+  }
+
+  /**
+   * Ask every configured provider that supports discovery for its current
+   * model list. A provider that cannot be reached keeps its previous list.
+   * Behind the proxy, the proxy decides which providers are configured.
+   */
+  static async discoverModels(signal?: AbortSignal): Promise<void> {
+    await Promise.all(this.list()
+      .filter(provider => provider.discoverModels && (isProxyMode() || provider.isConfigured()))
+      .map(async provider => {
+        try {
+          await provider.discoverModels?.(signal);
+        } catch (error) {
+          if (!signal?.aborted) {
+            console.warn(`Model discovery failed for ${provider.name}:`, error);
+          }
+        }
+      }));
+  }
+
+  static setActiveSelection(selection: LLMSelection): void {
+    this.get(selection.provider);
+    this.activeSelection = selection;
+  }
+
+  /**
+   * Observe every successful call, whichever service made it. Returns a
+   * function that removes the listener.
+   */
+  static addResponseListener(listener: LLMResponseListener): () => void {
+    this.responseListeners.add(listener);
+    return () => {
+      this.responseListeners.delete(listener);
+    };
+  }
+
+  static configure(config: Partial<LLMRegistryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  static getConfig(): LLMRegistryConfig {
+    return this.config;
+  }
+
+  /**
+   * Run a completion against a specific provider, or the active selection,
+   * with retries and failover along the configured chain
+   */
+  static async complete(request: LLMRequest, providerId?: string): Promise<LLMResponse> {
+    return this.withCache(request, providerId, () =>
+      this.runWithFailover(request, providerId, (provider, resolved) => provider.complete(resolved))
+    );
+  }
+
+  /**
+   * Stream a completion token by token. Providers without streaming support
+   * fall back to a regular completion delivered as a single token. Once tokens
+   * have been emitted a failure is final, since output cannot be taken back.
+   */
+  static async stream(request: LLMRequest, onToken: LLMTokenHandler, providerId?: string): Promise<LLMResponse> {
+    let hasEmitted = false;
+    const trackedOnToken = (token: string) => {
+      hasEmitted = true;
+      onToken(token);
+    };
+
+    return this.withCache(
+      request,
+      providerId,
+      () => this.runWithFailover(
+        request,
+        providerId,
+        async (provider, resolved) => {
+          if (provider.stream) {
+            return provider.stream(resolved, trackedOnToken);
+          }
+          const response = await provider.complete(resolved);
+          trackedOnToken(response.text);
+          return response;
+        },
+        () => !hasEmitted
+      ),
+      cached => onToken(cached.text)
+    );
+  }
+
+  /**
+   * Answer from the response cache when the same request was made before, and
+   * cache fresh answers from the requested provider. Cache hits are free, so
+   * they are not reported to response listeners. Mock and record runs always
+   * call the provider.
+   */
+  private static async withCache(
+    request: LLMRequest,
+    providerId: string | undefined,
+    call: () => Promise<LLMResponse>,
+    onHit?: (response: LLMResponse) => void
+  ): Promise<LLMResponse> {
+    const primaryId = providerId || this.getActiveSelection().provider;
+    if (isMockMode() || isRecordMode() || !this.has(primaryId) || !ResponseCache.isAvailable()) {
+      return call();
+    }
+
+    const key = ResponseCache.getKey(primaryId, this.resolveModel(this.get(primaryId), request));
+    if (!request.bypassCache && !ResponseCache.isBypassed()) {
+      const cached = await ResponseCache.get(key);
+      request.signal?.throwIfAborted();
+      if (cached) {
+        onHit?.(cached);
+        return cached;
+      }
+    }
+
+    const response = await call();
+    // A failover answer is not what the key asked for
+    if (response.provider === primaryId && !response.failedAttempts) {
+      void ResponseCache.set(key, response);
+    }
+    return response;
+  }
+
+  private static async runWithFailover(
+    request: LLMRequest,
+    providerId: string | undefined,
+    call: (provider: LLMProvider, request: LLMRequest) => Promise<LLMResponse>,
+    canRetry: () => boolean = () => true
+  ): Promise<LLMResponse> {
+    // Mock mode answers every call, including ones pinned to a specific provider
+    const primaryId = isMockMode() ? 'mock' : providerId || this.getActiveSelection().provider;
+    const failoverChain = isMockMode() ? [] : this.config.failoverChain;
+    const chain = [primaryId, ...failoverChain.filter(id => id !== primaryId && this.has(id))];
+    const failedAttempts: LLMFailedAttempt[] = [];
+
+    for (const [index, id] of chain.entries()) {
+      const registered = this.get(id);
+      // Mock responses stay local even when a proxy is configured
+      const provider = isProxyMode() && id !== 'mock' ? new ProxyLLMProvider(registered) : registered;
+      if (index > 0 && !provider.isConfigured()) {
+        continue;
+      }
+
+      // An explicit model only applies to the provider it was chosen for
+      const resolved = this.resolveModel(provider, index === 0 ? request : { ...request, model: undefined });
+      let retries = 0;
+
+      try {
+        const response = await withRetry(() => call(provider, resolved), {
+          policy: this.config.retry,
+          signal: request.signal,
+          canRetry,
+          onRetry: ({ attempt, delayMs, error }) => {
+            retries = attempt;
+            console.warn(`${provider.name} failed (${error.message}), retry ${attempt} in ${delayMs}ms`);
+          }
+        });
+        if (isRecordMode()) {
+          void recordFixture(resolved, response);
+        }
+        const result = failedAttempts.length > 0 ? { ...response, failedAttempts } : response;
+        this.notifyResponseListeners(result);
+        return result;
+      } catch (error) {
+        if (request.signal?.aborted || !canRetry()) throw error;
+
+        const details = describeLLMError(error, this.config.retry);
+        failedAttempts.push({
+          provider: provider.id,
+          model: resolved.model || provider.defaultModel,
+          reason: details.message,
+          status: details.status,
+          retries
+        });
+      }
+    }
+
+    throw new Error(
+      `All AI providers failed: ${failedAttempts.map(attempt => `${attempt.provider}: ${attempt.reason}`).join('; ')}`
+    );
+  }
+
+  private static notifyResponseListeners(response: LLMResponse): void {
+    for (const listener of this.responseListeners) {
+      try {
+        listener(response);
+      } catch (error) {
+        // Observers must never fail a generation
+        console.error('LLM response listener failed:', error);
+      }
+    }
+  }
+
+  private static resolveModel(provider: LLMProvider, request: LLMRequest): LLMRequest {
+    const selection = this.getActiveSelection();
+    const model = request.model || (provider.id === selection.provider ? selection.model : provider.defaultModel);
+    return { ...request, model };
+  }
+}
+
+LLMProviderRegistry.register(new GroqProvider());
+LLMProviderRegistry.register(new OpenAIProvider());
+LLMProviderRegistry.register(new AnthropicProvider());
+LLMProviderRegistry.register(new GeminiProvider());
+LLMProviderRegistry.register(new OpenAICompatibleProvider({
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible',
+  description: 'Self-hosted models via Ollama, llama.cpp or LM Studio',
+  baseURL: import.meta.env.VITE_OPENAI_COMPATIBLE_BASE_URL || '',
+  apiKey: import.meta.env.VITE_OPENAI_COMPATIBLE_API_KEY,
+  defaultModel: import.meta.env.VITE_OPENAI_COMPATIBLE_MODEL,
+  contextWindow: Number(import.meta.env.VITE_OPENAI_COMPATIBLE_CONTEXT_WINDOW) || undefined
+}));
+LLMProviderRegistry.register(new MockLLMProvider());
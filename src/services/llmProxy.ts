@@ -0,0 +1,142 @@
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from './llmProviders';
+import { LLMRequestError } from './llmRetry';
+import { isMockMode } from './llmFixtures';
+
+// Base URL of the AI proxy in server/, e.g. /api behind the Vite dev proxy
+const AI_PROXY_URL = (import.meta.env.VITE_AI_PROXY_URL || '').replace(/\/+$/, '');
+
+/**
+ * With a proxy configured, provider calls go through server/ and no API keys
+ * are needed (or should be set) in the browser
+ */
+export const isProxyMode = (): boolean => !!AI_PROXY_URL && !isMockMode();
+
+async function getAccessToken(): Promise<string | undefined> {
+  // Loaded lazily so offline and mock runs work without Supabase configured
+  const { supabase } = await import('../lib/supabase');
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+}
+
+/**
+ * The models the proxy reports for a provider, in the OpenAI /models shape.
+ * Discovery goes through the proxy so the provider's base URL and key stay
+ * on the server.
+ */
+export async function fetchProxyModels(providerId: string, signal?: AbortSignal): Promise<{ id: string; owned_by?: string }[]> {
+  const token = await getAccessToken();
+  const response = await fetch(`${AI_PROXY_URL}/models?provider=${encodeURIComponent(providerId)}`, {
+    headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    signal
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new LLMRequestError(
+      body?.error?.message || `AI proxy model discovery failed with status ${response.status}`,
+      response.status,
+      response.headers.get('retry-after')
+    );
+  }
+  const body = await response.json();
+  return body.models || [];
+}
+
+/**
+ * Sends a provider's requests to the AI proxy instead of the provider itself.
+ * The proxy answers with the provider's status codes, so retries and failover
+ * in LLMProviderRegistry behave the same as for direct calls.
+ */
+export class ProxyLLMProvider implements LLMProvider {
+  id: string;
+  name: string;
+  description: string;
+  models: LLMProvider['models'];
+  defaultModel: string;
+
+  constructor(provider: LLMProvider) {
+    this.id = provider.id;
+    this.name = provider.name;
+    this.description = provider.description;
+    this.models = provider.models;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  // Keys live on the proxy, which reports unconfigured providers itself
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request, false);
+    return response.json();
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler): Promise<LLMResponse> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+
+        const event = JSON.parse(line.slice(5));
+        if (event.token) {
+          onToken(event.token);
+        } else if (event.response) {
+          return event.response;
+        } else if (event.error) {
+          throw new LLMRequestError(event.error.message, event.error.status);
+        }
+      }
+    }
+
+    throw new Error(`${this.name} stream ended without a response`);
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const token = await getAccessToken();
+    const response = await fetch(`${AI_PROXY_URL}/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({
+        provider: this.id,
+        model: request.model,
+        messages: request.messages,
+        systemPrompt: request.systemPrompt,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        responseFormat: request.responseFormat,
+        projectId: request.projectId,
+        stream
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new LLMRequestError(
+        body?.error?.message || `AI proxy request failed with status ${response.status}`,
+        response.status,
+        response.headers.get('retry-after')
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,201 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest Retry-After worth waiting for; a longer one fails the attempt straight away
+  maxRetryAfterMs: number;
+  retryableStatuses: number[];
+}
+
+export interface RetryAttemptInfo {
+  attempt: number;
+  delayMs: number;
+  error: LLMErrorDetails;
+}
+
+export interface LLMErrorDetails {
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+  retryable: boolean;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+
+// A missing or malformed setting must not turn into unlimited retries
+function parseMaxRetries(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_MAX_RETRIES;
+  const retries = Number(value);
+  if (Number.isInteger(retries) && retries >= 0) return retries;
+  console.warn(`Ignoring VITE_AI_MAX_RETRIES="${value}", expected a whole number; using ${DEFAULT_MAX_RETRIES}`);
+  return DEFAULT_MAX_RETRIES;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: parseMaxRetries(import.meta.env.VITE_AI_MAX_RETRIES),
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxRetryAfterMs: 60000,
+  retryableStatuses: [408, 409, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Error for provider calls made without an SDK (fetch based streaming), so
+ * they carry the same status and Retry-After information as SDK errors.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfter?: string | null
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Error names the OpenAI and Anthropic SDKs and fetch use for failed connections and timeouts
+const NETWORK_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError', 'TimeoutError'];
+// Error codes from axios, Node and undici
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN',
+  'ERR_NETWORK', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT'
+];
+// fetch rejects with a TypeError carrying one of these messages when the request never got through
+const FETCH_FAILURE = /failed to fetch|fetch failed|networkerror|network request failed|load failed/i;
+
+/**
+ * Whether a failure without a status happened on the way to or from the
+ * provider, rather than in our own code (parse errors, schema errors, bugs)
+ */
+function isNetworkError(error: unknown): boolean {
+  const candidate = error as { name?: string; code?: string; cause?: { code?: string } } | null;
+  if (!candidate) return false;
+  if (candidate.name && NETWORK_ERROR_NAMES.includes(candidate.name)) return true;
+  if ([candidate.code, candidate.cause?.code].some(code => code && NETWORK_ERROR_CODES.includes(code))) return true;
+  return error instanceof TypeError && FETCH_FAILURE.test(error.message);
+}
+
+/**
+ * Normalise the error shapes thrown by the OpenAI, Anthropic and Gemini SDKs,
+ * axios and fetch into one description the retry loop can act on.
+ */
+export function describeLLMError(error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY): LLMErrorDetails {
+  const candidate = error as {
+    status?: number;
+    headers?: unknown;
+    retryAfter?: string | null;
+    response?: { status?: number; headers?: unknown; data?: { error?: { message?: string } } };
+  } | null;
+
+  const status = candidate?.status ?? candidate?.response?.status;
+  const retryAfter = candidate?.retryAfter
+    ?? readHeader(candidate?.headers, 'retry-after')
+    ?? readHeader(candidate?.response?.headers, 'retry-after');
+  const message = candidate?.response?.data?.error?.message
+    || (error instanceof Error ? error.message : 'Unknown error');
+
+  const retryAfterMs = parseRetryAfter(retryAfter);
+
+  return {
+    message: status ? `${status} ${message}` : message,
+    status,
+    retryAfterMs,
+    // Requests that never got a response (network failures, timeouts) are worth another try,
+    // but not when the provider asks us to wait longer than we are prepared to
+    retryable: status === undefined
+      ? isNetworkError(error)
+      : policy.retryableStatuses.includes(status)
+        && (retryAfterMs === undefined || retryAfterMs <= policy.maxRetryAfterMs)
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before the given retry: the provider's Retry-After when it sent one,
+ * otherwise exponential backoff with full jitter.
+ */
+export function getRetryDelay(attempt: number, details: LLMErrorDetails, policy: RetryPolicy): number {
+  if (details.retryAfterMs !== undefined) {
+    return Math.min(details.retryAfterMs, policy.maxRetryAfterMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an operation, retrying retryable failures according to the policy.
+ * Aborts are never retried, and canRetry lets callers veto a retry (for
+ * example once a stream has already emitted tokens).
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: {
+    policy?: RetryPolicy;
+    signal?: AbortSignal;
+    canRetry?: () => boolean;
+    onRetry?: (info: RetryAttemptInfo) => void;
+  } = {}
+): Promise<T> {
+  const policy = options.policy || DEFAULT_RETRY_POLICY;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const details = describeLLMError(error, policy);
+      const canRetry = options.canRetry ? options.canRetry() : true;
+      if (!details.retryable || !canRetry || attempt >= policy.maxRetries) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, details, policy);
+      options.onRetry?.({ attempt: attempt + 1, delayMs, error: details });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// USD per million tokens
+export interface ModelRate {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices keyed by `provider/model`; `provider/*` covers every model of a
+ * provider. Shared by the browser's session totals and the AI proxy, which
+ * records what each call cost.
+ */
+export const DEFAULT_RATES: Record<string, ModelRate> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4': { input: 30, output: 60 },
+  'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'anthropic/claude-3-sonnet-20240229': { input: 3, output: 15 },
+  'anthropic/claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'gemini/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini/gemini-1.5-pro': { input: 1.25, output: 5 },
+  'groq/llama-3.1-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq/llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'groq/llama-3.2-90b-text-preview': { input: 0.9, output: 0.9 },
+  'groq/mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  'groq/gemma-7b-it': { input: 0.07, output: 0.07 },
+  'groq/deepseek-r1-distill-llama-70b': { input: 0.75, output: 0.99 },
+  // Self-hosted and offline providers cost nothing per token
+  'openai-compatible/*': { input: 0, output: 0 },
+  'mock/*': { input: 0, output: 0 }
+};
+
+/**
+ * Rate overrides from a JSON object in the same shape as DEFAULT_RATES,
+ * e.g. {"openai/gpt-4o":{"input":2.5,"output":10}}
+ */
+export function parseRateOverrides(raw: string | undefined, source: string): Record<string, ModelRate> {
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`Ignoring invalid ${source}:`, error);
+    return {};
+  }
+}
+
+export function findRate(rates: Record<string, ModelRate>, provider: string, model: string): ModelRate | undefined {
+  return rates[`${provider}/${model}`] ?? rates[`${provider}/*`];
+}
+
+/**
+ * Cost of a call in USD, or null when no rate is configured for the model
+ */
+export function priceTokens(
+  rates: Record<string, ModelRate>,
+  provider: string,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): number | null {
+  const rate = findRate(rates, provider, model);
+  if (!rate) return null;
+  return (usage.inputTokens * rate.input + usage.outputTokens * rate.output) / 1_000_000;
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { findImports, resolveImport } from './fileManifest';
+import { FRONTEND_PROFILES } from './stackProfiles';
+import { TypeCheckService } from './typeCheck';
+import type { FileDiagnostic } from '../types/codeGeneration';
 
 // Type definitions
 export interface GeneratedCode {
@@ -30,6 +34,11 @@ export interface PreviewResult {
   logs?: string[];
 }
 
+// Extensions tried when resolving imports between generated files
+const MODULE_RESOLUTION_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.css', '.json'];
+// Exports of each bundled module by path, filled in as the modules run
+const MODULE_REGISTRY = '__modules';
+
 // Validation schemas
 const GeneratedCodeSchema = z.object({
   frontend: z.string().optional(),
@@ -42,16 +51,35 @@ const GeneratedCodeSchema = z.object({
 });
 
 export class PreviewService {
-  static async generatePreview(generatedCode: unknown): Promise<PreviewResult> {
+  static async generatePreview(generatedCode: unknown, signal?: AbortSignal): Promise<PreviewResult> {
+    // A cancelled generation must not replace the current preview
+    signal?.throwIfAborted();
+
     try {
       console.log('🚀 Starting preview generation...');
       
       // Validate input
       const validatedCode = this.validateGeneratedCode(generatedCode);
       console.log('✅ Code validation passed');
+
+      // Only React runs in the browser sandbox; other frameworks need their own build
+      const files = validatedCode as Record<string, string>;
+      const unsupported = FRONTEND_PROFILES.find(profile => !profile.previewable && files[profile.manifest.entryFile]);
+      if (unsupported) {
+        const message = `Live preview supports React only. Download the project and run \`npm install && ${unsupported.devCommand}\` to see the ${unsupported.name} app.`;
+        return {
+          url: this.createBlobUrl(this.createUnsupportedPreview(unsupported.name, message, Object.keys(files).sort())),
+          status: 'error',
+          error: message,
+          logs: [`${unsupported.name} app detected`, 'Live preview skipped']
+        };
+      }
       
-      // Extract and clean the React code from App.js
-      const appCode = validatedCode['src/App.js'] || validatedCode.frontend || '';
+      // Extract and clean the React code from App.js and the modules it imports;
+      // TypeScript apps have their types stripped first
+      const modules = files['src/App.tsx'] ? await this.transpileModules(files) : files;
+      const entry = files['src/App.tsx'] ? 'src/App.tsx' : 'src/App.js';
+      const appCode = this.bundleModules(modules, entry) || validatedCode.frontend || '';
       const cleanCode = this.extractAndCleanReactCode(appCode);
       console.log('🧹 Code cleaned and extracted');
       
@@ -120,6 +148,193 @@ export class PreviewService {
     }
   }
 
+  /**
+   * Compile the app the way the preview will, without rendering it, and report
+   * what would break against the generated file it comes from
+   */
+  static async checkCompilation(code: Record<string, string>): Promise<FileDiagnostic[]> {
+    const entry = code['src/App.tsx'] ? 'src/App.tsx' : 'src/App.js';
+    const modules = code['src/App.tsx'] ? await this.transpileModules(code) : code;
+    const script = this.extractAndCleanReactCode(this.bundleModules(modules, entry));
+    if (!script) {
+      return [{
+        file: entry,
+        line: 1,
+        column: 1,
+        message: 'The preview found no App component; declare it as `function App` and export it as default',
+        type: 'preview',
+        severity: 'error'
+      }];
+    }
+
+    // Loaded on demand so the compiler stays out of the main bundle
+    const { CodeAnalysisService } = await import('./codeAnalysis');
+    const lines = script.split('\n');
+    return CodeAnalysisService.validateCode(script, 'preview.jsx').errors.map(error => {
+      // Modules are bundled under a "// <path>" header; count lines from there
+      let file = entry;
+      let headerLine = 0;
+      for (let index = error.line - 1; index >= 0; index--) {
+        const header = lines[index].match(/^\/\/ (src\/\S+)$/);
+        if (header && modules[header[1]] !== undefined) {
+          file = header[1];
+          headerLine = index + 1;
+          break;
+        }
+      }
+      const source = lines[error.line - 1]?.trim();
+      return {
+        ...error,
+        file,
+        line: Math.max(error.line - headerLine, 1),
+        message: `${error.message} when the preview bundles the app${source ? ` (at \`${source}\`)` : ''}`,
+        type: 'preview'
+      };
+    });
+  }
+
+  private static async transpileModules(code: Record<string, string>): Promise<Record<string, string>> {
+    const entries = await Promise.all(Object.entries(code).map(async ([path, content]) => [
+      path,
+      typeof content === 'string' && /\.tsx?$/.test(path) && !path.endsWith('.d.ts') ? await TypeCheckService.transpile(path, content) : content
+    ]));
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Join the entry file and the modules it imports into one script,
+   * dependencies first. Each module runs in its own function scope, so two
+   * files may declare the same name; imports read from a registry of the
+   * exports of modules that already ran, and the entry's default export
+   * becomes App.
+   */
+  private static bundleModules(code: Record<string, string>, entry: string): string {
+    const app = code[entry];
+    if (typeof app !== 'string') return '';
+
+    const paths = new Set(Object.keys(code).filter(path => typeof code[path] === 'string'));
+    const visited = new Set<string>();
+    const order: string[] = [];
+    const visit = (path: string) => {
+      if (visited.has(path)) return;
+      visited.add(path);
+      for (const specifier of findImports(code[path])) {
+        const target = specifier.startsWith('.') ? resolveImport(path, specifier, paths, MODULE_RESOLUTION_EXTENSIONS) : null;
+        if (target && target !== 'src/index.css') {
+          visit(target);
+        }
+      }
+      // Post-order, so every module comes after the ones it imports
+      order.push(path);
+    };
+    visit(entry);
+
+    const styles: string[] = [];
+    const scripts: string[] = [];
+    const registry = (path: string) => `${MODULE_REGISTRY}[${JSON.stringify(path)}]`;
+    // Rewrites keep the line count, so errors still point at the right line of the file
+    const sameLines = (replaced: string, replacement: string) => replacement + '\n'.repeat((replaced.match(/\n/g) || []).length);
+
+    order.forEach(path => {
+      if (path.endsWith('.css')) {
+        styles.push(code[path]);
+        return;
+      }
+      if (path.endsWith('.json')) {
+        scripts.push(`${registry(path)} = { default: ${code[path].trim() || 'null'} };`);
+        return;
+      }
+      if (!/\.[jt]sx?$/.test(path)) return;
+
+      const resolve = (specifier: string) =>
+        specifier.startsWith('.') ? resolveImport(path, specifier, paths, MODULE_RESOLUTION_EXTENSIONS) : null;
+      // `a as b` becomes the destructuring `a: b`
+      const bindings = (names: string) => names.split(',').map(name => name.trim()).filter(Boolean)
+        .map(name => name.replace(/\s+as\s+/, ': '));
+      const exported: string[] = [];
+      const reexported: string[] = [];
+
+      let source = code[path];
+
+      // Re-exports, as in index files that gather components, read from the registry when the module returns
+      source = source.replace(/^[ \t]*export\s*(\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*['"]([^'"]+)['"];?/gm, (match, clause: string, specifier: string) => {
+        const target = resolve(specifier);
+        if (!target) return sameLines(match, '');
+        if (clause === '*') {
+          reexported.push(registry(target));
+        } else if (clause.startsWith('*')) {
+          exported.push(`${clause.replace(/^\*\s+as\s+/, '')}: ${registry(target)}`);
+        } else {
+          exported.push(...bindings(clause.slice(1, -1)).map(name => {
+            const [imported, alias = imported] = name.split(/:\s*/);
+            return `${alias}: ${registry(target)}.${imported}`;
+          }));
+        }
+        return sameLines(match, '');
+      });
+
+      // Imports: React comes from the page, relative modules from the registry, other packages are not available
+      source = source.replace(/^[ \t]*import\s+([\w*{}\s,$]+?)\s+from\s+['"]([^'"]+)['"];?/gm, (match, clause: string, specifier: string) => {
+        const named = bindings(clause.match(/\{([^}]*)\}/)?.[1] || '');
+        const defaultImport = clause.replace(/\{[^}]*\}/, '').replace(/,/g, ' ').trim().split(/\s+/)[0];
+
+        if (specifier === 'react') {
+          return sameLines(match, named.length > 0 ? `const { ${named.join(', ')} } = React;` : '');
+        }
+        const target = resolve(specifier);
+        if (!target) return sameLines(match, '');
+
+        if (defaultImport.startsWith('*')) {
+          return sameLines(match, `const ${defaultImport.replace(/^\*\s*as\s+/, '')} = ${registry(target)};`);
+        }
+        const fields = [...(defaultImport ? [`default: ${defaultImport}`] : []), ...named];
+        return sameLines(match, fields.length > 0 ? `const { ${fields.join(', ')} } = ${registry(target)};` : '');
+      });
+      source = source.replace(/^[ \t]*import\s+['"][^'"]+['"];?/gm, '');
+
+      // Exports: keep the declarations and collect what the module exports
+      const defaultDeclaration = source.match(/export\s+default\s+(?:async\s+)?(?:function\*?|class)\s+(\w+)/);
+      const defaultIdentifier = source.match(/^[ \t]*export\s+default\s+([\w$]+)\s*;?[ \t]*$/m);
+      if (defaultDeclaration) {
+        exported.push(`default: ${defaultDeclaration[1]}`);
+        source = source.replace(/export\s+default\s+((?:async\s+)?(?:function|class)\b)/, '$1');
+      } else if (defaultIdentifier) {
+        exported.push(`default: ${defaultIdentifier[1]}`);
+        source = source.replace(defaultIdentifier[0], '');
+      } else if (/export\s+default\s+/.test(source)) {
+        exported.push('default: __default');
+        source = source.replace(/export\s+default\s+/, 'const __default = ');
+      }
+
+      source = source.replace(/export\s+((?:async\s+)?function\*?|class|const|let|var)\s+([\w$]+)/g, (_, keyword: string, name: string) => {
+        exported.push(name);
+        return `${keyword} ${name}`;
+      });
+      source = source.replace(/export\s*\{([^}]*)\}\s*;?/g, (match, names: string) => {
+        exported.push(...bindings(names).map(name => {
+          const [local, alias] = name.split(/:\s*/);
+          return alias ? `${alias}: ${local}` : local;
+        }));
+        return sameLines(match, '');
+      });
+
+      scripts.push(`${registry(path)} = (() => {
+// ${path}
+${source.trimEnd()}
+return { ${[...reexported.map(module => `...${module}`), ...exported].join(', ')} };
+})();`);
+    });
+
+    const preamble = [`const ${MODULE_REGISTRY} = {};`];
+    if (styles.length > 0) {
+      // Inline styles through the DOM, escaped so CSS cannot close the script tag
+      preamble.push(
+        `document.head.appendChild(Object.assign(document.createElement('style'), { textContent: ${JSON.stringify(styles.join('\n')).replace(/<\//g, '<\\/')} }));`
+      );
+    }
+    return [...preamble, ...scripts, `const App = ${registry(entry)}.default;`].join('\n\n');
+  }
+
   private static extractAndCleanReactCode(content: string): string {
     if (!content || content.trim() === '') {
       return '';
@@ -577,6 +792,26 @@ export default App;</code></pre>
 </html>`;
   }
 
+  private static createUnsupportedPreview(framework: string, message: string, paths: string[]): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(framework)} App</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center p-4">
+  <div class="max-w-2xl w-full bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+    <h1 class="text-xl font-bold text-gray-900 mb-2">Your ${this.escapeHtml(framework)} app is ready</h1>
+    <p class="text-gray-700 mb-4">${this.escapeHtml(message)}</p>
+    <h2 class="text-sm font-semibold text-gray-900 mb-2">Generated files</h2>
+    <pre class="text-gray-800 text-sm bg-gray-100 p-3 rounded overflow-x-auto">${paths.map(path => this.escapeHtml(path)).join('\n')}</pre>
+  </div>
+</body>
+</html>`;
+  }
+
   private static createBlobUrl(html: string): string {
     const blob = new Blob([html], { type: 'text/html' });
     return URL.createObjectURL(blob);
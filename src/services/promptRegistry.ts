@@ -0,0 +1,162 @@
+import type { ParsedFeature } from './ai';
+import type { UserPreferences } from './enhancedAI';
+import type { GeneratedFile } from './fileManifest';
+import type { ResolvedStack } from './stackProfiles';
+import type { APISpec, ComponentSpec, DatabaseSpec, FileDiagnostic, PromptProvenance } from '../types/codeGeneration';
+import { hashString } from './llmFixtures';
+import { DEFAULT_PROMPT_TEMPLATES } from './promptTemplates';
+
+/**
+ * Variables each template takes, keyed by template id. Rendering with the
+ * wrong variables is a type error.
+ */
+export interface PromptVariables {
+  'parse-idea': { idea: string };
+  'parse-idea-repair': { errors: string[] };
+  'clarify-idea': { idea: string; stack: ResolvedStack };
+  'feature-edit': { idea: string; request: string; features: ParsedFeature[] };
+  'react-app': { idea: string; features: ParsedFeature[] };
+  'app-manifest': { idea: string; features: ParsedFeature[]; stack: ResolvedStack; components?: ComponentSpec[] };
+  'app-manifest-repair': { errors: string[] };
+  'acceptance-tests': { idea: string; features: ParsedFeature[]; files: GeneratedFile[]; stack: ResolvedStack };
+  'acceptance-tests-repair': { path: string; errors: string[] };
+  'app-fix': { files: GeneratedFile[]; diagnostics: FileDiagnostic[] };
+  'app-edit': { request: string; files: GeneratedFile[]; stack: ResolvedStack };
+  'app-edit-repair': { errors: string[] };
+  'backend': { idea: string; features: ParsedFeature[]; stack: ResolvedStack };
+  'database-schema': { idea: string; features: ParsedFeature[]; stack: ResolvedStack };
+  'component-spec': { spec: ComponentSpec; preferences?: UserPreferences };
+  'api-spec': { spec: APISpec };
+  'database-spec': { spec: DatabaseSpec };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptId = PromptId> {
+  id: K;
+  version: string;
+  description: string;
+  render: (variables: PromptVariables[K]) => string;
+  // Replacements for specific providers, keyed by provider id
+  variants?: Record<string, (variables: PromptVariables[K]) => string>;
+}
+
+// Any one template, with its variables still tied to its id
+export type AnyPromptTemplate = { [K in PromptId]: PromptTemplate<K> }[PromptId];
+
+/**
+ * Split traffic between two versions of a template. candidateShare is the
+ * fraction of renders (0-1) that get the candidate.
+ */
+export interface PromptExperiment {
+  templateId: PromptId;
+  control: string;
+  candidate: string;
+  candidateShare: number;
+}
+
+export interface RenderOptions {
+  // Provider the prompt is sent to, for picking a variant
+  provider?: string;
+  // Pin a version, bypassing the active version and any experiment
+  version?: string;
+  // Stable key (user id, project id) so repeated renders land in the same experiment arm
+  subjectKey?: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  provenance: PromptProvenance;
+}
+
+export class PromptRegistry {
+  private static templates: Map<PromptId, Map<string, AnyPromptTemplate>> = new Map();
+  private static activeVersions: Map<PromptId, string> = new Map();
+  private static experiments: Map<PromptId, PromptExperiment> = new Map();
+
+  /**
+   * Register a template version. The most recently registered version becomes
+   * the active one unless another has been pinned with setActiveVersion.
+   */
+  static register(template: AnyPromptTemplate): void {
+    let versions = this.templates.get(template.id);
+    if (!versions) {
+      versions = new Map();
+      this.templates.set(template.id, versions);
+    }
+    versions.set(template.version, template);
+  }
+
+  static getVersions(id: PromptId): string[] {
+    return Array.from(this.templates.get(id)?.keys() || []);
+  }
+
+  static getActiveVersion(id: PromptId): string {
+    const pinned = this.activeVersions.get(id);
+    if (pinned) return pinned;
+
+    const versions = this.getVersions(id);
+    if (versions.length === 0) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    return versions[versions.length - 1];
+  }
+
+  static setActiveVersion(id: PromptId, version: string): void {
+    this.getTemplate(id, version);
+    this.activeVersions.set(id, version);
+  }
+
+  static startExperiment(experiment: PromptExperiment): void {
+    this.getTemplate(experiment.templateId, experiment.control);
+    this.getTemplate(experiment.templateId, experiment.candidate);
+    this.experiments.set(experiment.templateId, experiment);
+  }
+
+  static stopExperiment(id: PromptId): void {
+    this.experiments.delete(id);
+  }
+
+  /**
+   * Render a template, choosing the version (pinned, experiment arm or active)
+   * and the provider variant, and report which ones were used
+   */
+  static render<K extends PromptId>(id: K, variables: PromptVariables[K], options: RenderOptions = {}): RenderedPrompt {
+    const experiment = options.version ? undefined : this.experiments.get(id);
+    const version = options.version
+      || (experiment ? this.pickExperimentArm(experiment, options.subjectKey) : this.getActiveVersion(id));
+
+    const template = this.getTemplate(id, version);
+    const variant = options.provider && template.variants?.[options.provider] ? options.provider : 'default';
+    const render = variant === 'default' ? template.render : template.variants![variant];
+
+    return {
+      text: render(variables),
+      provenance: {
+        templateId: id,
+        version,
+        variant,
+        ...(experiment ? { experiment: true } : {})
+      }
+    };
+  }
+
+  private static getTemplate<K extends PromptId>(id: K, version: string): PromptTemplate<K> {
+    const template = this.templates.get(id)?.get(version);
+    if (!template) {
+      throw new Error(`Unknown prompt template: ${id}@${version}`);
+    }
+    // Templates are stored under their own id, so the variables match
+    return template as unknown as PromptTemplate<K>;
+  }
+
+  private static pickExperimentArm(experiment: PromptExperiment, subjectKey?: string): string {
+    // Hash the subject into [0, 1) so the same subject always gets the same arm
+    const bucket = subjectKey
+      ? parseInt(hashString(`${experiment.templateId}:${subjectKey}`).slice(0, 8), 16) / 0x100000000
+      : Math.random();
+    return bucket < experiment.candidateShare ? experiment.candidate : experiment.control;
+  }
+}
+
+DEFAULT_PROMPT_TEMPLATES.forEach(template => PromptRegistry.register(template));
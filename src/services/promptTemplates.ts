@@ -0,0 +1,483 @@
+import type { AnyPromptTemplate } from './promptRegistry';
+import { describeStackFeatures } from './stackProfiles';
+
+/**
+ * Built-in prompt templates. To change a prompt, add a new version next to
+ * the old one instead of editing it, so artifacts stay traceable to the text
+ * that produced them.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: AnyPromptTemplate[] = [
+  {
+    id: 'parse-idea',
+    version: '1',
+    description: 'Extract a feature list from an app idea as JSON',
+    render: ({ idea }) => `Analyze this app idea and extract key features: "${idea}"
+
+Return a JSON object with this exact structure:
+{
+  "features": [
+    {
+      "id": "unique-id",
+      "name": "Feature Name",
+      "description": "Brief description",
+      "category": "ui|backend|database|security|integration",
+      "complexity": "low|medium|high",
+      "enabled": true,
+      "dependencies": ["other-feature-ids"],
+      "implementation": "Brief implementation note"
+    }
+  ]
+}
+
+Focus on practical, implementable features. Include UI components, data management, user interactions, and core functionality.`
+  },
+  {
+    id: 'parse-idea',
+    version: '2',
+    description: 'Extract a feature list with user stories and acceptance criteria from an app idea as JSON',
+    render: ({ idea }) => `Analyze this app idea and extract key features: "${idea}"
+
+Return a JSON object with this exact structure:
+{
+  "features": [
+    {
+      "id": "unique-id",
+      "name": "Feature Name",
+      "description": "Brief description",
+      "category": "ui|backend|database|security|integration",
+      "complexity": "low|medium|high",
+      "enabled": true,
+      "dependencies": ["other-feature-ids"],
+      "implementation": "Brief implementation note",
+      "userStories": ["As a <user>, I want <goal>, so that <reason>"],
+      "acceptanceCriteria": ["Given <context>, when <action>, then <observable result>"]
+    }
+  ]
+}
+
+Focus on practical, implementable features. Include UI components, data management, user interactions, and core functionality.
+Give each feature 1 to 3 user stories and 2 to 4 acceptance criteria. Each criterion must describe one result a user can see, specific enough to check in an automated test.`
+  },
+  {
+    id: 'parse-idea-repair',
+    version: '1',
+    description: 'Ask the model to fix a feature list that failed validation',
+    render: ({ errors }) => `Your previous response did not match the required structure:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON object with every feature, and nothing else.`
+  },
+  {
+    id: 'clarify-idea',
+    version: '1',
+    description: 'Questions that make a vague app idea specific before features are extracted',
+    render: ({ idea, stack }) => `Someone wants to build this app: "${idea}"
+It will be a ${stack.frontend.name} app with a ${stack.backend.name} backend and ${stack.database.name}.
+
+Before planning its features, ask them 3 to 5 short questions about what the idea leaves open. Cover, where it is unclear:
+- audience: who will use it
+- entities: the main things it stores and how they relate
+- auth: whether people sign in and which roles there are
+- platform: desktop, phone or both
+- scope: what the first version must do well
+Skip topics the idea already answers. Give each question up to 4 short example answers.
+
+Return a JSON object with this exact structure:
+{
+  "questions": [
+    { "topic": "audience|entities|auth|platform|scope|other", "question": "...", "suggestions": ["..."] }
+  ]
+}`
+  },
+  {
+    id: 'feature-edit',
+    version: '1',
+    description: 'Apply a natural-language change request to the feature list as JSON',
+    render: ({ idea, request, features }) => `These are the planned features of the app "${idea}":
+${JSON.stringify({ features }, null, 2)}
+
+The user asked: "${request}"
+
+Update the list to match the request:
+- Remove features the user wants dropped, and remove their ids from other features' dependencies
+- Add requested features with a new unique id, a category, a complexity and "enabled": true
+- Set "enabled" to false or true when the user wants a feature turned off or back on without removing it
+- Set "priority" to "high", "medium" or "low" when the user changes how important a feature is
+- Keep every other feature exactly as it is, including its id
+
+Return the complete updated JSON object in the same structure, and nothing else.`
+  },
+  {
+    id: 'feature-edit',
+    version: '2',
+    description: 'Apply a natural-language change request to the feature list, keeping stories and criteria, as JSON',
+    render: ({ idea, request, features }) => `These are the planned features of the app "${idea}":
+${JSON.stringify({ features }, null, 2)}
+
+The user asked: "${request}"
+
+Update the list to match the request:
+- Remove features the user wants dropped, and remove their ids from other features' dependencies
+- Add requested features with a new unique id, a category, a complexity, "enabled": true, user stories and Given/When/Then acceptance criteria
+- Set "enabled" to false or true when the user wants a feature turned off or back on without removing it
+- Set "priority" to "high", "medium" or "low" when the user changes how important a feature is
+- Change "userStories" and "acceptanceCriteria" only when the request is about them
+- Keep every other feature exactly as it is, including its id, stories and criteria
+
+Return the complete updated JSON object in the same structure, and nothing else.`
+  },
+  {
+    id: 'react-app',
+    version: '1',
+    description: 'Single-file React App component for the preview',
+    render: ({ idea, features }) => `Create a complete React functional component for: "${idea}"
+
+Features to implement:
+${features.map(f => `- ${f.name}: ${f.description}`).join('\n')}
+
+Requirements:
+- Use React hooks (useState, useEffect)
+- Include Tailwind CSS classes for styling
+- Make it fully functional and interactive
+- Add proper error handling
+- Include loading states where appropriate
+- Make it responsive and modern looking
+- Don't include any imports or exports (they'll be added automatically)
+
+Return only the React component code, starting with the function declaration.`
+  },
+  {
+    id: 'app-manifest',
+    version: '1',
+    description: 'Multi-file React app as a delimited file manifest',
+    render: ({ idea, features }) => `Create a multi-file React application for: "${idea}"
+
+Features to implement:
+${features.map(f => `- ${f.name}: ${f.description}`).join('\n')}
+
+Split the app into focused files under src/:
+- src/App.js composes the app and ends with \`export default App;\`
+- src/components/ for one component per file, named after the component
+- src/hooks/ for custom hooks, src/utils/ for plain helpers, and .css files only for styles Tailwind cannot express
+
+Requirements:
+- Plain JavaScript with JSX and React hooks, no TypeScript
+- Style with Tailwind CSS classes
+- Import only from react and from the other files you write, using relative paths
+- Give each file one default export named after the file
+- Do not write src/index.js or src/index.css; they already exist
+- Make it fully functional, responsive, and handle errors and loading states
+
+Return every file in this exact format, with nothing else before, between or after the files:
+
+--- FILE: src/App.js ---
+<file contents>
+--- END FILE ---
+--- FILE: src/components/Example.js ---
+<file contents>
+--- END FILE ---`
+  },
+  {
+    id: 'app-manifest',
+    version: '2',
+    description: 'Multi-file app for the selected frontend framework as a delimited file manifest',
+    render: ({ idea, features, stack }) => `Create a multi-file ${stack.frontend.name} application for: "${idea}"
+
+Features to implement:
+${features.map(f => `- ${f.name}: ${f.description}`).join('\n')}
+
+Split the app into focused files under src/:
+${stack.frontend.guidance.map(line => `- ${line}`).join('\n')}
+
+Requirements:
+- Style with Tailwind CSS classes; add .css files only for styles Tailwind cannot express
+- Import only from ${stack.frontend.manifest.packages.join(', ')} and from the other files you write, using relative paths
+- Do not write ${stack.frontend.manifest.reserved.join(' or ')}; they already exist
+- The app talks to a ${stack.backend.name} API under /api backed by ${stack.database.name}; keep data in local state when no API is reachable
+- Make it fully functional, responsive, and handle errors and loading states
+${describeStackFeatures(stack).map(line => `- ${line}`).join('\n')}
+
+Return every file in this exact format, with nothing else before, between or after the files:
+
+--- FILE: ${stack.frontend.manifest.entryFile} ---
+<file contents>
+--- END FILE ---
+--- FILE: <path of the next file> ---
+<file contents>
+--- END FILE ---`
+  },
+  {
+    id: 'app-manifest',
+    version: '3',
+    description: 'Multi-file app for the selected frontend framework, built from the planned components when there are any',
+    render: ({ idea, features, stack, components = [] }) => `Create a multi-file ${stack.frontend.name} application for: "${idea}"
+
+Features to implement:
+${features.map(f => `- ${f.name}: ${f.description}`).join('\n')}
+${components.length > 0 ? `
+Components planned for the app. Write each one in its own file under src/components/, named exactly as planned and taking exactly these props (? marks an optional prop), and build the app from them:
+${components.map(c => `- ${c.name}(${c.props.map(p => `${p.name}${p.required ? '' : '?'}: ${p.type}`).join(', ')})`).join('\n')}
+` : ''}
+Split the app into focused files under src/:
+${stack.frontend.guidance.map(line => `- ${line}`).join('\n')}
+
+Requirements:
+- Style with Tailwind CSS classes; add .css files only for styles Tailwind cannot express
+- Import only from ${stack.frontend.manifest.packages.join(', ')} and from the other files you write, using relative paths
+- Do not write ${stack.frontend.manifest.reserved.join(' or ')}; they already exist
+- The app talks to a ${stack.backend.name} API under /api backed by ${stack.database.name}; keep data in local state when no API is reachable
+- Make it fully functional, responsive, and handle errors and loading states
+${describeStackFeatures(stack).map(line => `- ${line}`).join('\n')}
+
+Return every file in this exact format, with nothing else before, between or after the files:
+
+--- FILE: ${stack.frontend.manifest.entryFile} ---
+<file contents>
+--- END FILE ---
+--- FILE: <path of the next file> ---
+<file contents>
+--- END FILE ---`
+  },
+  {
+    id: 'app-manifest-repair',
+    version: '1',
+    description: 'Ask the model to fix a file manifest that failed validation',
+    render: ({ errors }) => `Your previous response could not be used:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected set of files in the same "--- FILE: <path> ---" format, and nothing else.`
+  },
+  {
+    id: 'app-fix',
+    version: '1',
+    description: 'Fix errors found by checking and compiling the generated files',
+    render: ({ files, diagnostics }) => `These files have errors that stop the app from compiling:
+${diagnostics.map(diagnostic => `- ${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`).join('\n')}
+
+${files.map(file => `--- FILE: ${file.path} ---\n${file.content.trimEnd()}\n--- END FILE ---`).join('\n')}
+
+Fix these errors without changing what the app does. Return the complete set of files in the same "--- FILE: <path> ---" format, and nothing else.`
+  },
+  {
+    id: 'acceptance-tests',
+    version: '1',
+    description: 'Tests for the generated app, one per acceptance criterion',
+    render: ({ idea, features, files, stack }) => `These are the files of a ${stack.frontend.name} app for "${idea}":
+
+${files.map(file => `--- FILE: ${file.path} ---\n${file.content.trimEnd()}\n--- END FILE ---`).join('\n')}
+
+Write ${stack.frontend.tests.runner} tests in ${stack.frontend.tests.file} that check the app against these acceptance criteria:
+${features.map(f => `${f.name}:\n${(f.acceptanceCriteria || []).map(criterion => `- ${criterion}`).join('\n')}`).join('\n')}
+
+Requirements:
+- One describe block per feature, named after it, with one test per criterion that uses the criterion text exactly as its name
+- Render the app from ${stack.frontend.manifest.entryFile.replace(/^src\//, './').replace(/\.(js|tsx)$/, '')} and drive it the way a user would, finding elements by role, label or text
+- Import only from ${stack.frontend.tests.packages.join(', ')}, ${stack.frontend.manifest.packages[0]} and the app's own files${stack.frontend.tests.runner === 'Vitest' ? "; import describe, it and expect from 'vitest'" : ''}
+- Use it.todo("<criterion>") for a criterion the current app cannot satisfy or that cannot be checked in the browser
+
+Return only the contents of ${stack.frontend.tests.file}.`
+  },
+  {
+    id: 'acceptance-tests-repair',
+    version: '1',
+    description: 'Ask the model to fix tests that do not type-check against the app',
+    render: ({ path, errors }) => `Your tests do not compile against the app:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Fix them so they use only what the app's files export, with the props its components accept. Return only the complete corrected contents of ${path}.`
+  },
+  {
+    id: 'app-edit',
+    version: '1',
+    description: 'Targeted search/replace edits to an existing app for a follow-up request',
+    render: ({ request, files, stack }) => `This ${stack.frontend.name} app already exists:
+
+${files.map(file => `--- FILE: ${file.path} ---\n${file.content.trimEnd()}\n--- END FILE ---`).join('\n')}
+
+Change it as follows: "${request}"
+
+Change only what the request needs and keep everything else as it is. New files go under src/ and may only import from ${stack.frontend.manifest.packages.join(', ')} and the app's own files.
+
+Return each change as a search/replace block inside an edit section for its file, with nothing else before, between or after the sections:
+
+--- EDIT: <path of the file> ---
+<<<<<<< SEARCH
+<lines copied exactly from the current file, enough to match one place>
+=======
+<the lines that replace them>
+>>>>>>> REPLACE
+--- END EDIT ---
+
+Use several blocks in one section for several changes to the same file. To create a file, leave SEARCH empty and put the whole file under the divider.`
+  },
+  {
+    id: 'app-edit-repair',
+    version: '1',
+    description: 'Ask the model to redo edits that could not be applied',
+    render: ({ errors }) => `Some of your edits could not be applied:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return only the edits that failed, corrected, in the same "--- EDIT: <path> ---" format. Copy SEARCH lines exactly from the files as they were given to you.`
+  },
+  {
+    id: 'backend',
+    version: '1',
+    description: 'Express backend for the app',
+    render: ({ idea, features }) => `Create a Node.js Express backend for: "${idea}"
+
+Features: ${features.map(f => f.name).join(', ')}
+
+Include:
+- Express server setup
+- API routes
+- Middleware
+- Error handling
+- CORS configuration
+
+Return complete server code.`
+  },
+  {
+    id: 'backend',
+    version: '2',
+    description: 'Backend for the app in the selected framework',
+    render: ({ idea, features, stack }) => `Create a ${stack.backend.name} backend for: "${idea}"
+
+Features: ${features.map(f => f.name).join(', ')}
+Database: ${stack.database.name}
+
+Include:
+${[...stack.backend.guidance, ...describeStackFeatures(stack)].map(line => `- ${line}`).join('\n')}
+
+Return complete ${stack.backend.language} code for ${stack.backend.entryFile}.`
+  },
+  {
+    id: 'database-schema',
+    version: '1',
+    description: 'SQL schema for the app',
+    render: ({ idea, features }) => `Create a database schema for: "${idea}"
+
+Features: ${features.map(f => f.name).join(', ')}
+
+Return SQL CREATE TABLE statements with proper relationships and indexes.`
+  },
+  {
+    id: 'database-schema',
+    version: '2',
+    description: 'Schema for the app in the selected database',
+    render: ({ idea, features, stack }) => `Create a database schema for: "${idea}"
+
+Features: ${features.map(f => f.name).join(', ')}
+Database: ${stack.database.name}
+${stack.features.authentication ? 'Include a users table or collection and link user-owned records to it.\n' : ''}
+${stack.database.guidance.join('\n')}`
+  },
+  {
+    id: 'component-spec',
+    version: '1',
+    description: 'TypeScript React component from a ComponentSpec',
+    render: ({ spec, preferences }) => `
+      Generate a React component with the following specifications:
+      
+      Component: ${spec.name}
+      Type: ${spec.type}
+      Props: ${JSON.stringify(spec.props)}
+      Styling: ${JSON.stringify(spec.styling)}
+      Accessibility: ${JSON.stringify(spec.accessibility)}
+      Performance: ${JSON.stringify(spec.performance)}
+      
+      ${preferences ? `
+      User Preferences:
+      - Code Style: ${JSON.stringify(preferences.codeStyle)}
+      - Frameworks: ${JSON.stringify(preferences.frameworks)}
+      - Patterns: ${JSON.stringify(preferences.patterns)}
+      ` : ''}
+      
+      Requirements:
+      - Use TypeScript with proper type definitions
+      - Follow React best practices
+      - Implement proper error boundaries
+      - Include accessibility features
+      - Optimize for performance
+      - Add comprehensive JSDoc comments
+      - Include prop validation
+      - Handle edge cases gracefully
+    `
+  },
+  {
+    id: 'api-spec',
+    version: '1',
+    description: 'Express REST API from an APISpec',
+    render: ({ spec }) => `
+      Generate a REST API with the following specifications:
+      
+      Endpoints: ${JSON.stringify(spec.endpoints)}
+      Authentication: ${JSON.stringify(spec.authentication)}
+      Validation: ${JSON.stringify(spec.validation)}
+      Documentation: ${JSON.stringify(spec.documentation)}
+      Testing: ${JSON.stringify(spec.testing)}
+      
+      Requirements:
+      - Use Express.js with TypeScript
+      - Implement proper error handling
+      - Add input validation and sanitization
+      - Include authentication middleware
+      - Add rate limiting
+      - Implement proper logging
+      - Include comprehensive API documentation
+      - Add security headers
+      - Handle CORS properly
+    `
+  },
+  {
+    id: 'api-spec',
+    version: '2',
+    description: 'REST API from an APISpec for the planned server framework and language',
+    render: ({ spec }) => {
+      const server = spec.server || { framework: 'Express.js', language: 'TypeScript' };
+      return `
+      Generate a REST API with the following specifications:
+      
+      Endpoints: ${JSON.stringify(spec.endpoints)}
+      Authentication: ${JSON.stringify(spec.authentication)}
+      Validation: ${JSON.stringify(spec.validation)}
+      Documentation: ${JSON.stringify(spec.documentation)}
+      Testing: ${JSON.stringify(spec.testing)}
+      
+      Requirements:
+      - Write it in ${server.language} for ${server.framework}, as one module the server entry file can load
+      - Implement proper error handling
+      - Add input validation and sanitization
+      - Include authentication middleware
+      - Add rate limiting
+      - Implement proper logging
+      - Include comprehensive API documentation
+      - Add security headers
+      - Handle CORS properly
+    `;
+    }
+  },
+  {
+    id: 'database-spec',
+    version: '1',
+    description: 'Database schema from a DatabaseSpec',
+    render: ({ spec }) => `
+      Generate a database schema with the following specifications:
+      
+      Type: ${spec.type}
+      Tables: ${JSON.stringify(spec.tables)}
+      Relationships: ${JSON.stringify(spec.relationships)}
+      Indexes: ${JSON.stringify(spec.indexes)}
+      Migrations: ${JSON.stringify(spec.migrations)}
+      
+      Requirements:
+      - Create proper table structures
+      - Define relationships and constraints
+      - Add appropriate indexes
+      - Include data validation
+      - Implement row-level security
+      - Add audit trails
+      - Include backup strategies
+      - Optimize for performance
+    `
+  }
+];
@@ -0,0 +1,233 @@
+import type { LLMRequest, LLMResponse } from './llmProviders';
+import { hashString, normalizePrompt } from './llmFixtures';
+
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  response: LLMResponse;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const DB_NAME = 'idea2app-response-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const BYPASS_STORAGE_KEY = 'idea2app.responseCache.bypass';
+
+// How long a response is reused, overridable with VITE_AI_CACHE_TTL_HOURS
+export const DEFAULT_CACHE_TTL_MS = (Number(import.meta.env.VITE_AI_CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// Wraps an IndexedDB request in a promise
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Content-addressed store of provider responses in IndexedDB, so identical
+ * prompts are not billed twice. Every operation degrades to a miss when
+ * IndexedDB is unavailable or failing; the cache must never fail a generation.
+ */
+export class ResponseCache {
+  private static db: Promise<IDBDatabase> | null = null;
+  private static ttlMs = DEFAULT_CACHE_TTL_MS;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Key for a request with its model already resolved. Whitespace in prompts
+   * is normalized the same way as fixture keys; sampling parameters and the
+   * response format take part because they change the answer.
+   */
+  static getKey(providerId: string, request: LLMRequest): string {
+    return hashString(JSON.stringify({
+      provider: providerId,
+      model: request.model || '',
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null,
+      responseFormat: request.responseFormat ?? null,
+      systemPrompt: normalizePrompt(request.systemPrompt || ''),
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: normalizePrompt(message.content)
+      }))
+    }));
+  }
+
+  static setTtl(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Whether the user has turned reuse off. Persisted per browser.
+   */
+  static isBypassed(): boolean {
+    try {
+      return localStorage.getItem(BYPASS_STORAGE_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  static setBypass(bypass: boolean): void {
+    try {
+      if (bypass) {
+        localStorage.setItem(BYPASS_STORAGE_KEY, 'true');
+      } else {
+        localStorage.removeItem(BYPASS_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Could not persist the response cache setting:', error);
+    }
+  }
+
+  /**
+   * Cached response for a key, flagged as cached, or undefined on a miss.
+   * Expired entries are removed as they are found.
+   */
+  static async get(key: string): Promise<LLMResponse | undefined> {
+    if (!this.isAvailable()) return undefined;
+
+    try {
+      const db = await this.open();
+      const entry = await settle<CachedResponse | undefined>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key)
+      );
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        void this.delete(key);
+        return undefined;
+      }
+      return { ...entry.response, cached: true, failedAttempts: undefined };
+    } catch (error) {
+      console.warn('Response cache lookup failed:', error);
+      return undefined;
+    }
+  }
+
+  static async set(key: string, response: LLMResponse): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const now = Date.now();
+    const entry: CachedResponse = {
+      key,
+      provider: response.provider,
+      model: response.model,
+      response: { ...response, cached: undefined, failedAttempts: undefined },
+      createdAt: now,
+      expiresAt: now + this.ttlMs
+    };
+
+    try {
+      const db = await this.open();
+      await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.warn('Failed to cache response:', error);
+    }
+  }
+
+  static async delete(key: string): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      const db = await this.open();
+      await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+    } catch (error) {
+      console.warn('Failed to remove cached response:', error);
+    }
+  }
+
+  /**
+   * Drop cached responses, optionally only those from one provider or model.
+   * Returns how many entries were removed.
+   */
+  static async invalidate(filter: { provider?: string; model?: string } = {}): Promise<number> {
+    return this.deleteWhere(entry =>
+      (!filter.provider || entry.provider === filter.provider) &&
+      (!filter.model || entry.model === filter.model)
+    );
+  }
+
+  static async clear(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      const db = await this.open();
+      await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('Failed to clear the response cache:', error);
+    }
+  }
+
+  /**
+   * Remove every expired entry. Returns how many were removed.
+   */
+  static async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    return this.deleteWhere(entry => entry.expiresAt <= now);
+  }
+
+  static async count(): Promise<number> {
+    if (!this.isAvailable()) return 0;
+
+    try {
+      const db = await this.open();
+      return await settle(db.transaction(STORE_NAME).objectStore(STORE_NAME).count());
+    } catch (error) {
+      console.warn('Failed to count cached responses:', error);
+      return 0;
+    }
+  }
+
+  private static async deleteWhere(predicate: (entry: CachedResponse) => boolean): Promise<number> {
+    if (!this.isAvailable()) return 0;
+
+    try {
+      const db = await this.open();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const cursorRequest = store.openCursor();
+      let removed = 0;
+
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          if (predicate(cursor.value as CachedResponse)) {
+            cursor.delete();
+            removed++;
+          }
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+      return removed;
+    } catch (error) {
+      console.warn('Failed to invalidate cached responses:', error);
+      return 0;
+    }
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      this.db = settle(request).catch(error => {
+        // Let the next call try again rather than caching the failure
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
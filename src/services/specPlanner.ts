@@ -0,0 +1,412 @@
+import type { ParsedFeature } from './ai';
+import type {
+  APISpec,
+  ColumnSpec,
+  ComponentSpec,
+  DatabaseSpec,
+  EndpointSpec,
+  MiddlewareSpec,
+  PropSpec,
+  TableSpec
+} from '../types/codeGeneration';
+import { orderFeatures, resolveFeatureId } from './featureGraph';
+import { resolveStack, ResolvedStack, StackSelection } from './stackProfiles';
+import type { ModelCallOptions } from './enhancedAI';
+
+/**
+ * Concrete specs for every layer of the app, planned from its features and
+ * edited by the user before they drive ModularCodeGenerator
+ */
+export interface SpecPlan {
+  components: ComponentSpec[];
+  api: APISpec;
+  database: DatabaseSpec;
+}
+
+export type PlannedLayer = 'components' | 'api' | 'database';
+
+type ColumnKind = 'id' | 'reference' | 'text' | 'longText' | 'timestamp';
+
+const COLUMN_TYPES: Record<DatabaseSpec['type'], Record<ColumnKind, string>> = {
+  postgresql: { id: 'UUID', reference: 'UUID', text: 'TEXT', longText: 'TEXT', timestamp: 'TIMESTAMPTZ' },
+  mysql: { id: 'CHAR(36)', reference: 'CHAR(36)', text: 'VARCHAR(255)', longText: 'TEXT', timestamp: 'DATETIME' },
+  sqlite: { id: 'INTEGER', reference: 'INTEGER', text: 'TEXT', longText: 'TEXT', timestamp: 'TEXT' },
+  mongodb: { id: 'ObjectId', reference: 'ObjectId', text: 'String', longText: 'String', timestamp: 'Date' }
+};
+
+// Words that say how data is handled rather than what it is
+const GENERIC_WORDS = new Set([
+  'data', 'storage', 'database', 'persistence', 'backend', 'api', 'rest', 'server', 'sync', 'management', 'manager',
+  'system', 'tracking', 'tracker', 'list', 'form', 'view', 'page', 'dashboard', 'module', 'feature', 'support',
+  'basic', 'advanced', 'simple', 'main', 'core'
+]);
+
+function nameWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function meaningfulWords(text: string): string[] {
+  return nameWords(text).filter(word => !GENERIC_WORDS.has(word));
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+function singularize(word: string): string {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  return word.replace(/s$/, '');
+}
+
+function pascalCase(words: string[]): string {
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+}
+
+function uniqueName(base: string, taken: Set<string>, separator = '_'): string {
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}${separator}${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Table name for a data feature: its own distinctive words, or else the
+ * word its dependents share, so "Data Storage" behind "Item List" and
+ * "Item Form" becomes "items"
+ */
+function tableNameFor(feature: ParsedFeature, features: ParsedFeature[]): string {
+  const own = meaningfulWords(feature.name);
+  if (own.length > 0) {
+    return [...own.slice(0, -1), pluralize(singularize(own[own.length - 1]))].join('_');
+  }
+
+  const counts = new Map<string, number>();
+  features
+    .filter(other => other.dependencies.some(reference => resolveFeatureId(features, reference) === feature.id))
+    .forEach(other => meaningfulWords(other.name).forEach(word => counts.set(word, (counts.get(word) || 0) + 1)));
+  const [shared] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return shared ? pluralize(singularize(shared[0])) : 'records';
+}
+
+function column(name: string, type: string, options: Partial<ColumnSpec> = {}): ColumnSpec {
+  return { name, type, nullable: false, unique: false, primaryKey: false, ...options };
+}
+
+function timestampDefault(type: DatabaseSpec['type']): string {
+  return type === 'mongodb' ? 'Date.now' : 'CURRENT_TIMESTAMP';
+}
+
+function createTable(name: string, columns: ColumnSpec[]): TableSpec {
+  return { name, columns, constraints: [], triggers: [], policies: [] };
+}
+
+function baseColumns(type: DatabaseSpec['type']): ColumnSpec[] {
+  const types = COLUMN_TYPES[type];
+  return [
+    column('id', types.id, { primaryKey: true, ...(type === 'postgresql' ? { defaultValue: 'gen_random_uuid()' } : {}) }),
+    column('created_at', types.timestamp, { defaultValue: timestampDefault(type) })
+  ];
+}
+
+function referenceColumn(type: DatabaseSpec['type'], table: string, nullable = false): ColumnSpec {
+  return column(`${singularize(table)}_id`, COLUMN_TYPES[type].reference, {
+    nullable,
+    foreignKey: { table, column: 'id', onDelete: nullable ? 'SET NULL' : 'CASCADE', onUpdate: 'CASCADE' }
+  });
+}
+
+function sqlColumn(spec: ColumnSpec): string {
+  return [
+    spec.name,
+    spec.type,
+    ...(spec.primaryKey ? ['PRIMARY KEY'] : []),
+    ...(!spec.nullable && !spec.primaryKey ? ['NOT NULL'] : []),
+    ...(spec.unique ? ['UNIQUE'] : []),
+    ...(spec.defaultValue !== undefined ? [`DEFAULT ${spec.defaultValue}`] : []),
+    ...(spec.foreignKey
+      ? [`REFERENCES ${spec.foreignKey.table}(${spec.foreignKey.column}) ON DELETE ${spec.foreignKey.onDelete}`]
+      : [])
+  ].join(' ');
+}
+
+/**
+ * Recompute what follows from the tables: relationships and indexes for
+ * foreign keys, one migration per table in dependency order, and seeding.
+ * Call after editing tables so the rest of the spec stays consistent.
+ */
+export function syncDatabaseSpec(database: DatabaseSpec): DatabaseSpec {
+  const { type, tables } = database;
+  const references = tables.flatMap(table =>
+    table.columns.filter(spec => spec.foreignKey).map(spec => ({ table: table.name, column: spec, foreignKey: spec.foreignKey! }))
+  );
+
+  // Tables are created after the ones they reference
+  const ordered: TableSpec[] = [];
+  const visit = (table: TableSpec, path: Set<string>) => {
+    if (ordered.includes(table) || path.has(table.name)) return;
+    path.add(table.name);
+    references
+      .filter(reference => reference.table === table.name)
+      .forEach(reference => {
+        const target = tables.find(other => other.name === reference.foreignKey.table);
+        if (target) visit(target, path);
+      });
+    ordered.push(table);
+  };
+  tables.forEach(table => visit(table, new Set()));
+
+  const versionOf = (name: string) => String(ordered.findIndex(table => table.name === name) + 1).padStart(3, '0');
+
+  return {
+    ...database,
+    relationships: references.map(reference => ({
+      type: 'one-to-many',
+      from: { table: reference.foreignKey.table, column: reference.foreignKey.column },
+      to: { table: reference.table, column: reference.column.name },
+      cascading: reference.foreignKey.onDelete === 'CASCADE'
+    })),
+    indexes: references.map(reference => ({
+      name: `idx_${reference.table}_${reference.column.name}`,
+      table: reference.table,
+      columns: [reference.column.name],
+      type: 'btree',
+      unique: false
+    })),
+    migrations: ordered.map(table => ({
+      version: versionOf(table.name),
+      description: `Create ${table.name}`,
+      up: type === 'mongodb'
+        ? `db.createCollection('${table.name}')`
+        : `CREATE TABLE ${table.name} (\n  ${table.columns.map(sqlColumn).join(',\n  ')}\n);`,
+      down: type === 'mongodb' ? `db.${table.name}.drop()` : `DROP TABLE ${table.name};`,
+      dependencies: Array.from(new Set(
+        references
+          .filter(reference => reference.table === table.name && reference.foreignKey.table !== table.name)
+          .filter(reference => tables.some(other => other.name === reference.foreignKey.table))
+          .map(reference => versionOf(reference.foreignKey.table))
+      ))
+    })),
+    seeding: {
+      strategy: 'faker',
+      tables: Object.fromEntries(tables.filter(table => table.name !== 'users').map(table => [table.name, { count: 10 }]))
+    }
+  };
+}
+
+function resourceEndpoints(table: string, middleware: MiddlewareSpec[], validation: boolean): EndpointSpec[] {
+  const idParameter = { name: 'id', type: 'string', required: true };
+  const body = {
+    type: 'json' as const,
+    schema: { $ref: `#/schemas/${table}` },
+    validation: validation ? [{ type: 'required' as const, value: 'name', message: 'name is required' }] : []
+  };
+  const ok = (statusCode: number, description: string) => ({ statusCode, description, schema: {}, examples: [] });
+
+  return [
+    { path: `/api/${table}`, method: 'GET', parameters: [], responses: [ok(200, `List ${table}`)], middleware },
+    { path: `/api/${table}`, method: 'POST', parameters: [], requestBody: body, responses: [ok(201, 'Created'), ok(400, 'Invalid body')], middleware },
+    { path: `/api/${table}/:id`, method: 'PUT', parameters: [idParameter], requestBody: body, responses: [ok(200, 'Updated'), ok(404, 'Not found')], middleware },
+    { path: `/api/${table}/:id`, method: 'DELETE', parameters: [idParameter], responses: [ok(204, 'Deleted'), ok(404, 'Not found')], middleware }
+  ];
+}
+
+function componentSpec(feature: ParsedFeature, name: string, entity: string | undefined): ComponentSpec {
+  const props: PropSpec[] = entity
+    ? [
+      { name: 'items', type: `${entity}[]`, required: true, description: `${entity} records to show` },
+      { name: 'onSave', type: `(item: ${entity}) => Promise<void>`, required: false, description: `Create or update a ${entity}` },
+      { name: 'onDelete', type: '(id: string) => Promise<void>', required: false }
+    ]
+    : feature.category === 'security'
+      ? [{ name: 'onAuthenticated', type: '(token: string) => void', required: true, description: 'Called after sign-in or sign-up' }]
+      : [{ name: 'className', type: 'string', required: false }];
+
+  return {
+    name,
+    type: 'functional',
+    props,
+    state: [
+      { name: 'isLoading', type: 'boolean', initialValue: false, persistence: 'none' },
+      { name: 'error', type: 'string | null', initialValue: null, persistence: 'none' }
+    ],
+    styling: { framework: 'tailwind', responsive: true },
+    accessibility: {
+      ariaLabels: {},
+      keyboardNavigation: true,
+      screenReaderSupport: true,
+      colorContrast: 'AA',
+      focusManagement: feature.category === 'security' || feature.complexity !== 'low'
+    },
+    performance: {
+      lazyLoading: feature.complexity === 'high',
+      memoization: !!entity,
+      bundleSplitting: false,
+      imageOptimization: false,
+      caching: { strategy: 'memory', ttl: 0, invalidation: [] }
+    }
+  };
+}
+
+/**
+ * Plan specs from the enabled features. Database and backend features
+ * become tables with CRUD endpoints, security features add users and JWT
+ * auth, integrations get an action endpoint, and every feature shown to the
+ * user gets a component, typed with the records it depends on.
+ */
+export function planSpecs(features: ParsedFeature[], techStack: StackSelection): SpecPlan {
+  const stack = resolveStack(techStack);
+  const type = stack.database.id;
+  const types = COLUMN_TYPES[type];
+  const enabled = orderFeatures(features.filter(feature => feature.enabled));
+  const authenticated = stack.features.authentication || enabled.some(feature => feature.category === 'security');
+
+  const tableNames = new Set<string>(authenticated ? ['users'] : []);
+  const tableOf = new Map<string, string>();
+  enabled
+    .filter(feature => feature.category === 'database' || feature.category === 'backend')
+    .forEach(feature => tableOf.set(feature.id, uniqueName(tableNameFor(feature, enabled), tableNames)));
+
+  // The first data feature a feature depends on, directly or through others
+  const dataFeatureOf = (feature: ParsedFeature, seen = new Set<string>()): string | undefined => {
+    if (tableOf.has(feature.id)) return feature.id;
+    seen.add(feature.id);
+    for (const reference of feature.dependencies) {
+      const id = resolveFeatureId(enabled, reference);
+      const dependency = id && !seen.has(id) ? enabled.find(other => other.id === id) : undefined;
+      const found = dependency && dataFeatureOf(dependency, seen);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const tables: TableSpec[] = [];
+  if (authenticated) {
+    tables.push(createTable('users', [
+      baseColumns(type)[0],
+      column('email', types.text, { unique: true }),
+      column('password_hash', types.text),
+      baseColumns(type)[1]
+    ]));
+  }
+  enabled.filter(feature => tableOf.has(feature.id)).forEach(feature => {
+    const references = feature.dependencies
+      .map(reference => resolveFeatureId(enabled, reference))
+      .filter((id): id is string => !!id && id !== feature.id && tableOf.has(id))
+      .map(id => referenceColumn(type, tableOf.get(id)!, true));
+    tables.push(createTable(tableOf.get(feature.id)!, [
+      baseColumns(type)[0],
+      ...(authenticated ? [referenceColumn(type, 'users')] : []),
+      ...references,
+      column('name', types.text),
+      column('description', types.longText, { nullable: true }),
+      baseColumns(type)[1]
+    ]));
+  });
+
+  const middleware: MiddlewareSpec[] = authenticated ? [{ name: 'auth', type: 'auth', config: {}, order: 1 }] : [];
+  const endpoints: EndpointSpec[] = [];
+  if (authenticated) {
+    const credentials = { type: 'json' as const, schema: { email: 'string', password: 'string' }, validation: [] };
+    endpoints.push(
+      { path: '/api/auth/register', method: 'POST', parameters: [], requestBody: credentials, responses: [{ statusCode: 201, description: 'Registered', schema: { token: 'string' }, examples: [] }], middleware: [] },
+      { path: '/api/auth/login', method: 'POST', parameters: [], requestBody: credentials, responses: [{ statusCode: 200, description: 'Signed in', schema: { token: 'string' }, examples: [] }], middleware: [] },
+      { path: '/api/auth/me', method: 'GET', parameters: [], responses: [{ statusCode: 200, description: 'Current user', schema: {}, examples: [] }], middleware }
+    );
+  }
+  tableOf.forEach(table => endpoints.push(...resourceEndpoints(table, middleware, true)));
+  const actionPaths = new Set<string>();
+  enabled.filter(feature => feature.category === 'integration').forEach(feature => endpoints.push({
+    path: `/api/${uniqueName(nameWords(feature.name).join('-') || feature.id, actionPaths, '-')}`,
+    method: 'POST',
+    parameters: [],
+    responses: [{ statusCode: 200, description: feature.description, schema: {}, examples: [] }],
+    middleware
+  }));
+
+  const componentNames = new Set<string>();
+  const components = enabled
+    .filter(feature => feature.category !== 'database' && feature.category !== 'backend')
+    .map(feature => {
+      const dataFeature = dataFeatureOf(feature);
+      const entity = dataFeature ? pascalCase([singularize(tableOf.get(dataFeature)!.split('_').pop()!)]) : undefined;
+      return componentSpec(feature, uniqueName(pascalCase(nameWords(feature.name)) || 'Feature', componentNames, ''), entity);
+    });
+
+  return {
+    components,
+    api: {
+      endpoints,
+      server: { framework: stack.backend.name, language: plannedApiTarget(stack).language },
+      authentication: { type: 'jwt', config: { required: authenticated } },
+      validation: {
+        library: 'zod',
+        schemas: Object.fromEntries(Array.from(tableOf.values()).map(table => [table, { name: 'string', description: 'string?' }])),
+        errorHandling: { strategy: 'throw', format: 'json', logging: true, monitoring: false }
+      },
+      documentation: { format: 'openapi', includeExamples: true, includeSchemas: true, authentication: authenticated },
+      testing: {
+        framework: 'vitest',
+        types: ['unit', 'integration'],
+        coverage: { threshold: 80, reports: ['text'], exclude: [] },
+        mocking: { strategy: 'auto', external: true, database: true }
+      }
+    },
+    database: syncDatabaseSpec({
+      type,
+      tables,
+      relationships: [],
+      indexes: [],
+      migrations: [],
+      seeding: { strategy: 'faker', tables: {} }
+    })
+  };
+}
+
+/**
+ * Language and file of the planned API: a Python module for Flask, and one
+ * in the app's language for the Node backends
+ */
+export function plannedApiTarget(stack: ResolvedStack): { language: string; path: string } {
+  if (stack.backend.id === 'flask') return { language: 'Python', path: 'server/api.py' };
+  return stack.language === 'typescript'
+    ? { language: 'TypeScript', path: 'server/api.ts' }
+    : { language: 'JavaScript', path: 'server/api.js' };
+}
+
+/**
+ * Generate one layer of the plan with ModularCodeGenerator, as text for the
+ * code viewer. Components are joined with path headers.
+ */
+export async function generatePlannedLayer(plan: SpecPlan, layer: PlannedLayer, options: ModelCallOptions = {}): Promise<string> {
+  // Loaded on demand: the generator's analysis pulls in the TypeScript compiler
+  const { ModularCodeGenerator } = await import('./codeGenerator');
+  const generator = ModularCodeGenerator.getInstance();
+
+  switch (layer) {
+    case 'components': {
+      const files: string[] = [];
+      // One at a time, so a long plan does not trip provider rate limits
+      for (const spec of plan.components) {
+        const component = await generator.generateComponent(spec, options);
+        files.push(`// src/components/${spec.name}.tsx\n${component.code.trim()}`);
+      }
+      return files.join('\n\n');
+    }
+    case 'api': {
+      const api = await generator.generateAPI(plan.api, options);
+      return api.code.trim();
+    }
+    case 'database': {
+      const schema = await generator.generateDatabase(plan.database, options);
+      if (schema.migrations.length === 0) {
+        throw new Error('The model returned no schema');
+      }
+      return schema.migrations.join('\n\n').trim();
+    }
+  }
+}
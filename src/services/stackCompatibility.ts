@@ -0,0 +1,181 @@
+import {
+  BACKEND_PROFILES,
+  DATABASE_PROFILES,
+  DEPLOYMENT_PROFILES,
+  DeploymentProfile,
+  FRONTEND_PROFILES,
+  ResolvedStack,
+  StackSelection,
+  findDeploymentProfile,
+  resolveStack
+} from './stackProfiles';
+
+/**
+ * Which stack choices work together. Each rule in the matrix below names the
+ * combination it rejects, why, and the changes that resolve it. Errors mean
+ * the generated app cannot run as chosen and block generation; warnings mean
+ * it runs with extra work the user should know about.
+ */
+
+export type StackIssueSeverity = 'error' | 'warning';
+
+export type StackLayer = keyof StackSelection;
+
+export interface StackAlternative {
+  label: string;
+  // Applied on top of the current selection
+  changes: Partial<StackSelection>;
+}
+
+export interface StackIssue {
+  id: string;
+  severity: StackIssueSeverity;
+  // The choices involved, for highlighting
+  layers: StackLayer[];
+  message: string;
+  alternatives: StackAlternative[];
+}
+
+export interface StackValidation {
+  issues: StackIssue[];
+  // False when any issue is an error
+  compatible: boolean;
+}
+
+interface RuleContext {
+  selection: StackSelection;
+  stack: ResolvedStack;
+  // Undefined for deployment targets without a profile
+  deployment?: DeploymentProfile;
+}
+
+interface CompatibilityRule {
+  id: string;
+  severity: StackIssueSeverity;
+  layers: StackLayer[];
+  conflicts: (context: RuleContext) => boolean;
+  message: (context: RuleContext) => string;
+  alternatives: (context: RuleContext) => StackAlternative[];
+}
+
+const switchTo = <T extends { name: string }>(layer: StackLayer) => (profile: T): StackAlternative => ({
+  label: `Use ${profile.name}`,
+  changes: { [layer]: profile.name }
+});
+
+const COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    id: 'realtime-backend',
+    severity: 'error',
+    layers: ['realtime', 'backend'],
+    conflicts: ({ stack }) => stack.features.realtime && !stack.backend.websockets,
+    message: ({ stack }) =>
+      `Real-time sync needs WebSocket connections, which the generated ${stack.backend.name} server cannot hold open.`,
+    alternatives: () => [
+      ...BACKEND_PROFILES.filter(backend => backend.websockets).map(switchTo('backend')),
+      { label: 'Turn off real-time', changes: { realtime: false } }
+    ]
+  },
+  {
+    id: 'realtime-deployment',
+    severity: 'error',
+    layers: ['realtime', 'deployment'],
+    conflicts: ({ stack, deployment }) => stack.features.realtime && !!deployment && !deployment.websockets,
+    message: ({ deployment }) =>
+      `${deployment!.name} runs the backend as serverless functions, which cannot hold the WebSocket connections real-time sync needs.`,
+    alternatives: () => [
+      ...DEPLOYMENT_PROFILES.filter(deployment => deployment.websockets).map(switchTo('deployment')),
+      { label: 'Turn off real-time', changes: { realtime: false } }
+    ]
+  },
+  {
+    id: 'embedded-database',
+    severity: 'error',
+    layers: ['database', 'deployment'],
+    conflicts: ({ stack, deployment }) => stack.database.embedded && !!deployment && !deployment.persistentDisk,
+    message: ({ stack, deployment }) =>
+      `${stack.database.name} keeps its data in a file, and ${deployment!.name} does not keep files written at runtime, ` +
+      'so the data would be lost on every restart or deploy.',
+    alternatives: () => [
+      ...DATABASE_PROFILES.filter(database => !database.embedded).map(switchTo('database')),
+      ...DEPLOYMENT_PROFILES.filter(deployment => deployment.persistentDisk).map(switchTo('deployment'))
+    ]
+  },
+  {
+    id: 'schema-language',
+    severity: 'error',
+    layers: ['database', 'backend'],
+    conflicts: ({ stack }) => !!stack.database.schemaLanguage && stack.database.schemaLanguage !== stack.backend.language,
+    message: ({ stack }) =>
+      `The ${stack.database.name} models are generated as ${stack.database.schemaFile} for a ${stack.database.schemaLanguage} backend, ` +
+      `so the ${stack.backend.name} backend cannot load them.`,
+    alternatives: ({ stack }) => [
+      ...BACKEND_PROFILES.filter(backend => backend.language === stack.database.schemaLanguage).map(switchTo('backend')),
+      ...DATABASE_PROFILES.filter(database => !database.schemaLanguage).map(switchTo('database'))
+    ]
+  },
+  {
+    id: 'server-on-serverless',
+    severity: 'warning',
+    layers: ['backend', 'deployment'],
+    conflicts: ({ deployment }) => !!deployment && !deployment.longRunning,
+    message: ({ stack, deployment }) =>
+      `${deployment!.name} will host the frontend, but the ${stack.backend.name} backend is a long-running server it cannot run. ` +
+      'Deploy the backend separately with the Docker setup from the deployment guide.',
+    alternatives: () => DEPLOYMENT_PROFILES.filter(deployment => deployment.longRunning).map(switchTo('deployment'))
+  },
+  {
+    id: 'row-level-security',
+    severity: 'warning',
+    layers: ['authentication', 'database'],
+    conflicts: ({ stack }) => stack.features.authentication && !stack.database.rowLevelSecurity,
+    message: ({ stack }) =>
+      `Row-level security policies, which Supabase uses to keep each user's data private, need PostgreSQL. ` +
+      `With ${stack.database.name}, every query has to be scoped to the signed-in user in the backend instead.`,
+    alternatives: () => DATABASE_PROFILES.filter(database => database.rowLevelSecurity).map(switchTo('database'))
+  },
+  {
+    id: 'typescript-frontend',
+    severity: 'warning',
+    layers: ['language', 'frontend'],
+    conflicts: ({ selection, stack }) => selection.language?.trim().toLowerCase() === 'typescript' && stack.language !== 'typescript',
+    message: ({ stack }) => `TypeScript output is not available for ${stack.frontend.name} yet, so JavaScript will be generated.`,
+    alternatives: () => [
+      ...FRONTEND_PROFILES.filter(frontend => frontend.typescript).map(switchTo('frontend')),
+      { label: 'Use JavaScript', changes: { language: 'JavaScript' } }
+    ]
+  }
+];
+
+/**
+ * Check a stack selection against the compatibility matrix. Choices without
+ * a profile are checked as the default they resolve to.
+ */
+export function validateStack(selection: StackSelection): StackValidation {
+  const context: RuleContext = {
+    selection,
+    stack: resolveStack(selection),
+    deployment: findDeploymentProfile(selection.deployment)
+  };
+  const issues = COMPATIBILITY_RULES
+    .filter(rule => rule.conflicts(context))
+    .map(rule => ({
+      id: rule.id,
+      severity: rule.severity,
+      layers: rule.layers,
+      message: rule.message(context),
+      alternatives: rule.alternatives(context)
+    }));
+  return { issues, compatible: issues.every(issue => issue.severity !== 'error') };
+}
+
+/**
+ * Issues as a plain-text list, each with the changes that resolve it
+ */
+export function formatStackIssues(issues: StackIssue[]): string {
+  return issues.map(issue => {
+    const labels = issue.alternatives.map(alternative => alternative.label.charAt(0).toLowerCase() + alternative.label.slice(1));
+    const fix = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0];
+    return `- ${issue.message}${fix ? ` To fix it, ${fix}.` : ''}`;
+  }).join('\n');
+}
@@ -0,0 +1,399 @@
+import type { ManifestRules } from './fileManifest';
+
+export interface FrontendProfile {
+  id: 'react' | 'vue' | 'svelte';
+  name: string;
+  // Labels accepted from older projects and the idea form, lowercased
+  aliases: string[];
+  manifest: ManifestRules;
+  // How components are written, for the prompt
+  guidance: string[];
+  // Dev server command once the project is downloaded
+  devCommand: string;
+  buildDir: string;
+  // Whether the in-browser preview can run it
+  previewable: boolean;
+  // Where the acceptance tests go and the testing libraries they may import
+  tests: { file: string; runner: string; packages: string[] };
+  // Replacement rules and guidance when TypeScript output is chosen
+  typescript?: Pick<FrontendProfile, 'manifest' | 'guidance' | 'tests'>;
+}
+
+export interface BackendProfile {
+  id: 'express' | 'fastify' | 'flask';
+  name: string;
+  aliases: string[];
+  language: string;
+  entryFile: string;
+  guidance: string[];
+  startCommand: string;
+  dockerImage: string;
+  port: number;
+  // Whether the generated server can hold WebSocket connections open
+  websockets: boolean;
+}
+
+export interface DatabaseProfile {
+  id: 'postgresql' | 'mysql' | 'sqlite' | 'mongodb';
+  name: string;
+  aliases: string[];
+  schemaFile: string;
+  // Language of the schema file when it is code the backend loads
+  schemaLanguage?: string;
+  // Stores its data in a local file instead of a separate server
+  embedded: boolean;
+  // Supports row-level security policies, as Supabase uses for per-user data
+  rowLevelSecurity: boolean;
+  guidance: string[];
+}
+
+export interface DeploymentProfile {
+  id: 'vercel' | 'netlify' | 'aws' | 'heroku';
+  name: string;
+  aliases: string[];
+  // Keeps a server process running, rather than invoking functions per request
+  longRunning: boolean;
+  websockets: boolean;
+  // Files written at runtime survive restarts and deploys
+  persistentDisk: boolean;
+}
+
+export interface StackFeatures {
+  authentication: boolean;
+  realtime: boolean;
+  testing: boolean;
+}
+
+export type OutputLanguage = 'javascript' | 'typescript';
+
+export interface ResolvedStack {
+  frontend: FrontendProfile;
+  language: OutputLanguage;
+  backend: BackendProfile;
+  database: DatabaseProfile;
+  deployment: string;
+  features: StackFeatures;
+  // Choices with no profile, each replaced by the default and explained here
+  substitutions: string[];
+}
+
+export interface StackSelection {
+  frontend: string;
+  backend: string;
+  database: string;
+  deployment: string;
+  language?: string;
+  authentication?: boolean;
+  realtime?: boolean;
+  testing?: boolean;
+}
+
+export const FRONTEND_PROFILES: FrontendProfile[] = [
+  {
+    id: 'react',
+    name: 'React',
+    aliases: ['react', 'react.js', 'reactjs'],
+    manifest: {
+      entryFile: 'src/App.js',
+      extensions: ['.js', '.jsx', '.css', '.json'],
+      packages: ['react', 'react-dom', 'react-dom/client'],
+      reserved: ['src/index.js', 'src/index.css'],
+      requireDefaultExport: true
+    },
+    guidance: [
+      'Plain JavaScript with JSX and React hooks, no TypeScript',
+      'src/App.js composes the app and ends with `export default App;`',
+      'src/components/ for one component per file, named after the component',
+      'src/hooks/ for custom hooks, src/utils/ for plain helpers',
+      'Give each file one default export named after the file'
+    ],
+    devCommand: 'npm start',
+    buildDir: 'build',
+    previewable: true,
+    tests: {
+      file: 'src/App.test.js',
+      runner: 'Jest',
+      packages: ['@testing-library/react', '@testing-library/user-event']
+    },
+    typescript: {
+      manifest: {
+        entryFile: 'src/App.tsx',
+        extensions: ['.tsx', '.ts', '.css', '.json'],
+        packages: ['react', 'react-dom', 'react-dom/client'],
+        reserved: ['src/index.tsx', 'src/index.css', 'src/react-app-env.d.ts'],
+        requireDefaultExport: true
+      },
+      guidance: [
+        'TypeScript in strict mode with JSX and React hooks; the code must compile with `tsc --strict` and must not use `any`',
+        'src/App.tsx composes the app and ends with `export default App;`',
+        'src/components/ for one .tsx component per file, named after the component, each with an exported `<Name>Props` interface',
+        'src/types/ for the data models and the API request and response types, shared by components and hooks',
+        'src/hooks/ for custom hooks with typed parameters and return values, src/utils/ for plain helpers',
+        'Give each file one default export named after the file; import types with `import type`'
+      ],
+      tests: {
+        file: 'src/App.test.tsx',
+        runner: 'Jest',
+        packages: ['@testing-library/react', '@testing-library/user-event']
+      }
+    }
+  },
+  {
+    id: 'vue',
+    name: 'Vue',
+    aliases: ['vue', 'vue.js', 'vuejs', 'vue 3'],
+    manifest: {
+      entryFile: 'src/App.vue',
+      extensions: ['.vue', '.js', '.css', '.json'],
+      packages: ['vue'],
+      reserved: ['src/main.js', 'src/style.css'],
+      requireDefaultExport: false
+    },
+    guidance: [
+      'Vue 3 single-file components using <script setup> and the Composition API, no TypeScript',
+      'src/App.vue is the root component',
+      'src/components/ for one .vue component per file, named in PascalCase',
+      'src/composables/ for reusable useX functions, src/utils/ for plain helpers'
+    ],
+    devCommand: 'npm run dev',
+    buildDir: 'dist',
+    previewable: false,
+    tests: {
+      file: 'src/App.test.js',
+      runner: 'Vitest',
+      packages: ['vitest', '@testing-library/vue']
+    }
+  },
+  {
+    id: 'svelte',
+    name: 'Svelte',
+    aliases: ['svelte', 'sveltejs', 'svelte 4'],
+    manifest: {
+      entryFile: 'src/App.svelte',
+      extensions: ['.svelte', '.js', '.css', '.json'],
+      packages: ['svelte', 'svelte/store', 'svelte/transition', 'svelte/animate'],
+      reserved: ['src/main.js', 'src/app.css'],
+      requireDefaultExport: false
+    },
+    guidance: [
+      'Svelte 4 components with reactive statements and stores, no TypeScript',
+      'src/App.svelte is the root component',
+      'src/lib/ for one .svelte component per file, named in PascalCase',
+      'src/stores/ for writable stores, src/utils/ for plain helpers'
+    ],
+    devCommand: 'npm run dev',
+    buildDir: 'dist',
+    previewable: false,
+    tests: {
+      file: 'src/App.test.js',
+      runner: 'Vitest',
+      packages: ['vitest', '@testing-library/svelte']
+    }
+  }
+];
+
+export const BACKEND_PROFILES: BackendProfile[] = [
+  {
+    id: 'express',
+    name: 'Node.js Express',
+    aliases: ['node.js', 'nodejs', 'node', 'express', 'node.js express'],
+    language: 'JavaScript',
+    entryFile: 'server.js',
+    guidance: ['Express server setup', 'API routes', 'Middleware', 'Error handling', 'CORS configuration'],
+    startCommand: 'node server.js',
+    dockerImage: 'node:18-alpine',
+    port: 3001,
+    websockets: true
+  },
+  {
+    id: 'fastify',
+    name: 'Node.js Fastify',
+    aliases: ['fastify', 'node.js fastify'],
+    language: 'JavaScript',
+    entryFile: 'server.js',
+    guidance: [
+      'Fastify server setup with the logger enabled',
+      'Routes grouped as plugins with JSON schemas for bodies and responses',
+      'Error handling through setErrorHandler',
+      'CORS through @fastify/cors'
+    ],
+    startCommand: 'node server.js',
+    dockerImage: 'node:18-alpine',
+    port: 3001,
+    websockets: true
+  },
+  {
+    id: 'flask',
+    name: 'Python Flask',
+    aliases: ['python', 'flask', 'python (django/flask)', 'python flask'],
+    language: 'Python',
+    entryFile: 'app.py',
+    guidance: [
+      'Flask application with blueprints for each resource',
+      'JSON request validation and error handlers',
+      'CORS through flask-cors',
+      'A requirements.txt listing every dependency'
+    ],
+    startCommand: 'gunicorn --bind 0.0.0.0:5000 app:app',
+    dockerImage: 'python:3.12-slim',
+    port: 5000,
+    // Gunicorn's sync workers serve one request at a time
+    websockets: false
+  }
+];
+
+export const DATABASE_PROFILES: DatabaseProfile[] = [
+  {
+    id: 'postgresql',
+    name: 'PostgreSQL',
+    aliases: ['postgresql', 'postgres', 'supabase'],
+    schemaFile: 'schema.sql',
+    embedded: false,
+    rowLevelSecurity: true,
+    guidance: ['Return SQL CREATE TABLE statements with proper relationships and indexes.']
+  },
+  {
+    id: 'mysql',
+    name: 'MySQL',
+    aliases: ['mysql', 'mariadb'],
+    schemaFile: 'schema.sql',
+    embedded: false,
+    rowLevelSecurity: false,
+    guidance: [
+      'Return MySQL 8 CREATE TABLE statements using InnoDB and utf8mb4, with proper relationships and indexes.'
+    ]
+  },
+  {
+    id: 'sqlite',
+    name: 'SQLite',
+    aliases: ['sqlite', 'sqlite3'],
+    schemaFile: 'schema.sql',
+    embedded: true,
+    rowLevelSecurity: false,
+    guidance: [
+      'Return SQLite CREATE TABLE statements. Use INTEGER PRIMARY KEY for ids, TEXT for dates in ISO 8601 and enable foreign keys with PRAGMA foreign_keys = ON.'
+    ]
+  },
+  {
+    id: 'mongodb',
+    name: 'MongoDB',
+    aliases: ['mongodb', 'mongo'],
+    schemaFile: 'models.js',
+    schemaLanguage: 'JavaScript',
+    embedded: false,
+    rowLevelSecurity: false,
+    guidance: [
+      'Return Mongoose schemas and models in one CommonJS module, with validation, references between collections and indexes.'
+    ]
+  }
+];
+
+export const DEPLOYMENT_PROFILES: DeploymentProfile[] = [
+  {
+    id: 'vercel',
+    name: 'Vercel',
+    aliases: ['vercel'],
+    longRunning: false,
+    websockets: false,
+    persistentDisk: false
+  },
+  {
+    id: 'netlify',
+    name: 'Netlify',
+    aliases: ['netlify'],
+    longRunning: false,
+    websockets: false,
+    persistentDisk: false
+  },
+  {
+    id: 'aws',
+    name: 'AWS',
+    aliases: ['aws', 'amazon web services', 'ec2', 'ecs'],
+    longRunning: true,
+    websockets: true,
+    persistentDisk: true
+  },
+  {
+    id: 'heroku',
+    name: 'Heroku',
+    aliases: ['heroku'],
+    longRunning: true,
+    websockets: true,
+    // Dynos start from a clean filesystem every day
+    persistentDisk: false
+  }
+];
+
+function findProfile<T extends { id: string; aliases: string[] }>(profiles: T[], choice: string): T | undefined {
+  const normalized = choice.trim().toLowerCase();
+  return profiles.find(profile => profile.id === normalized || profile.aliases.includes(normalized));
+}
+
+/**
+ * The hosting profile for a deployment choice; undefined for targets without
+ * one, which are then not checked
+ */
+export function findDeploymentProfile(choice: string): DeploymentProfile | undefined {
+  return findProfile(DEPLOYMENT_PROFILES, choice || DEPLOYMENT_PROFILES[0].id);
+}
+
+/**
+ * Map a stack selection to generator profiles. Choices without a profile fall
+ * back to the default for that layer and are listed in substitutions, so the
+ * caller can tell the user instead of silently generating something else.
+ */
+export function resolveStack(selection: StackSelection): ResolvedStack {
+  const substitutions: string[] = [];
+  const pick = <T extends { id: string; name: string; aliases: string[] }>(
+    profiles: T[],
+    choice: string,
+    layer: string
+  ): T => {
+    const profile = findProfile(profiles, choice || profiles[0].id);
+    if (profile) return profile;
+
+    substitutions.push(`${choice} is not supported as a ${layer} yet, so ${profiles[0].name} was used instead`);
+    return profiles[0];
+  };
+
+  const frontend = pick(FRONTEND_PROFILES, selection.frontend, 'frontend');
+  let language: OutputLanguage = 'javascript';
+  if (selection.language?.trim().toLowerCase() === 'typescript') {
+    if (frontend.typescript) {
+      language = 'typescript';
+    } else {
+      substitutions.push(`TypeScript output is not available for ${frontend.name} yet, so JavaScript was used instead`);
+    }
+  }
+
+  return {
+    frontend: language === 'typescript' && frontend.typescript ? { ...frontend, ...frontend.typescript } : frontend,
+    language,
+    backend: pick(BACKEND_PROFILES, selection.backend, 'backend'),
+    database: pick(DATABASE_PROFILES, selection.database, 'database'),
+    deployment: selection.deployment || 'Vercel',
+    features: {
+      authentication: selection.authentication ?? false,
+      realtime: selection.realtime ?? false,
+      testing: selection.testing ?? false
+    },
+    substitutions
+  };
+}
+
+/**
+ * Extra requirements from the optional stack features, one per line
+ */
+export function describeStackFeatures(stack: ResolvedStack): string[] {
+  const lines: string[] = [];
+  if (stack.features.authentication) {
+    lines.push('Include user sign-up, sign-in and sign-out, and protect user data');
+  }
+  if (stack.features.realtime) {
+    lines.push('Keep data in sync across open clients in real time');
+  }
+  if (stack.features.testing) {
+    lines.push('Structure the code so each unit can be tested in isolation');
+  }
+  return lines;
+}
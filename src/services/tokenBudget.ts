@@ -0,0 +1,78 @@
+import { LLMProviderRegistry } from './llmProviders';
+
+export interface TokenBudget {
+  contextWindow: number;
+  // Reserved for the model's answer
+  outputTokens: number;
+  // What is left for the prompt once output and the estimation margin are set aside
+  promptTokens: number;
+}
+
+// Used for models that do not declare a context window (mock, discovered models)
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Estimates are approximate, so budgets keep this fraction of the window spare
+const ESTIMATE_MARGIN = 0.1;
+
+/**
+ * Average characters per token within a word for each provider's tokenizer.
+ * Claude's tokenizer splits English and code more finely than OpenAI's
+ * cl100k/o200k, which Llama 3 and Gemini roughly match.
+ */
+const CHARS_PER_TOKEN: Record<string, number> = {
+  openai: 4,
+  groq: 4,
+  gemini: 4,
+  anthropic: 3.5
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+/**
+ * Estimate how many tokens a text uses with a provider's tokenizer. Text is
+ * split the way BPE pre-tokenizers do (words, punctuation, whitespace runs)
+ * so code with heavy punctuation and indentation is not undercounted.
+ */
+export function estimateTokens(text: string, providerId?: string): number {
+  const charsPerToken = (providerId && CHARS_PER_TOKEN[providerId]) || DEFAULT_CHARS_PER_TOKEN;
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(/[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu)) {
+    if (/^\s+$/.test(piece)) {
+      // Single spaces merge into the following word; longer runs (indentation) do not
+      tokens += piece.length > 1 ? Math.ceil(piece.length / 4) : 0;
+    } else {
+      tokens += Math.max(1, Math.ceil(piece.length / charsPerToken));
+    }
+  }
+  return tokens;
+}
+
+export function getTokenBudget(providerId: string, modelId: string, outputTokens: number): TokenBudget {
+  const contextWindow = LLMProviderRegistry.getModelInfo(providerId, modelId)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  return {
+    contextWindow,
+    outputTokens,
+    promptTokens: Math.max(0, Math.floor(contextWindow * (1 - ESTIMATE_MARGIN)) - outputTokens)
+  };
+}
+
+/**
+ * Cut text down to roughly maxTokens, keeping the start or the end
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  providerId?: string,
+  keep: 'start' | 'end' = 'start'
+): string {
+  if (estimateTokens(text, providerId) <= maxTokens) return text;
+
+  // Shrink proportionally until the estimate fits
+  let length = text.length;
+  let truncated = text;
+  while (length > 0 && estimateTokens(truncated, providerId) > maxTokens) {
+    length = Math.floor(length * 0.9);
+    truncated = keep === 'start' ? text.slice(0, length) : text.slice(text.length - length);
+  }
+  return keep === 'start' ? `${truncated}…` : `…${truncated}`;
+}
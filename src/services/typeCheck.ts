@@ -0,0 +1,216 @@
+import type * as TypeScript from 'typescript';
+import type { GeneratedFile } from './fileManifest';
+
+export type TypeCheckResult =
+  | { success: true }
+  | { success: false; errors: string[] };
+
+// Declaration files are bundled as separate chunks and only fetched once a check runs
+const LIB_FILES = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default' });
+const PACKAGE_TYPES = import.meta.glob<string>([
+  '/node_modules/@types/react/index.d.ts',
+  '/node_modules/@types/react/global.d.ts',
+  '/node_modules/@types/react/jsx-runtime.d.ts',
+  '/node_modules/@types/react-dom/index.d.ts',
+  '/node_modules/@types/react-dom/client.d.ts',
+  '/node_modules/@types/prop-types/index.d.ts',
+  '/node_modules/csstype/index.d.ts'
+], { query: '?raw', import: 'default' });
+
+const LIB_DIR = '/node_modules/typescript/lib/';
+const ROOT_LIBS = ['es2020', 'dom', 'dom.iterable'];
+const MAX_ERRORS = 20;
+
+// Stylesheets are imported for their side effects and have no types
+const AMBIENT_DECLARATIONS = {
+  path: '/src/idea2app-env.d.ts',
+  content: "declare module '*.css';\n"
+};
+
+// The test runner and Testing Library are not bundled, so tests are checked
+// against loose stand-ins: what they import from the app and how they render
+// it is still checked
+const TEST_FILE = /\.test\.tsx?$/;
+const TEST_DECLARATIONS = {
+  path: '/src/idea2app-tests.d.ts',
+  content: `${['describe', 'it', 'test', 'expect', 'beforeEach', 'afterEach', 'beforeAll', 'afterAll', 'jest']
+    .map(name => `declare const ${name}: any;`).join('\n')}
+declare module '@testing-library/react' {
+  export function render(ui: React.ReactElement, options?: unknown): any;
+  export const screen: any;
+  export const fireEvent: any;
+  export function within(element: HTMLElement): any;
+  export function waitFor<T>(callback: () => T | Promise<T>, options?: unknown): Promise<T>;
+  export function act(callback: () => unknown): Promise<void>;
+  export function cleanup(): void;
+}
+declare module '@testing-library/user-event' {
+  const userEvent: any;
+  export default userEvent;
+}
+declare module '@testing-library/jest-dom';
+`
+};
+
+/**
+ * Strict type check of generated TypeScript files, run in the browser with
+ * the bundled compiler against the same React types the project installs
+ */
+export class TypeCheckService {
+  private static compiler: Promise<typeof TypeScript> | null = null;
+  private static declarations: Promise<Map<string, string>> | null = null;
+  // Parsed declaration files, reused between checks since they never change
+  private static sourceFiles: Map<string, TypeScript.SourceFile> = new Map();
+
+  static readonly compilerOptions = {
+    strict: true,
+    noEmit: true,
+    noFallthroughCasesInSwitch: true,
+    skipLibCheck: true,
+    isolatedModules: true,
+    esModuleInterop: true,
+    resolveJsonModule: true,
+    types: [] as string[]
+  };
+
+  /**
+   * Type-check the .ts and .tsx files. Diagnostics are phrased like tsc output
+   * so they can be sent back to the model for repair. Throws when the
+   * compiler itself cannot be loaded.
+   */
+  static async check(files: GeneratedFile[]): Promise<TypeCheckResult> {
+    const [ts, declarations] = await Promise.all([this.loadCompiler(), this.loadDeclarations()]);
+
+    const sources = new Map(declarations);
+    files.forEach(file => sources.set(`/${file.path}`, file.content));
+    sources.set(AMBIENT_DECLARATIONS.path, AMBIENT_DECLARATIONS.content);
+    const hasTests = files.some(file => TEST_FILE.test(file.path));
+    if (hasTests) {
+      sources.set(TEST_DECLARATIONS.path, TEST_DECLARATIONS.content);
+    }
+
+    const options: TypeScript.CompilerOptions = {
+      ...this.compilerOptions,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      jsx: ts.JsxEmit.ReactJSX,
+      lib: ROOT_LIBS.map(name => `lib.${name}.d.ts`)
+    };
+
+    const host: TypeScript.CompilerHost = {
+      getSourceFile: (fileName, languageVersion) => {
+        const text = sources.get(fileName);
+        if (text === undefined) return undefined;
+
+        const cached = this.sourceFiles.get(fileName);
+        if (cached) return cached;
+
+        const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+        if (declarations.has(fileName)) {
+          this.sourceFiles.set(fileName, sourceFile);
+        }
+        return sourceFile;
+      },
+      getDefaultLibFileName: () => `${LIB_DIR}lib.d.ts`,
+      getDefaultLibLocation: () => LIB_DIR,
+      writeFile: () => undefined,
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: fileName => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: fileName => sources.has(fileName),
+      readFile: fileName => sources.get(fileName),
+      directoryExists: directory => {
+        const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+        return Array.from(sources.keys()).some(path => path.startsWith(prefix));
+      }
+    };
+
+    const roots = [
+      AMBIENT_DECLARATIONS.path,
+      ...(hasTests ? [TEST_DECLARATIONS.path] : []),
+      ...files.filter(file => /\.tsx?$/.test(file.path)).map(file => `/${file.path}`)
+    ];
+    const program = ts.createProgram(roots, options, host);
+    const diagnostics = ts.getPreEmitDiagnostics(program);
+    if (diagnostics.length === 0) {
+      return { success: true };
+    }
+
+    const errors = diagnostics.slice(0, MAX_ERRORS).map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return `TS${diagnostic.code}: ${message}`;
+      }
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `${diagnostic.file.fileName.slice(1)}(${line + 1},${character + 1}): TS${diagnostic.code}: ${message}`;
+    });
+    if (diagnostics.length > MAX_ERRORS) {
+      errors.push(`...and ${diagnostics.length - MAX_ERRORS} more type errors`);
+    }
+    return { success: false, errors };
+  }
+
+  /**
+   * Strip the types from one file, keeping JSX and imports, for the preview
+   */
+  static async transpile(path: string, content: string): Promise<string> {
+    const ts = await this.loadCompiler();
+    return ts.transpileModule(content, {
+      fileName: path,
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve
+      }
+    }).outputText;
+  }
+
+  private static loadCompiler(): Promise<typeof TypeScript> {
+    if (!this.compiler) {
+      this.compiler = import('typescript').then(module => module.default).catch(error => {
+        // Let the next call try again rather than caching the failure
+        this.compiler = null;
+        throw error;
+      });
+    }
+    return this.compiler;
+  }
+
+  /**
+   * Fetch the React declarations and the standard library files the root
+   * libs reference, following their `/// <reference lib>` directives
+   */
+  private static loadDeclarations(): Promise<Map<string, string>> {
+    if (!this.declarations) {
+      this.declarations = (async () => {
+        const files = new Map<string, string>();
+        await Promise.all(Object.entries(PACKAGE_TYPES).map(async ([path, load]) => {
+          files.set(path, await load());
+        }));
+
+        const pending = [...ROOT_LIBS];
+        while (pending.length > 0) {
+          const batch = [...new Set(pending.splice(0))].map(name => `${LIB_DIR}lib.${name}.d.ts`).filter(path => !files.has(path));
+          await Promise.all(batch.map(async path => {
+            const load = LIB_FILES[path];
+            if (!load) {
+              throw new Error(`TypeScript library file ${path} is not bundled`);
+            }
+            const text = await load();
+            files.set(path, text);
+            for (const match of text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)) {
+              pending.push(match[1].toLowerCase());
+            }
+          }));
+        }
+        return files;
+      })().catch(error => {
+        this.declarations = null;
+        throw error;
+      });
+    }
+    return this.declarations;
+  }
+}
@@ -0,0 +1,175 @@
+import { LLMProviderRegistry, LLMResponse, LLMUsage } from './llmProviders';
+import { DEFAULT_RATES, ModelRate, findRate, parseRateOverrides, priceTokens } from './modelRates';
+
+export interface UsageEntry {
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  // null when no rate is configured for the model
+  costUsd: number | null;
+  timestamp: Date;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  // Calls whose model had no rate, so costUsd understates the real spend
+  unpricedCalls: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  provider: string;
+  model: string;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectId: string | null;
+  projectName: string;
+  models: ModelUsage[];
+}
+
+export type UsageListener = (totals: UsageTotals, entry: UsageEntry) => void;
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  unpricedCalls: 0
+});
+
+function addToTotals(totals: UsageTotals, usage: LLMUsage, costUsd: number | null): void {
+  totals.calls++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.totalTokens;
+  if (costUsd === null) {
+    totals.unpricedCalls++;
+  } else {
+    totals.costUsd += costUsd;
+  }
+}
+
+export function formatCost(costUsd: number): string {
+  // Single calls are often fractions of a cent
+  return costUsd > 0 && costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+export class UsageService {
+  // Extended with VITE_AI_RATES; the AI proxy reads AI_RATES for the costs it records
+  private static rates: Record<string, ModelRate> = {
+    ...DEFAULT_RATES,
+    ...parseRateOverrides(import.meta.env.VITE_AI_RATES, 'VITE_AI_RATES')
+  };
+  private static sessionTotals: UsageTotals = emptyTotals();
+  private static listeners: Set<UsageListener> = new Set();
+
+  static setRates(rates: Record<string, ModelRate>): void {
+    this.rates = { ...this.rates, ...rates };
+  }
+
+  static getRate(provider: string, model: string): ModelRate | undefined {
+    return findRate(this.rates, provider, model);
+  }
+
+  static priceUsage(provider: string, model: string, usage: LLMUsage): number | null {
+    return priceTokens(this.rates, provider, model, usage);
+  }
+
+  /**
+   * Price a response and add it to the session totals. Called for every
+   * successful provider call. The stored per-project usage is written by the
+   * AI proxy from the provider's own response, so a browser cannot forge or
+   * skip it; calls made without the proxy only count for this session.
+   */
+  static record(response: LLMResponse): UsageEntry {
+    const entry: UsageEntry = {
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      costUsd: this.priceUsage(response.provider, response.model, response.usage),
+      timestamp: new Date()
+    };
+
+    addToTotals(this.sessionTotals, entry.usage, entry.costUsd);
+    const totals = this.getSessionTotals();
+    this.listeners.forEach(listener => listener(totals, entry));
+    return entry;
+  }
+
+  static getSessionTotals(): UsageTotals {
+    return { ...this.sessionTotals };
+  }
+
+  /**
+   * Totals for a batch of responses, such as the calls behind one generation.
+   * Responses served from the cache cost nothing and are left out.
+   */
+  static summarize(responses: LLMResponse[]): UsageTotals {
+    const totals = emptyTotals();
+    responses.filter(response => !response.cached).forEach(response => {
+      addToTotals(totals, response.usage, this.priceUsage(response.provider, response.model, response.usage));
+    });
+    return totals;
+  }
+
+  static subscribe(listener: UsageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Everything the signed-in user has spent, grouped by project and then by model
+   */
+  static async getProjectBreakdown(): Promise<ProjectUsage[]> {
+    const { supabase } = await import('../lib/supabase');
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return [];
+
+    const { data, error } = await supabase
+      .from('generation_usage')
+      .select('project_id, provider, model, input_tokens, output_tokens, total_tokens, cost_usd, projects(name)')
+      .eq('user_id', session.user.id);
+    if (error) throw error;
+
+    const projects = new Map<string, ProjectUsage>();
+    for (const row of data || []) {
+      const key = row.project_id || '';
+      let project = projects.get(key);
+      if (!project) {
+        const linked = row.projects as { name?: string } | { name?: string }[] | null;
+        const name = Array.isArray(linked) ? linked[0]?.name : linked?.name;
+        project = { ...emptyTotals(), projectId: row.project_id, projectName: name || 'Unsaved chats', models: [] };
+        projects.set(key, project);
+      }
+
+      let model = project.models.find(m => m.provider === row.provider && m.model === row.model);
+      if (!model) {
+        model = { ...emptyTotals(), provider: row.provider, model: row.model };
+        project.models.push(model);
+      }
+
+      const usage = { inputTokens: row.input_tokens, outputTokens: row.output_tokens, totalTokens: row.total_tokens };
+      // numeric columns arrive as strings
+      const cost = row.cost_usd === null ? null : Number(row.cost_usd);
+      addToTotals(project, usage, cost);
+      addToTotals(model, usage, cost);
+    }
+
+    return [...projects.values()].sort((a, b) => b.costUsd - a.costUsd);
+  }
+}
+
+LLMProviderRegistry.addResponseListener(response => {
+  UsageService.record(response);
+});
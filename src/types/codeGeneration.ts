@@ -92,6 +92,8 @@ export interface APISpec {
   validation: ValidationSpec;
   documentation: DocumentationSpec;
   testing: TestingSpec;
+  // Server the API is written for; Express with TypeScript when absent
+  server?: { framework: string; language: string };
 }
 
 export interface EndpointSpec {
@@ -279,6 +281,15 @@ export interface ValidationRule {
   function?: string;
 }
 
+// Which prompt template version produced an artifact
+export interface PromptProvenance {
+  templateId: string;
+  version: string;
+  // Provider id of the variant used, or 'default'
+  variant: string;
+  experiment?: boolean;
+}
+
 export interface GeneratedComponent {
   code: string;
   dependencies: string[];
@@ -286,6 +297,7 @@ export interface GeneratedComponent {
   documentation: string;
   performance: PerformanceMetrics;
   accessibility: AccessibilityReport;
+  prompt?: PromptProvenance;
 }
 
 export interface GeneratedAPI {
@@ -295,6 +307,7 @@ export interface GeneratedAPI {
   tests: string;
   documentation: string;
   security: SecurityReport;
+  prompt?: PromptProvenance;
 }
 
 export interface GeneratedSchema {
@@ -303,6 +316,7 @@ export interface GeneratedSchema {
   seeds: string;
   documentation: string;
   performance: DatabasePerformanceReport;
+  prompt?: PromptProvenance;
 }
 
 export interface PerformanceMetrics {
@@ -379,6 +393,11 @@ export interface ValidationError {
   severity: 'error' | 'warning';
 }
 
+// A validation error in one generated file
+export interface FileDiagnostic extends ValidationError {
+  file: string;
+}
+
 export interface ValidationWarning {
   line: number;
   column: number;
@@ -0,0 +1,50 @@
+/*
+  # Generation usage accounting
+
+  1. New Tables
+    - `generation_usage`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `project_id` (uuid, foreign key to projects, optional: chats not saved as a project)
+      - `provider` (text)
+      - `model` (text)
+      - `input_tokens` (integer)
+      - `output_tokens` (integer)
+      - `total_tokens` (integer)
+      - `cost_usd` (numeric, optional: null when no rate is configured for the model)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Users can record and read their own usage; rows are never updated
+*/
+
+CREATE TABLE IF NOT EXISTS generation_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE generation_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own usage"
+  ON generation_usage
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own usage"
+  ON generation_usage
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_generation_usage_user_project ON generation_usage(user_id, project_id);
+CREATE INDEX IF NOT EXISTS idx_generation_usage_created_at ON generation_usage(created_at DESC);
@@ -0,0 +1,11 @@
+/*
+  # Usage is recorded by the AI proxy only
+
+  1. Security
+    - Drop the insert policy on `generation_usage`: rows are written by the
+      AI proxy with the service role, from the provider's own token counts,
+      so browsers can no longer forge or skip them
+    - Users can still read their own usage
+*/
+
+DROP POLICY IF EXISTS "Users can record own usage" ON generation_usage;
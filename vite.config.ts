@@ -1,10 +1,62 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURE_DIR = fileURLToPath(new URL('./fixtures/llm', import.meta.url));
+
+// Dev-only endpoint that writes LLM responses captured in record mode
+// (VITE_AI_RECORD=true) to fixtures/llm for the mock provider to replay
+function llmFixtureRecorder(): Plugin {
+  return {
+    name: 'llm-fixture-recorder',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__llm-fixtures', (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        let body = '';
+        req.on('data', chunk => {
+          body += chunk;
+        });
+        req.on('end', async () => {
+          try {
+            const fixture = JSON.parse(body);
+            if (typeof fixture.key !== 'string' || !/^[a-f0-9]{16}$/.test(fixture.key)) {
+              res.statusCode = 400;
+              res.end('Invalid fixture key');
+              return;
+            }
+
+            await mkdir(FIXTURE_DIR, { recursive: true });
+            await writeFile(path.join(FIXTURE_DIR, `${fixture.key}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+            res.statusCode = 204;
+            res.end();
+          } catch (error) {
+            res.statusCode = 500;
+            res.end(error instanceof Error ? error.message : 'Failed to write fixture');
+          }
+        });
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), llmFixtureRecorder()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    // AI proxy from server/, started with `npm run proxy`
+    proxy: {
+      '/api': `http://localhost:${process.env.AI_PROXY_PORT || 8787}`,
+    },
+  },
 });